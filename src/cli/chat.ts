@@ -0,0 +1,113 @@
+import {
+	AIProvider,
+	ChatMessage,
+	ChatResponseMetadata,
+} from '../core/ai-provider.js';
+import {askQuestion, runCancellable} from '../core/cli-utils.js';
+import {ConversationManager} from '../core/conversation.js';
+import {describeProviderError, RequestCancelledError} from '../core/errors.js';
+import {CommandContext, UsageError} from './command.js';
+
+// `ai-providers chat`: a plain conversation with the selected model, or a
+// single prompt answered from the arguments or stdin.
+
+function formatMetadata(metadata: ChatResponseMetadata): string {
+	const tokens = metadata.usage?.total_tokens;
+	return `[${metadata.model}, ${metadata.latencyMs}ms${
+		tokens !== undefined ? `, ${tokens} tokens` : ''
+	}${metadata.cost ? `, $${metadata.cost.totalCost.toFixed(6)}` : ''}]`;
+}
+
+// Streams one answer to stdout and returns it with its metadata
+async function streamAnswer(
+	aiProvider: AIProvider,
+	messages: ChatMessage[],
+	signal?: AbortSignal,
+): Promise<{content: string; metadata?: ChatResponseMetadata}> {
+	let content = '';
+	let metadata: ChatResponseMetadata | undefined;
+	for await (const event of aiProvider.createChatCompletionStream({
+		messages,
+		signal,
+	})) {
+		if (event.type === 'delta') {
+			process.stdout.write(event.content);
+			content += event.content;
+		} else if (event.type === 'done') {
+			metadata = event.metadata;
+		}
+	}
+	process.stdout.write('\n');
+	return {content, metadata};
+}
+
+export async function runChat(context: CommandContext): Promise<void> {
+	const aiProvider = context.getProvider();
+	const system = context.flags.system as string | undefined;
+	const prompt = await context.readInput();
+
+	if (!context.options.interactive) {
+		if (!prompt?.trim()) {
+			throw new UsageError('Give a prompt as an argument or on stdin.');
+		}
+		const messages: ChatMessage[] = [
+			...(system ? [{role: 'system' as const, content: system}] : []),
+			{role: 'user', content: prompt},
+		];
+		if (context.options.output !== 'text') {
+			const response = await aiProvider.createChatCompletion({messages});
+			context.printResult(response.content, response);
+			return;
+		}
+		const {metadata} = await streamAnswer(aiProvider, messages);
+		if (metadata) {
+			context.debug(formatMetadata(metadata));
+		}
+		return;
+	}
+
+	const conversation = new ConversationManager({
+		model: aiProvider.getProviderInfo().defaultModel,
+		messages: system ? [{role: 'system', content: system}] : [],
+		onTrim: report =>
+			context.log(
+				`[Context trimmed: dropped ${report.dropped.length} old message(s)]`,
+			),
+		warn: context.warn,
+	});
+	context.log(
+		`Chatting with ${
+			aiProvider.getProviderInfo().defaultModel
+		}. Type '/quit' to exit; Ctrl+C stops an answer.`,
+	);
+
+	let input = prompt;
+	while (true) {
+		input ??= await askQuestion('You: ');
+		if (input.trim().toLowerCase() === '/quit') {
+			break;
+		}
+		if (input.trim()) {
+			conversation.add({role: 'user', content: input});
+			const {messages} = await conversation.prepare();
+			process.stdout.write('AI: ');
+			try {
+				const answer = await runCancellable(signal =>
+					streamAnswer(aiProvider, messages, signal),
+				);
+				conversation.add({role: 'assistant', content: answer.content});
+				if (answer.metadata) {
+					context.debug(formatMetadata(answer.metadata));
+				}
+			} catch (error) {
+				// The unanswered question stays in the history
+				console.log(
+					error instanceof RequestCancelledError
+						? '\n[Generation stopped]'
+						: `\nError: ${describeProviderError(error)}`,
+				);
+			}
+		}
+		input = undefined;
+	}
+}
@@ -0,0 +1,115 @@
+import {AIProvider} from '../core/ai-provider.js';
+import {ProviderConfigFile} from '../core/config-file.js';
+import {RequestSettings} from '../core/defaults-provider.js';
+
+// Architectural Pattern: Command - Every subcommand of the `ai-providers` CLI
+// is a Command; the entry point parses flags, builds a CommandContext and
+// runs the command with it.
+
+export type OutputFormat = 'text' | 'json' | 'jsonl';
+
+/**
+ * Flags shared by every subcommand.
+ */
+export interface GlobalOptions {
+	provider?: string;
+	profile?: string;
+	model?: string;
+	temperature?: number;
+	output: OutputFormat;
+	verbose: boolean;
+	quiet: boolean;
+	/**
+	 * False with `--non-interactive`, `--input`, JSON output or without a
+	 * terminal: never prompt
+	 */
+	interactive: boolean;
+}
+
+/**
+ * A command-line flag. Values are always given as `--name=value` or
+ * `--name value`; boolean flags take no value.
+ */
+export interface FlagSpec {
+	type: 'string' | 'boolean';
+	short?: string;
+	description: string;
+	/** Placeholder shown in help, e.g. `<usd>` */
+	valueName?: string;
+}
+
+/**
+ * What a command receives from the entry point.
+ */
+export interface CommandContext {
+	options: GlobalOptions;
+	/** The command's own flags */
+	flags: Record<string, string | boolean | undefined>;
+	/** Arguments after the command name that are not flags */
+	positionals: string[];
+	/** The validated config file, with the selected profile applied */
+	config: ProviderConfigFile;
+	/**
+	 * The selected provider with the config's request settings for this
+	 * command and `--model` and `--temperature` applied, created on first
+	 * call so commands that need none do not require keys.
+	 */
+	getProvider(): AIProvider;
+	/**
+	 * Text given as arguments, else piped to stdin, else undefined.
+	 */
+	readInput(): Promise<string | undefined>;
+	/**
+	 * The command's main input: the flag's value, else readInput(), else
+	 * asked for when interactive.
+	 * @throws UsageError when non-interactive and there is no input
+	 */
+	askInput(flag: string, question: string): Promise<string>;
+	/**
+	 * Returns a flag's value, or asks for it when interactive.
+	 * @param flag Name of the string flag holding the answer
+	 * @param question Prompt shown when asking
+	 * @param defaultValue Used when non-interactive and the flag is missing
+	 * @throws UsageError when non-interactive and the flag and default are missing
+	 */
+	ask(flag: string, question: string, defaultValue?: string): Promise<string>;
+	/**
+	 * Progress and status messages, on stderr when non-interactive; silent
+	 * with `--quiet`
+	 */
+	log(message: string): void;
+	/** Warnings, e.g. retries or repaired output, on stderr; silent with `--quiet` */
+	warn(message: string): void;
+	/** Details shown only with `--verbose` */
+	debug(message: string): void;
+	/**
+	 * Prints a command's result: `text` for text output, `value` as JSON
+	 * for `--output=json`, one line per item of an array for `--output=jsonl`.
+	 */
+	printResult(text: string, value: unknown): void;
+}
+
+export interface Command {
+	name: string;
+	/** One line for the command list */
+	summary: string;
+	/** Usage line after the command name, e.g. `[options] [question]` */
+	usage?: string;
+	flags?: Record<string, FlagSpec>;
+	/**
+	 * Request settings the command works best with; the config file's
+	 * `defaults` and `apps.<name>` take precedence.
+	 */
+	defaults?: RequestSettings;
+	run(context: CommandContext): Promise<void>;
+}
+
+/**
+ * Invalid command-line usage; the CLI prints the message with a help hint.
+ */
+export class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UsageError';
+	}
+}
@@ -0,0 +1,105 @@
+import {Command, UsageError} from './command.js';
+import {runChat} from './chat.js';
+import {runModels} from './models.js';
+import {runWeatherApp} from '../mini-apps/weather-app.js';
+import {runFlashcardForge} from '../mini-apps/flashcard-forge.js';
+import {runRecipeCreator} from '../mini-apps/json-recipe-creator.js';
+import {runMoodMorphPoet} from '../mini-apps/mood-morph-poet.js';
+import {runTinyTaleTuner} from '../mini-apps/tiny-tale-tuner.js';
+import {startGateway} from '../gateway/gateway-server.js';
+
+/**
+ * The subcommands of `ai-providers`, in the order `--help` lists them.
+ */
+export const COMMANDS: Command[] = [
+	{
+		name: 'weather',
+		summary: 'Talk about the weather; looks up real forecasts',
+		usage: '[options] [question]',
+		// Some creativity; a hung provider must not block the conversation
+		defaults: {temperature: 0.5, timeoutMs: 60_000},
+		run: runWeatherApp,
+	},
+	{
+		name: 'flashcards',
+		summary: 'Generate study flashcards about a topic or from notes',
+		usage: '[options] [topic]',
+		flags: {
+			topic: {type: 'string', description: 'Topic of the cards'},
+			difficulty: {
+				type: 'string',
+				description: 'beginner, intermediate or advanced (or 1-3)',
+			},
+			cards: {type: 'string', description: 'Number of cards, 1-5'},
+			style: {type: 'string', description: 'formal or casual'},
+			image: {
+				type: 'string',
+				description: 'Photo of notes to base the cards on',
+				valueName: '<path>',
+			},
+		},
+		defaults: {temperature: 0.3, topP: 0.8},
+		run: runFlashcardForge,
+	},
+	{
+		name: 'recipe',
+		summary: 'Create a recipe as validated JSON',
+		usage: '[options] [dish]',
+		flags: {dish: {type: 'string', description: 'Dish to cook'}},
+		defaults: {temperature: 0.5},
+		run: runRecipeCreator,
+	},
+	{
+		name: 'poet',
+		summary: 'Rewrite up to five words in a mood',
+		usage: '[options] [text]',
+		flags: {
+			mood: {
+				type: 'string',
+				description: 'e.g. happy, sad, mysterious (default: random)',
+			},
+		},
+		defaults: {temperature: 0.7, topP: 0.9},
+		run: runMoodMorphPoet,
+	},
+	{
+		name: 'story',
+		summary: 'Write a story together, one sentence at a time',
+		usage: '[options] [story so far]',
+		defaults: {temperature: 0.7},
+		run: runTinyTaleTuner,
+	},
+	{
+		name: 'chat',
+		summary: 'Chat with the selected model',
+		usage: '[options] [prompt]',
+		flags: {system: {type: 'string', description: 'System prompt'}},
+		run: runChat,
+	},
+	{
+		name: 'models',
+		summary: "List the selected provider's models",
+		run: runModels,
+	},
+	{
+		name: 'gateway',
+		summary: 'Serve all providers through an OpenAI-compatible HTTP API',
+		flags: {
+			port: {type: 'string', description: 'Port (default 8787)'},
+			host: {type: 'string', description: 'Interface (default 127.0.0.1)'},
+		},
+		async run(context) {
+			const port = context.flags.port as string | undefined;
+			if (port !== undefined && !/^\d+$/.test(port)) {
+				throw new UsageError(`Invalid port "${port}".`);
+			}
+			await startGateway({
+				port: port === undefined ? undefined : Number(port),
+				host: context.flags.host as string | undefined,
+				defaultProvider: context.options.provider,
+				config: context.config,
+				warn: context.warn,
+			});
+		},
+	},
+];
@@ -0,0 +1,49 @@
+import {describe, expect, it} from 'vitest';
+import {ConfigError} from '../core/config-file.js';
+import {
+	AIProviderError,
+	AuthenticationError,
+	BudgetExceededError,
+	ContentBlockedError,
+	ContextLengthExceededError,
+	InvalidRequestError,
+	QuotaExceededError,
+	RateLimitError,
+	RequestCancelledError,
+	RequestTimeoutError,
+	UnsupportedCapabilityError,
+	UpstreamUnavailableError,
+} from '../core/errors.js';
+import {UsageError} from './command.js';
+import {EXIT_CODES, getExitCode} from './exit-codes.js';
+
+const details = {provider: 'Mock'};
+
+describe('getExitCode', () => {
+	it.each([
+		[new UsageError('Missing --dish'), EXIT_CODES.usage],
+		[new ConfigError('Invalid config'), EXIT_CODES.usage],
+		[new UpstreamUnavailableError('Down', details), EXIT_CODES.unavailable],
+		[new RateLimitError('Slow down', details), EXIT_CODES.unavailable],
+		[new RequestTimeoutError('Too slow', details), EXIT_CODES.unavailable],
+		[new AuthenticationError('Bad key', details), EXIT_CODES.unauthorized],
+		[new QuotaExceededError('No credit', details), EXIT_CODES.unauthorized],
+		[new BudgetExceededError('Budget', details), EXIT_CODES.unauthorized],
+		[new RequestCancelledError('Ctrl+C', details), EXIT_CODES.interrupted],
+		[new InvalidRequestError('Bad request', details), EXIT_CODES.failure],
+		[new ContentBlockedError('Blocked', details), EXIT_CODES.failure],
+		[new ContextLengthExceededError('Too long', details), EXIT_CODES.failure],
+		[
+			new UnsupportedCapabilityError('No tools', {
+				...details,
+				capability: 'tools',
+			}),
+			EXIT_CODES.failure,
+		],
+		[new AIProviderError('Unknown', details), EXIT_CODES.failure],
+		[new TypeError('x is undefined'), EXIT_CODES.failure],
+		['a string', EXIT_CODES.failure],
+	])('maps %o to %i', (error, code) => {
+		expect(getExitCode(error)).toBe(code);
+	});
+});
@@ -0,0 +1,55 @@
+import {
+	AuthenticationError,
+	BudgetExceededError,
+	QuotaExceededError,
+	RateLimitError,
+	RequestCancelledError,
+	RequestTimeoutError,
+	UpstreamUnavailableError,
+} from '../core/errors.js';
+import {ConfigError} from '../core/config-file.js';
+import {UsageError} from './command.js';
+
+// Exit codes of the `ai-providers` CLI, so scripts can tell a retryable
+// outage from a configuration problem without parsing messages.
+
+export const EXIT_CODES = {
+	success: 0,
+	/** The command failed, e.g. the model's output was unusable */
+	failure: 1,
+	/** Invalid flags, missing input or an invalid config file */
+	usage: 2,
+	/** Provider unreachable, rate limiting or timing out; retry later */
+	unavailable: 3,
+	/** Credentials, quota or budget exhausted; fix the configuration */
+	unauthorized: 4,
+	/** Stopped with Ctrl+C */
+	interrupted: 130,
+} as const;
+
+/**
+ * Maps an error that ended a command to the process exit code.
+ */
+export function getExitCode(error: unknown): number {
+	if (error instanceof UsageError || error instanceof ConfigError) {
+		return EXIT_CODES.usage;
+	}
+	if (
+		error instanceof UpstreamUnavailableError ||
+		error instanceof RateLimitError ||
+		error instanceof RequestTimeoutError
+	) {
+		return EXIT_CODES.unavailable;
+	}
+	if (
+		error instanceof AuthenticationError ||
+		error instanceof QuotaExceededError ||
+		error instanceof BudgetExceededError
+	) {
+		return EXIT_CODES.unauthorized;
+	}
+	if (error instanceof RequestCancelledError) {
+		return EXIT_CODES.interrupted;
+	}
+	return EXIT_CODES.failure;
+}
@@ -0,0 +1,439 @@
+#!/usr/bin/env node
+import {readFile} from 'fs/promises';
+import {parseArgs} from 'util';
+import {AIProvider} from '../core/ai-provider.js';
+import {
+	askQuestion,
+	closeReadline,
+	isInteractiveTerminal,
+	readStdin,
+} from '../core/cli-utils.js';
+import {withRequestDefaults} from '../core/defaults-provider.js';
+import {describeProviderError} from '../core/errors.js';
+import {newTraceId} from '../core/middleware.js';
+import {
+	getSelectedProvider,
+	loadSelectedConfig,
+} from '../core/provider-registry.js';
+import {shutdownSpanExporters} from '../core/tracing.js';
+import {printUsageSummaryOnExit, sessionUsage} from '../core/usage-tracker.js';
+import {
+	Command,
+	CommandContext,
+	FlagSpec,
+	GlobalOptions,
+	OutputFormat,
+	UsageError,
+} from './command.js';
+import {COMMANDS} from './commands.js';
+import {getExitCode} from './exit-codes.js';
+import {
+	Flags,
+	Invocation,
+	parseInputRecords,
+	toInvocation,
+} from './input-records.js';
+
+// Architectural Pattern: Front Controller - The single `ai-providers` entry
+// point parses the shared flags, selects the provider and dispatches to the
+// subcommand.
+
+const BIN_NAME = 'ai-providers';
+
+const GLOBAL_FLAGS: Record<string, FlagSpec> = {
+	provider: {
+		type: 'string',
+		description: 'Provider, or a comma-separated fallback chain',
+		valueName: '<name>',
+	},
+	profile: {
+		type: 'string',
+		description: 'Profile from ai-providers.config.(json|yaml)',
+		valueName: '<name>',
+	},
+	model: {type: 'string', description: 'Model for every request'},
+	temperature: {type: 'string', description: 'Sampling temperature, 0-2'},
+	output: {
+		type: 'string',
+		short: 'o',
+		description: 'text, json or jsonl; json and jsonl never prompt',
+		valueName: '<format>',
+	},
+	input: {
+		type: 'string',
+		description: 'Run once per JSON record in the file, - for stdin',
+		valueName: '<file>',
+	},
+	'non-interactive': {
+		type: 'boolean',
+		description:
+			'Never prompt; take input from flags, arguments or stdin (the default without a terminal)',
+	},
+	verbose: {type: 'boolean', short: 'v', description: 'Show request details'},
+	quiet: {type: 'boolean', short: 'q', description: 'Print results only'},
+	budget: {
+		type: 'string',
+		description: 'Stop once this much was spent',
+		valueName: '<usd>',
+	},
+	cache: {type: 'string', description: 'use, bypass or refresh'},
+	record: {
+		type: 'string',
+		description: 'Record responses to a fixture file',
+		valueName: '<file>',
+	},
+	replay: {
+		type: 'string',
+		description: 'Answer from a fixture file',
+		valueName: '<file>',
+	},
+	trace: {
+		type: 'string',
+		description: 'Write OpenTelemetry spans to a file or collector URL',
+		valueName: '<file|url>',
+	},
+	help: {type: 'boolean', short: 'h', description: 'Show help'},
+};
+
+// Flags getSelectedProvider() reads from its arguments
+const PROVIDER_FLAGS = [
+	'provider',
+	'profile',
+	'budget',
+	'cache',
+	'record',
+	'replay',
+	'trace',
+];
+
+function formatFlags(flags: Record<string, FlagSpec>): string[] {
+	const rows = Object.entries(flags).map(([name, spec]) => [
+		`${spec.short ? `-${spec.short}, ` : '    '}--${name}${
+			spec.type === 'string' ? `=${spec.valueName ?? '<value>'}` : ''
+		}`,
+		spec.description,
+	]);
+	const width = Math.max(...rows.map(([usage]) => usage.length)) + 2;
+	return rows.map(
+		([usage, description]) => `  ${usage.padEnd(width)}${description}`,
+	);
+}
+
+function formatHelp(command?: Command): string {
+	if (!command) {
+		const width = Math.max(...COMMANDS.map(({name}) => name.length)) + 2;
+		return [
+			`Usage: ${BIN_NAME} <command> [options]`,
+			'',
+			'Commands:',
+			...COMMANDS.map(({name, summary}) => `  ${name.padEnd(width)}${summary}`),
+			'',
+			'Global options:',
+			...formatFlags(GLOBAL_FLAGS),
+			'',
+			`Run "${BIN_NAME} <command> --help" for the options of a command.`,
+		].join('\n');
+	}
+	return [
+		`Usage: ${BIN_NAME} ${command.name} ${command.usage ?? '[options]'}`,
+		'',
+		command.summary,
+		...(command.flags ? ['', 'Options:', ...formatFlags(command.flags)] : []),
+		'',
+		'Global options:',
+		...formatFlags(GLOBAL_FLAGS),
+	].join('\n');
+}
+
+// parseArgs() only accepts `type`, `short` and friends, not our descriptions
+function toParseArgsOptions(flags: Record<string, FlagSpec>) {
+	return Object.fromEntries(
+		Object.entries(flags).map(([name, {type, short}]) => [
+			name,
+			short ? {type, short} : {type},
+		]),
+	);
+}
+
+function parseGlobalOptions(
+	values: Record<string, string | boolean | undefined>,
+): GlobalOptions {
+	const output = (values.output as string | undefined) ?? 'text';
+	if (output !== 'text' && output !== 'json' && output !== 'jsonl') {
+		throw new UsageError(
+			`Unknown output format "${output}". Use text, json or jsonl.`,
+		);
+	}
+	const temperatureArg = values.temperature as string | undefined;
+	const temperature =
+		temperatureArg === undefined ? undefined : Number(temperatureArg);
+	if (
+		temperature !== undefined &&
+		(Number.isNaN(temperature) || temperature < 0 || temperature > 2)
+	) {
+		throw new UsageError('--temperature must be a number between 0 and 2.');
+	}
+	const budgetArg = values.budget as string | undefined;
+	if (budgetArg !== undefined) {
+		const budget = Number(budgetArg);
+		if (!Number.isFinite(budget) || budget <= 0) {
+			throw new UsageError('--budget must be a positive amount in USD.');
+		}
+	}
+	if (values.verbose && values.quiet) {
+		throw new UsageError('--verbose and --quiet cannot be combined.');
+	}
+	return {
+		provider: values.provider as string | undefined,
+		profile: values.profile as string | undefined,
+		model: values.model as string | undefined,
+		temperature,
+		output,
+		verbose: values.verbose === true,
+		quiet: values.quiet === true,
+		interactive:
+			!values['non-interactive'] &&
+			values.input === undefined &&
+			output === 'text' &&
+			isInteractiveTerminal(),
+	};
+}
+
+// How the CLI reports a failure in JSON output
+function toErrorRecord(error: unknown) {
+	return {
+		error: {
+			type: error instanceof Error ? error.name : 'Error',
+			message: describeProviderError(error),
+			exitCode: getExitCode(error),
+		},
+	};
+}
+
+// Known once the flags are parsed; decides how errors are printed
+let outputFormat: OutputFormat = 'text';
+
+// Runs the CLI with the given arguments (without `node` and the script)
+async function runCli(argv: string[]): Promise<void> {
+	const [name, ...rest] = argv;
+	if (!name || name === 'help' || name === '--help' || name === '-h') {
+		console.log(formatHelp());
+		return;
+	}
+	const command = COMMANDS.find(candidate => candidate.name === name);
+	if (!command) {
+		throw new UsageError(`Unknown command "${name}".`);
+	}
+
+	let parsed;
+	try {
+		parsed = parseArgs({
+			args: rest,
+			options: toParseArgsOptions({...GLOBAL_FLAGS, ...command.flags}),
+			allowPositionals: true,
+		});
+	} catch (error) {
+		throw new UsageError(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+	const values = parsed.values as Record<string, string | boolean | undefined>;
+	if (values.help) {
+		console.log(formatHelp(command));
+		return;
+	}
+	const options = parseGlobalOptions(values);
+	outputFormat = options.output;
+	const {positionals} = parsed;
+	const commandFlags: Flags = Object.fromEntries(
+		Object.keys(command.flags ?? {}).map(flag => [flag, values[flag]]),
+	);
+
+	// Piped input is read once, on first use, so commands given everything as
+	// flags do not wait for a pipe that never closes
+	let stdin: Promise<string> | undefined;
+	const readPipedInput = () =>
+		isInteractiveTerminal() ? undefined : (stdin ??= readStdin());
+
+	// Progress goes to stderr unless a person is watching, keeping stdout for results
+	const showStatus = !options.quiet;
+	const writeStatus = options.interactive ? console.log : console.error;
+	const warn = (message: string) => {
+		if (showStatus) {
+			console.error(message);
+		}
+	};
+
+	const providerArgs = PROVIDER_FLAGS.filter(
+		flag => values[flag] !== undefined,
+	).map(flag => `--${flag}=${values[flag]}`);
+	// Read up front, so a broken config file fails before any work is done
+	const config = loadSelectedConfig(providerArgs);
+
+	let provider: AIProvider | undefined;
+	const getProvider = () => {
+		if (!provider) {
+			provider = withRequestDefaults(
+				getSelectedProvider(providerArgs, {
+					log: message => showStatus && writeStatus(message),
+					warn,
+					config,
+					app: command.name,
+					appDefaults: command.defaults,
+					// One trace per run, so all calls of a command show together
+					traceId: newTraceId(),
+				}),
+				{overrides: {model: options.model, temperature: options.temperature}},
+			);
+			if (showStatus) {
+				printUsageSummaryOnExit(sessionUsage, writeStatus);
+			}
+		}
+		return provider;
+	};
+
+	// A batch prints JSON as one array at the end, so collect results first
+	const batch = values.input !== undefined;
+	const collected: unknown[] = [];
+	const emit = (value: unknown) => {
+		if (options.output === 'jsonl') {
+			for (const item of Array.isArray(value) && !batch ? value : [value]) {
+				console.log(JSON.stringify(item));
+			}
+		} else if (batch) {
+			collected.push(value);
+		} else {
+			console.log(JSON.stringify(value, null, 2));
+		}
+	};
+
+	const createContext = ({flags, positionals}: Invocation): CommandContext => {
+		const context: CommandContext = {
+			options,
+			flags,
+			positionals,
+			config,
+			getProvider,
+			async readInput() {
+				if (positionals.length > 0) {
+					return positionals.join(' ');
+				}
+				// With --input, records carry the input and stdin may hold the records
+				const text = batch ? undefined : (await readPipedInput())?.trim();
+				return text || undefined;
+			},
+			async askInput(flag, question) {
+				const value = flags[flag];
+				if (typeof value === 'string') {
+					return value;
+				}
+				const input = await context.readInput();
+				if (input !== undefined) {
+					return input;
+				}
+				if (options.interactive) {
+					return askQuestion(question);
+				}
+				throw new UsageError(`Give --${flag}, an argument or input on stdin.`);
+			},
+			async ask(flag, question, defaultValue) {
+				const value = flags[flag];
+				if (typeof value === 'string') {
+					return value;
+				}
+				if (options.interactive) {
+					return askQuestion(question);
+				}
+				if (defaultValue === undefined) {
+					throw new UsageError(`Missing --${flag}.`);
+				}
+				return defaultValue;
+			},
+			log(message) {
+				if (showStatus) {
+					writeStatus(message);
+				}
+			},
+			warn,
+			debug(message) {
+				// stderr, so results on stdout stay parseable
+				if (options.verbose) {
+					console.error(message);
+				}
+			},
+			printResult(text, value) {
+				if (options.output === 'text') {
+					console.log(text);
+				} else {
+					emit(value);
+				}
+			},
+		};
+		return context;
+	};
+
+	if (options.verbose) {
+		console.error(`Running ${command.name} with ${JSON.stringify(options)}`);
+	}
+	if (!batch) {
+		await command.run(createContext({flags: commandFlags, positionals}));
+		return;
+	}
+
+	const source = values.input as string;
+	let text: string;
+	try {
+		text = source === '-' ? await readStdin() : await readFile(source, 'utf8');
+	} catch (error) {
+		throw new UsageError(
+			`Cannot read --input: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	const records = parseInputRecords(text);
+	// A failed record is reported in place and the rest still run; the exit
+	// code is that of the first failure
+	for (const record of records) {
+		try {
+			await command.run(
+				createContext(
+					toInvocation(record, command, {flags: commandFlags, positionals}),
+				),
+			);
+		} catch (error) {
+			process.exitCode ||= getExitCode(error);
+			if (options.output === 'text') {
+				console.error(`Error: ${describeProviderError(error)}`);
+			} else {
+				emit(toErrorRecord(error));
+			}
+		}
+	}
+	if (options.output === 'json') {
+		console.log(JSON.stringify(collected, null, 2));
+	}
+}
+
+runCli(process.argv.slice(2))
+	.catch(error => {
+		process.exitCode = getExitCode(error);
+		if (outputFormat !== 'text') {
+			// Scripts parsing JSON get the error as JSON too, on stderr
+			console.error(JSON.stringify(toErrorRecord(error)));
+			return;
+		}
+		if (error instanceof UsageError) {
+			const command = process.argv[2];
+			console.error(
+				`Error: ${error.message}\nRun "${BIN_NAME} ${
+					COMMANDS.some(({name}) => name === command) ? `${command} ` : ''
+				}--help" for usage.`,
+			);
+			return;
+		}
+		console.error(`Error: ${describeProviderError(error)}`);
+	})
+	// Lets the process end once the command is done; servers keep it alive
+	.finally(async () => {
+		closeReadline();
+		await shutdownSpanExporters();
+	});
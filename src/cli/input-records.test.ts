@@ -0,0 +1,83 @@
+import {describe, expect, it} from 'vitest';
+import {Command, UsageError} from './command.js';
+import {parseInputRecords, toInvocation} from './input-records.js';
+
+const COMMAND: Command = {
+	name: 'recipe',
+	summary: 'Creates a recipe',
+	flags: {
+		dish: {type: 'string', description: 'Dish to cook'},
+		vegan: {type: 'boolean', description: 'Only plants'},
+	},
+	run: async () => {},
+};
+
+describe('parseInputRecords', () => {
+	it.each([
+		['a JSON object', '{"dish": "soup"}', [{dish: 'soup'}]],
+		[
+			'an array of objects',
+			'[{"dish": "soup"}, {"dish": "pie"}]',
+			[{dish: 'soup'}, {dish: 'pie'}],
+		],
+		[
+			'JSONL with blank lines',
+			'{"dish": "soup"}\n\n{"dish": "pie"}\n',
+			[{dish: 'soup'}, {dish: 'pie'}],
+		],
+		[
+			'JSONL with CRLF line ends',
+			'{"dish": "soup"}\r\n{"dish": "pie"}',
+			[{dish: 'soup'}, {dish: 'pie'}],
+		],
+	])('reads %s', (_, text, records) => {
+		expect(parseInputRecords(text)).toEqual(records);
+	});
+
+	it.each([
+		[
+			'a malformed line',
+			'{"dish": "soup"}\n{"dish": \n{"dish": "pie"}',
+			'--input line 2 is not valid JSON.',
+		],
+		[
+			'a truncated single object',
+			'{"dish": "soup"',
+			'--input line 1 is not valid JSON.',
+		],
+		[
+			'a line that is not an object',
+			'{"dish": "soup"}\n"pie"',
+			'--input record 2 is not a JSON object.',
+		],
+		[
+			'an array of non-objects',
+			'[{"dish": "soup"}, null]',
+			'--input record 2 is not a JSON object.',
+		],
+		[
+			'a nested array',
+			'[[{"dish": "soup"}]]',
+			'--input record 1 is not a JSON object.',
+		],
+	])('rejects %s with a UsageError', (_, text, message) => {
+		expect(() => parseInputRecords(text)).toThrow(new UsageError(message));
+	});
+});
+
+describe('toInvocation', () => {
+	const defaults = {flags: {dish: 'stew', vegan: true}, positionals: ['arg']};
+
+	it("maps keys to the command's flags over the command line's", () => {
+		expect(
+			toInvocation({dish: 'soup', vegan: false, input: 42}, COMMAND, defaults),
+		).toEqual({flags: {dish: 'soup', vegan: false}, positionals: ['42']});
+		expect(toInvocation({}, COMMAND, defaults)).toEqual(defaults);
+	});
+
+	it('rejects keys that are not flags of the command', () => {
+		expect(() => toInvocation({servings: 2}, COMMAND, defaults)).toThrow(
+			new UsageError('Unknown key "servings" in --input record for recipe.'),
+		);
+	});
+});
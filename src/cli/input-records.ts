@@ -0,0 +1,82 @@
+import {Command, UsageError} from './command.js';
+
+// `--input` batches: every record of the file runs the command once, with
+// the record's keys as the command's flags.
+
+export type Flags = Record<string, string | boolean | undefined>;
+
+/**
+ * One run of a command: its flags and arguments, from the command line or
+ * from an `--input` record.
+ */
+export interface Invocation {
+	flags: Flags;
+	positionals: string[];
+}
+
+/**
+ * Parses `--input` records: a JSON object, an array of objects, or one
+ * object per line (JSONL).
+ * @throws UsageError naming the first malformed line or record
+ */
+export function parseInputRecords(text: string): Record<string, unknown>[] {
+	const trimmed = text.trim();
+	let records: unknown[];
+	try {
+		const parsed: unknown = JSON.parse(trimmed);
+		records = Array.isArray(parsed) ? parsed : [parsed];
+	} catch {
+		records = trimmed
+			.split('\n')
+			.map((line, index) => {
+				if (!line.trim()) {
+					return undefined;
+				}
+				try {
+					return JSON.parse(line) as unknown;
+				} catch {
+					throw new UsageError(`--input line ${index + 1} is not valid JSON.`);
+				}
+			})
+			.filter(record => record !== undefined);
+	}
+	records.forEach((record, index) => {
+		if (
+			typeof record !== 'object' ||
+			record === null ||
+			Array.isArray(record)
+		) {
+			throw new UsageError(`--input record ${index + 1} is not a JSON object.`);
+		}
+	});
+	return records as Record<string, unknown>[];
+}
+
+/**
+ * Turns an `--input` record into flags for the command. Keys are the
+ * command's flag names, plus `input` for the text otherwise given as an
+ * argument; flags on the command line apply to records that leave them out.
+ * @throws UsageError for keys that are not flags of the command
+ */
+export function toInvocation(
+	record: Record<string, unknown>,
+	command: Command,
+	defaults: Invocation,
+): Invocation {
+	const flags: Flags = {...defaults.flags};
+	let positionals = defaults.positionals;
+	for (const [key, value] of Object.entries(record)) {
+		if (key === 'input') {
+			positionals = [String(value)];
+			continue;
+		}
+		const spec = command.flags?.[key];
+		if (!spec) {
+			throw new UsageError(
+				`Unknown key "${key}" in --input record for ${command.name}.`,
+			);
+		}
+		flags[key] = spec.type === 'boolean' ? value === true : String(value);
+	}
+	return {flags, positionals};
+}
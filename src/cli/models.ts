@@ -0,0 +1,33 @@
+import {ModelDescriptor} from '../core/ai-provider.js';
+import {listProviderModels} from '../core/model-catalog.js';
+import {CommandContext} from './command.js';
+
+// `ai-providers models`: lists the selected provider's models with what the
+// catalogue knows about them.
+
+function formatModel(model: ModelDescriptor): string {
+	const capabilities = Object.entries(model.capabilities)
+		.filter(([, supported]) => supported)
+		.map(([capability]) => capability)
+		.join(', ');
+	const details = [
+		model.contextWindow &&
+			`${model.contextWindow.toLocaleString('en-US')} tokens`,
+		capabilities || 'capabilities unknown',
+		model.pricing &&
+			`$${model.pricing.inputPerMillion}/$${model.pricing.outputPerMillion} per 1M tokens`,
+	].filter(Boolean);
+	return `${model.id.padEnd(32)} ${details.join(' | ')}`;
+}
+
+export async function runModels(context: CommandContext): Promise<void> {
+	const aiProvider = context.getProvider();
+	const models = await listProviderModels(aiProvider);
+	context.printResult(
+		[
+			`${aiProvider.getProviderInfo().name} models:`,
+			...models.map(formatModel),
+		].join('\n'),
+		models,
+	);
+}
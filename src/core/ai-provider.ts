@@ -1,45 +1,278 @@
-import {
-	ChatCompletionCreateParamsBase,
-	ChatCompletion,
-} from 'openai/resources/chat/completions';
+/**
+ * Optional features a provider offers beyond chat.
+ */
+export interface ProviderCapabilities {
+	/** createEmbeddings() is available */
+	embeddings?: boolean;
+}
+
+/**
+ * What a model can do. Unset fields mean unknown, e.g. for models served by
+ * a local server; requests are only rejected for capabilities set to false.
+ */
+export interface ModelCapabilities {
+	chat?: boolean;
+	streaming?: boolean;
+	/** `responseFormat` JSON output */
+	jsonMode?: boolean;
+	tools?: boolean;
+	/** Image and file parts in messages */
+	vision?: boolean;
+	embeddings?: boolean;
+}
+
+/** Prices in USD per million tokens */
+export interface ModelPricing {
+	inputPerMillion: number;
+	outputPerMillion: number;
+}
+
+/**
+ * Catalogue entry for a model (see model-catalog.ts).
+ */
+export interface ModelDescriptor {
+	id: string;
+	/** Prompt plus output, in tokens */
+	contextWindow?: number;
+	maxOutputTokens?: number;
+	capabilities: ModelCapabilities;
+	pricing?: ModelPricing;
+}
 
 export interface ProviderInfo {
 	name: string;
 	version: string;
+	/** Model used when a request sets none */
+	defaultModel: string;
+	/** Chat model ids, the default first */
 	supportedModels: string[];
+	/** Descriptors of the models known so far; see also listModels() */
+	models?: ModelDescriptor[];
+	capabilities?: ProviderCapabilities;
+	/** Models accepted by createEmbeddings(), the default first */
+	embeddingModels?: string[];
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * A tool invocation requested by the model. `arguments` is already parsed.
+ */
+export interface ToolCall {
+	id: string;
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+export interface TextPart {
+	type: 'text';
+	text: string;
+}
+
+/**
+ * An image sent to a vision model. `source` is a local file path, a data URL
+ * or base64 data; base64 data needs `mimeType`, the others infer it.
+ */
+export interface ImagePart {
+	type: 'image';
+	source: string;
+	mimeType?: string;
+	/** Resolution the model looks at (OpenAI only) */
+	detail?: 'auto' | 'low' | 'high';
+}
+
+/**
+ * A document such as a PDF, given like an ImagePart's source.
+ */
+export interface FilePart {
+	type: 'file';
+	source: string;
+	mimeType?: string;
+	filename?: string;
+}
+
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+/** Plain text, or text mixed with images and files (user messages only) */
+export type MessageContent = string | ContentPart[];
+
+export interface ChatMessage {
+	role: ChatRole;
+	content: MessageContent;
+	/** Tool calls made by the model (assistant messages only) */
+	toolCalls?: ToolCall[];
+	/** ID of the call this message answers (tool messages only) */
+	toolCallId?: string;
+	/** Name of the tool that produced this result (tool messages only) */
+	name?: string;
+}
+
+/**
+ * A function the model may call. `parameters` is a JSON Schema object.
+ */
+export interface ToolDefinition {
+	name: string;
+	description?: string;
+	parameters: Record<string, unknown>;
+}
+
+export type ToolChoice = 'auto' | 'none' | 'required' | {name: string};
+
+export type ResponseFormat =
+	| {type: 'text'}
+	| {type: 'json_object'}
+	| {type: 'json_schema'; name: string; schema: Record<string, unknown>};
+
+/**
+ * Provider-neutral chat request. Every provider translates this explicitly
+ * and reports the parameters it cannot honour in `metadata.ignoredParams`.
+ */
+export interface ChatRequest {
+	messages: ChatMessage[];
+	/** Defaults to the provider's configured model when omitted */
+	model?: string;
+	temperature?: number;
+	topP?: number;
+	maxTokens?: number;
+	seed?: number;
+	stop?: string[];
+	responseFormat?: ResponseFormat;
+	tools?: ToolDefinition[];
+	toolChoice?: ToolChoice;
+	/** Cancels the request; streams stop at the next chunk */
+	signal?: AbortSignal;
+	/** Aborts the request with a RequestTimeoutError after this many ms */
+	timeoutMs?: number;
+}
+
+export interface TokenUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+	total_tokens?: number;
+}
+
+export type FinishReason =
+	| 'stop'
+	| 'length'
+	| 'content_filter'
+	| 'tool_calls'
+	| 'other';
+
+export interface CostBreakdown {
+	inputCost: number;
+	outputCost: number;
+	totalCost: number;
+	currency: 'USD';
+}
+
+/**
+ * A provider that failed before another one answered (see FallbackProvider).
+ */
+export interface FailedAttempt {
+	provider: string;
+	model?: string;
+	error: string;
+}
+
+export interface ChatResponseMetadata {
+	model: string;
+	usage?: TokenUsage;
+	latencyMs: number;
+	/** Time until the first content arrived (streaming only) */
+	timeToFirstTokenMs?: number;
+	finishReason?: FinishReason;
+	/** Request parameters the provider could not honour */
+	ignoredParams?: string[];
+	/** Number of attempts made, when a retry wrapper is in use */
+	attempts?: number;
+	/** Name of the provider that answered, when a fallback chain is in use */
+	provider?: string;
+	/** Providers that failed before `provider` answered */
+	failedAttempts?: FailedAttempt[];
+	/** Whether the response came from a response cache */
+	cacheHit?: boolean;
+	/** Cost computed from `usage` and the pricing table, when both are known */
+	cost?: CostBreakdown;
 }
 
 export interface ChatResponse {
 	content: string;
-	metadata: {
-		model: string;
-		usage?: {
-			prompt_tokens?: number;
-			completion_tokens?: number;
-			total_tokens?: number;
-		};
-		latencyMs: number;
-	};
+	/** Present when the model asked for one or more tools to be run */
+	toolCalls?: ToolCall[];
+	metadata: ChatResponseMetadata;
+}
+
+/**
+ * Events yielded by `createChatCompletionStream`. Every provider yields zero or
+ * more `delta` and `tool_call` events followed by exactly one `done` event
+ * carrying the finish reason, final usage and timings.
+ */
+export type ChatStreamEvent =
+	| {type: 'delta'; content: string}
+	| {type: 'tool_call'; toolCall: ToolCall}
+	| {type: 'done'; metadata: ChatResponseMetadata};
+
+export interface EmbeddingOptions {
+	/** Defaults to the provider's embedding model */
+	model?: string;
+	/** Shortens the vectors, for models that support it */
+	dimensions?: number;
+	signal?: AbortSignal;
+	/** Applies to each batch sent to the provider */
+	timeoutMs?: number;
+}
+
+export interface EmbeddingResponse {
+	/** One unit-length vector per input text, in input order */
+	embeddings: number[][];
+	model: string;
+	/** Length of each vector */
+	dimensions: number;
+	usage?: TokenUsage;
+	latencyMs: number;
+	/** Number of requests the input was split into */
+	batches: number;
+	/** Name of the provider that answered, when a fallback chain is in use */
+	provider?: string;
+	/** Cost computed from `usage` and the pricing table, when both are known */
+	cost?: CostBreakdown;
 }
 
 export interface AIProvider {
 	/**
 	 * Creates a chat completion using the provider's API
-	 * @param config Configuration for the chat completion
+	 * @param request Provider-neutral chat request
 	 * @returns Promise resolving to a standardized chat response
 	 */
-	createChatCompletion(
-		config: ChatCompletionCreateParamsBase,
-	): Promise<ChatResponse>;
+	createChatCompletion(request: ChatRequest): Promise<ChatResponse>;
 
 	/**
 	 * Creates a streaming chat completion
-	 * @param config Configuration for the chat completion
-	 * @returns Async generator of chat response chunks
+	 * @param request Provider-neutral chat request
+	 * @returns Async generator of stream events, ending with a `done` event
 	 */
 	createChatCompletionStream(
-		config: ChatCompletionCreateParamsBase,
-	): AsyncGenerator<ChatResponse>;
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent>;
+
+	/**
+	 * Embeds texts as vectors. Check supportsEmbeddings() first: wrappers
+	 * define this method even when the wrapped provider cannot embed.
+	 * @param texts Texts to embed; large inputs are split into batches
+	 * @param options Model, dimensions and cancellation
+	 * @returns Normalized vectors in input order, with usage
+	 */
+	createEmbeddings?(
+		texts: string[],
+		options?: EmbeddingOptions,
+	): Promise<EmbeddingResponse>;
+
+	/**
+	 * Lists the models the provider serves, querying its models endpoint when
+	 * it has one, and describes them from the model catalogue.
+	 * @returns One descriptor per model; unknown capabilities are left unset
+	 */
+	listModels?(): Promise<ModelDescriptor[]>;
 
 	/**
 	 * Gets information about the provider implementation
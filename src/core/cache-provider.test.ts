@@ -0,0 +1,175 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {ChatRequest, ChatStreamEvent} from './ai-provider.js';
+import {FileCacheStore, getCacheKey, withCache} from './cache-provider.js';
+import {MockProvider} from './mock-provider.js';
+
+const REQUEST: ChatRequest = {
+	messages: [{role: 'user', content: 'Hi'}],
+	temperature: 0.2,
+};
+
+// Answers every call with a new, numbered reply
+const counting = () =>
+	new MockProvider((_, callIndex) => ({content: `reply ${callIndex + 1}`}));
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('getCacheKey', () => {
+	const info = counting().getProviderInfo();
+
+	it('ignores key order, undefined fields and the signal', () => {
+		expect(
+			getCacheKey(
+				{
+					temperature: 0.2,
+					messages: REQUEST.messages,
+					topP: undefined,
+					signal: new AbortController().signal,
+				},
+				info,
+			),
+		).toBe(getCacheKey(REQUEST, info));
+	});
+
+	it('treats the default model like the same model set explicitly', () => {
+		expect(getCacheKey({...REQUEST, model: info.defaultModel}, info)).toBe(
+			getCacheKey(REQUEST, info),
+		);
+	});
+
+	it('differs when anything influencing the output differs', () => {
+		const key = getCacheKey(REQUEST, info);
+		expect(getCacheKey({...REQUEST, temperature: 0.3}, info)).not.toBe(key);
+		expect(getCacheKey({...REQUEST, model: 'other'}, info)).not.toBe(key);
+		expect(getCacheKey(REQUEST, {...info, name: 'Other'})).not.toBe(key);
+	});
+});
+
+describe('CachingProvider', () => {
+	it('answers repeated requests from the cache', async () => {
+		const mock = counting();
+		const provider = withCache(mock);
+
+		const first = await provider.createChatCompletion(REQUEST);
+		const second = await provider.createChatCompletion(REQUEST);
+		const other = await provider.createChatCompletion({
+			...REQUEST,
+			temperature: 1,
+		});
+
+		expect(first.content).toBe('reply 1');
+		expect(first.metadata.cacheHit).toBe(false);
+		expect(second.content).toBe('reply 1');
+		expect(second.metadata.cacheHit).toBe(true);
+		expect(other.content).toBe('reply 2');
+		expect(mock.requests).toHaveLength(2);
+	});
+
+	it('skips the cache in bypass mode and overwrites it in refresh mode', async () => {
+		const provider = withCache(counting());
+		await provider.createChatCompletion(REQUEST);
+
+		const bypassed = await provider.createChatCompletion(REQUEST, {
+			mode: 'bypass',
+		});
+		const refreshed = await provider.createChatCompletion(REQUEST, {
+			mode: 'refresh',
+		});
+		const cached = await provider.createChatCompletion(REQUEST);
+
+		expect(bypassed.content).toBe('reply 2');
+		expect(bypassed.metadata.cacheHit).toBeUndefined();
+		expect(refreshed.content).toBe('reply 3');
+		expect(cached.content).toBe('reply 3');
+		expect(cached.metadata.cacheHit).toBe(true);
+	});
+
+	it('calls the provider again once an entry expired', async () => {
+		vi.useFakeTimers({toFake: ['Date']});
+		const mock = counting();
+		const provider = withCache(mock, {ttlMs: 1_000});
+
+		await provider.createChatCompletion(REQUEST);
+		vi.advanceTimersByTime(999);
+		expect((await provider.createChatCompletion(REQUEST)).content).toBe(
+			'reply 1',
+		);
+		vi.advanceTimersByTime(1);
+		expect((await provider.createChatCompletion(REQUEST)).content).toBe(
+			'reply 2',
+		);
+	});
+
+	it('replays a cached response as a stream and caches completed streams', async () => {
+		const mock = new MockProvider({chunks: ['Hel', 'lo']});
+		const provider = withCache(mock);
+		const collect = async () => {
+			const events: ChatStreamEvent[] = [];
+			for await (const event of provider.createChatCompletionStream(REQUEST)) {
+				events.push(event);
+			}
+			return events;
+		};
+
+		const streamed = await collect();
+		const replayed = await collect();
+
+		expect(streamed.slice(0, 2)).toEqual([
+			{type: 'delta', content: 'Hel'},
+			{type: 'delta', content: 'lo'},
+		]);
+		expect(streamed[2]).toMatchObject({
+			type: 'done',
+			metadata: {cacheHit: false},
+		});
+		expect(replayed[0]).toEqual({type: 'delta', content: 'Hello'});
+		expect(replayed[1]).toMatchObject({
+			type: 'done',
+			metadata: {cacheHit: true},
+		});
+		expect(mock.requests).toHaveLength(1);
+		expect((await provider.createChatCompletion(REQUEST)).content).toBe(
+			'Hello',
+		);
+	});
+
+	it('does not cache failed calls', async () => {
+		const mock = new MockProvider([
+			{error: new Error('Network down')},
+			{content: 'Hello'},
+		]);
+		const provider = withCache(mock);
+
+		await expect(provider.createChatCompletion(REQUEST)).rejects.toThrow(
+			'Network down',
+		);
+		expect((await provider.createChatCompletion(REQUEST)).content).toBe(
+			'Hello',
+		);
+	});
+
+	it('keeps entries across instances with the file store', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-cache-'));
+		try {
+			const first = withCache(counting(), {
+				store: new FileCacheStore(directory),
+			});
+			await first.createChatCompletion(REQUEST);
+
+			const mock = counting();
+			const second = withCache(mock, {store: new FileCacheStore(directory)});
+			const response = await second.createChatCompletion(REQUEST);
+
+			expect(response.content).toBe('reply 1');
+			expect(response.metadata.cacheHit).toBe(true);
+			expect(mock.requests).toHaveLength(0);
+		} finally {
+			fs.rmSync(directory, {recursive: true, force: true});
+		}
+	});
+});
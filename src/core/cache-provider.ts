@@ -0,0 +1,337 @@
+import {createHash} from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+	ProviderInfo,
+	ToolCall,
+} from './ai-provider.js';
+import {embedTexts} from './embeddings.js';
+import {listProviderModels} from './model-catalog.js';
+
+// Architectural Pattern: Decorator - Wraps any AIProvider and serves repeated
+// requests from a cache instead of calling the provider again.
+
+export interface CacheEntry {
+	response: ChatResponse;
+	storedAt: number;
+	/** Epoch milliseconds after which the entry is stale; none means forever */
+	expiresAt?: number;
+}
+
+/**
+ * Storage backend for cached responses.
+ */
+export interface CacheStore {
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+	clear(): Promise<void>;
+}
+
+/**
+ * `use` reads and writes the cache, `bypass` skips it entirely and `refresh`
+ * always calls the provider but stores the new response.
+ */
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+export interface CacheOptions {
+	/** Where responses are stored (default: in memory) */
+	store?: CacheStore;
+	/** Time-to-live for new entries; omit to keep them until cleared */
+	ttlMs?: number;
+	mode?: CacheMode;
+	/** Receives a warning when the store cannot be written (default: console.warn) */
+	warn?: (message: string) => void;
+}
+
+/** Per-call overrides of the cache options */
+export interface CacheControl {
+	mode?: CacheMode;
+	ttlMs?: number;
+}
+
+export const DEFAULT_CACHE_DIRECTORY = path.join('.cache', 'ai-responses');
+
+/**
+ * Keeps entries in a Map for the lifetime of the process.
+ */
+export class MemoryCacheStore implements CacheStore {
+	private entries = new Map<string, CacheEntry>();
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		return this.entries.get(key);
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		this.entries.set(key, entry);
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	async clear(): Promise<void> {
+		this.entries.clear();
+	}
+}
+
+/**
+ * Stores one JSON file per entry, so the cache survives restarts.
+ */
+export class FileCacheStore implements CacheStore {
+	constructor(private directory: string = DEFAULT_CACHE_DIRECTORY) {}
+
+	private filePath(key: string): string {
+		return path.join(this.directory, `${key}.json`);
+	}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		try {
+			return JSON.parse(
+				await fs.readFile(this.filePath(key), 'utf8'),
+			) as CacheEntry;
+		} catch {
+			// Missing or unreadable entries are treated as misses
+			return undefined;
+		}
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		await fs.mkdir(this.directory, {recursive: true});
+		await fs.writeFile(this.filePath(key), JSON.stringify(entry, null, 2));
+	}
+
+	async delete(key: string): Promise<void> {
+		await fs.rm(this.filePath(key), {force: true});
+	}
+
+	async clear(): Promise<void> {
+		await fs.rm(this.directory, {recursive: true, force: true});
+	}
+}
+
+// JSON with sorted object keys and without undefined values
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(item => stableStringify(item) ?? 'null').join(',')}]`;
+	}
+	if (value !== null && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, entryValue]) => entryValue !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(
+				([key, entryValue]) =>
+					`${JSON.stringify(key)}:${stableStringify(entryValue)}`,
+			);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Builds the cache key for a request: a hash over the provider, the
+ * effective model and everything that influences the output.
+ * @param request The chat request
+ * @param info The provider answering it; its first model is the default
+ */
+export function getCacheKey(request: ChatRequest, info: ProviderInfo): string {
+	const normalized = {
+		provider: info.name,
+		model: request.model ?? info.defaultModel,
+		messages: request.messages,
+		temperature: request.temperature,
+		topP: request.topP,
+		maxTokens: request.maxTokens,
+		seed: request.seed,
+		stop: request.stop,
+		responseFormat: request.responseFormat,
+		tools: request.tools,
+		toolChoice: request.toolChoice,
+	};
+	return createHash('sha256').update(stableStringify(normalized)).digest('hex');
+}
+
+/**
+ * An AIProvider that caches responses of the wrapped provider. Hits are
+ * flagged with `metadata.cacheHit`; streaming calls replay a cached response
+ * as a stream, and streamed responses are cached once they complete.
+ */
+export class CachingProvider implements AIProvider {
+	private store: CacheStore;
+
+	constructor(
+		private provider: AIProvider,
+		private options: CacheOptions = {},
+	) {
+		this.store = options.store ?? new MemoryCacheStore();
+	}
+
+	private async lookup(
+		key: string,
+		mode: CacheMode,
+	): Promise<ChatResponse | undefined> {
+		if (mode !== 'use') {
+			return undefined;
+		}
+		const entry = await this.store.get(key);
+		if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+			await this.store.delete(key);
+			return undefined;
+		}
+		return entry?.response;
+	}
+
+	private async save(
+		key: string,
+		response: ChatResponse,
+		control: CacheControl,
+	): Promise<void> {
+		const ttlMs = control.ttlMs ?? this.options.ttlMs;
+		const storedAt = Date.now();
+		try {
+			await this.store.set(key, {
+				response,
+				storedAt,
+				expiresAt: ttlMs === undefined ? undefined : storedAt + ttlMs,
+			});
+		} catch (error) {
+			// A broken cache should never fail the request itself
+			(this.options.warn ?? console.warn)(
+				`Could not write to the response cache: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+	}
+
+	/**
+	 * @param request The chat request
+	 * @param control Optional per-call mode and TTL
+	 */
+	async createChatCompletion(
+		request: ChatRequest,
+		control: CacheControl = {},
+	): Promise<ChatResponse> {
+		const mode = control.mode ?? this.options.mode ?? 'use';
+		if (mode === 'bypass') {
+			return this.provider.createChatCompletion(request);
+		}
+
+		const key = getCacheKey(request, this.provider.getProviderInfo());
+		const cached = await this.lookup(key, mode);
+		if (cached) {
+			return {...cached, metadata: {...cached.metadata, cacheHit: true}};
+		}
+
+		const response = await this.provider.createChatCompletion(request);
+		await this.save(key, response, control);
+		return {...response, metadata: {...response.metadata, cacheHit: false}};
+	}
+
+	/**
+	 * @param request The chat request
+	 * @param control Optional per-call mode and TTL
+	 */
+	async *createChatCompletionStream(
+		request: ChatRequest,
+		control: CacheControl = {},
+	): AsyncGenerator<ChatStreamEvent> {
+		const mode = control.mode ?? this.options.mode ?? 'use';
+		if (mode === 'bypass') {
+			yield* this.provider.createChatCompletionStream(request);
+			return;
+		}
+
+		const key = getCacheKey(request, this.provider.getProviderInfo());
+		const cached = await this.lookup(key, mode);
+		if (cached) {
+			if (cached.content) {
+				yield {type: 'delta', content: cached.content};
+			}
+			for (const toolCall of cached.toolCalls ?? []) {
+				yield {type: 'tool_call', toolCall};
+			}
+			yield {
+				type: 'done',
+				metadata: {...cached.metadata, cacheHit: true},
+			};
+			return;
+		}
+
+		let content = '';
+		const toolCalls: ToolCall[] = [];
+		for await (const event of this.provider.createChatCompletionStream(
+			request,
+		)) {
+			if (event.type !== 'done') {
+				if (event.type === 'delta') {
+					content += event.content;
+				} else {
+					toolCalls.push(event.toolCall);
+				}
+				yield event;
+				continue;
+			}
+			// Only completed streams are cached
+			await this.save(
+				key,
+				{
+					content,
+					toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+					metadata: event.metadata,
+				},
+				control,
+			);
+			yield {type: 'done', metadata: {...event.metadata, cacheHit: false}};
+		}
+	}
+
+	/**
+	 * Removes the cached response for a request, if any.
+	 */
+	async invalidate(request: ChatRequest): Promise<void> {
+		await this.store.delete(
+			getCacheKey(request, this.provider.getProviderInfo()),
+		);
+	}
+
+	/**
+	 * Removes all cached responses.
+	 */
+	async clear(): Promise<void> {
+		await this.store.clear();
+	}
+
+	// Embeddings are not cached
+	async createEmbeddings(
+		texts: string[],
+		options?: EmbeddingOptions,
+	): Promise<EmbeddingResponse> {
+		return embedTexts(this.provider, texts, options);
+	}
+
+	listModels(): Promise<ModelDescriptor[]> {
+		return listProviderModels(this.provider);
+	}
+
+	getProviderInfo(): ProviderInfo {
+		return this.provider.getProviderInfo();
+	}
+}
+
+/**
+ * Wraps a provider so identical requests are answered from a cache.
+ */
+export function withCache(
+	provider: AIProvider,
+	options: CacheOptions = {},
+): CachingProvider {
+	return new CachingProvider(provider, options);
+}
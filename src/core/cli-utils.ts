@@ -1,38 +1,110 @@
 import readline from 'readline';
 
-export const rl = readline.createInterface({
-	input: process.stdin,
-	output: process.stdout,
-});
+// Nothing happens on import: the readline interface and the Ctrl+C handler
+// are created on first use, so scripts that never prompt can read stdin
+// themselves and exit as soon as they are done.
+
+let rl: readline.Interface | undefined;
+let activeController: AbortController | undefined;
+let interruptHandlerInstalled = false;
+
+function handleInterrupt(): void {
+	if (activeController) {
+		activeController.abort();
+		activeController = undefined;
+		return;
+	}
+	console.log('\nCaught interrupt signal (Ctrl+C). Exiting.');
+	closeReadline();
+	process.exit(130);
+}
+
+function installInterruptHandler(): void {
+	if (!interruptHandlerInstalled) {
+		interruptHandlerInstalled = true;
+		process.on('SIGINT', handleInterrupt);
+	}
+}
+
+function getReadline(): readline.Interface {
+	if (!rl) {
+		rl = readline.createInterface({
+			input: process.stdin,
+			output: process.stdout,
+		});
+		// In a terminal, readline receives Ctrl+C itself instead of the process
+		rl.on('SIGINT', handleInterrupt);
+		installInterruptHandler();
+	}
+	return rl;
+}
+
+/**
+ * Closes the readline interface, if one was opened, so the process can exit.
+ */
+export function closeReadline(): void {
+	rl?.close();
+	rl = undefined;
+}
 
 export const askQuestion = (query: string): Promise<string> =>
-	new Promise(resolve => rl.question(query, resolve));
+	new Promise(resolve => getReadline().question(query, resolve));
 
 export function getMultiLineInput(prompt: string): Promise<string> {
+	const input = getReadline();
 	return new Promise(resolve => {
 		const lines: string[] = [];
 		console.log(prompt + " (Type 'EOF' on a new line when done):");
 		const lineListener = (line: string) => {
 			if (line.trim().toUpperCase() === 'EOF') {
-				rl.off('line', lineListener);
+				input.off('line', lineListener);
 				resolve(lines.join('\n'));
 			} else {
 				lines.push(line);
 			}
 		};
-		rl.on('line', lineListener);
+		input.on('line', lineListener);
 	});
 }
 
-process.on('SIGINT', () => {
-	console.log('\nCaught interrupt signal (Ctrl+C). Exiting.');
-	rl.close();
-	process.exit();
-});
+/**
+ * Whether the process can prompt the user, i.e. stdin is a terminal.
+ */
+export function isInteractiveTerminal(): boolean {
+	return process.stdin.isTTY === true;
+}
 
-process.on('exit', () => {
-	rl.close();
-});
+/**
+ * Reads everything piped to stdin, e.g. `echo text | ai-providers poet`.
+ * Only call this when stdin is not a terminal, or it waits for Ctrl+D.
+ */
+export async function readStdin(): Promise<string> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) {
+		chunks.push(chunk as Buffer);
+	}
+	return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Runs an operation that Ctrl+C cancels instead of exiting the app. The
+ * operation should pass the signal on, e.g. as `ChatRequest.signal`.
+ * @param operation Receives the signal that Ctrl+C aborts
+ */
+export async function runCancellable<T>(
+	operation: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+	installInterruptHandler();
+	const controller = new AbortController();
+	activeController = controller;
+	try {
+		return await operation(controller.signal);
+	} finally {
+		if (activeController === controller) {
+			activeController = undefined;
+		}
+	}
+}
 
 /**
  * Simple heuristic to guess if a string contains a city name.
@@ -81,5 +153,3 @@ export function extractCityNameSimple(input: string): string | null {
 
 	return null;
 }
-
-console.log('CLI utilities initialized.');
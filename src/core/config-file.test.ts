@@ -0,0 +1,203 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+	ConfigError,
+	getAppSettings,
+	loadProviderConfig,
+	PROFILE_ENV_VAR,
+} from './config-file.js';
+
+let directory: string;
+
+function writeConfig(name: string, content: unknown) {
+	fs.writeFileSync(
+		path.join(directory, name),
+		typeof content === 'string' ? content : JSON.stringify(content),
+	);
+}
+
+beforeEach(() => {
+	directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-config-'));
+	vi.stubEnv(PROFILE_ENV_VAR, '');
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	fs.rmSync(directory, {recursive: true, force: true});
+});
+
+describe('loadProviderConfig validation', () => {
+	it('returns an empty config without a file', () => {
+		expect(loadProviderConfig(directory)).toEqual({});
+	});
+
+	it('reads YAML, treating an empty file as an empty config', () => {
+		writeConfig('ai-providers.config.yaml', '');
+		expect(loadProviderConfig(directory)).toEqual({});
+
+		writeConfig(
+			'ai-providers.config.yaml',
+			'provider: gemini\nfallback: [openai]\n',
+		);
+		expect(loadProviderConfig(directory)).toEqual({
+			provider: 'gemini',
+			fallback: ['openai'],
+		});
+	});
+
+	it('lists every invalid value', () => {
+		writeConfig('ai-providers.config.json', {
+			provider: '',
+			defaults: {temperature: 3},
+			budget: {maxCostUsd: -1},
+			unknown: true,
+		});
+
+		expect(() => loadProviderConfig(directory)).toThrow(
+			new ConfigError(
+				[
+					'Invalid ai-providers.config.json:',
+					'  - $.provider should have at least 1 characters',
+					'  - $.defaults.temperature should be <= 2',
+					'  - $.budget.maxCostUsd should be >= 0',
+					'  - $.unknown is not allowed',
+				].join('\n'),
+			),
+		);
+	});
+
+	it.each([
+		['unparsable JSON', 'ai-providers.config.json', '{"provider": '],
+		['unparsable YAML', 'ai-providers.config.yaml', 'provider: [gemini'],
+	])('rejects %s', (_, name, content) => {
+		writeConfig(name, content);
+
+		expect(() => loadProviderConfig(directory)).toThrow(`Invalid ${name}: `);
+	});
+
+	it('rejects more than one config file', () => {
+		writeConfig('ai-providers.config.json', {});
+		writeConfig('ai-providers.config.yml', '');
+
+		expect(() => loadProviderConfig(directory)).toThrow(
+			'keep only one config file',
+		);
+	});
+
+	it('rejects unknown profiles and profiles without a file', () => {
+		expect(() => loadProviderConfig(directory, 'cheap')).toThrow(
+			'Profile "cheap" was selected, but there is no',
+		);
+
+		writeConfig('ai-providers.config.json', {profiles: {quality: {}}});
+		expect(() => loadProviderConfig(directory, 'cheap')).toThrow(
+			'Unknown profile "cheap" in ai-providers.config.json. Available profiles: quality.',
+		);
+	});
+});
+
+describe('loadProviderConfig profiles', () => {
+	beforeEach(() => {
+		writeConfig('ai-providers.config.json', {
+			provider: 'openai',
+			profile: 'cheap',
+			providers: {
+				openai: {model: 'gpt-4o', timeout: 30_000},
+				gemini: {model: 'gemini-1.5-pro'},
+			},
+			retry: {maxAttempts: 3, baseDelayMs: 500},
+			defaults: {temperature: 0.2, maxTokens: 1_000},
+			apps: {recipe: {temperature: 0.7}, chat: {maxTokens: 200}},
+			fallback: ['gemini'],
+			profiles: {
+				cheap: {
+					providers: {openai: {model: 'gpt-4o-mini'}},
+					retry: {maxAttempts: 1},
+					defaults: {temperature: 0},
+					apps: {recipe: {maxTokens: 500}},
+					fallback: [],
+				},
+				local: {provider: 'local'},
+			},
+		});
+	});
+
+	it("merges the file's profile entry by entry", () => {
+		expect(loadProviderConfig(directory)).toEqual({
+			provider: 'openai',
+			profile: 'cheap',
+			providers: {
+				openai: {model: 'gpt-4o-mini', timeout: 30_000},
+				gemini: {model: 'gemini-1.5-pro'},
+			},
+			retry: {maxAttempts: 1, baseDelayMs: 500},
+			defaults: {temperature: 0, maxTokens: 1_000},
+			apps: {
+				recipe: {temperature: 0.7, maxTokens: 500},
+				chat: {maxTokens: 200},
+			},
+			// Lists are replaced, not merged
+			fallback: [],
+		});
+	});
+
+	it('prefers the argument, then the environment, over the file', () => {
+		vi.stubEnv(PROFILE_ENV_VAR, 'local');
+		expect(loadProviderConfig(directory)).toMatchObject({
+			profile: 'local',
+			provider: 'local',
+		});
+		expect(loadProviderConfig(directory, 'cheap').profile).toBe('cheap');
+	});
+});
+
+describe('getAppSettings', () => {
+	const config = {
+		defaults: {model: 'gpt-4o-mini', temperature: 0.2},
+		apps: {recipe: {temperature: 0.7, maxTokens: 500}},
+	};
+
+	it("layers the app's entry over the defaults over the app's own", () => {
+		expect(
+			getAppSettings(config, 'recipe', {temperature: 1, topP: 0.9}),
+		).toEqual({
+			model: 'gpt-4o-mini',
+			temperature: 0.7,
+			topP: 0.9,
+			maxTokens: 500,
+		});
+		expect(getAppSettings(config)).toEqual(config.defaults);
+	});
+
+	it('skips models the catalogue lists for another provider', () => {
+		expect(getAppSettings(config, 'recipe', {}, 'gemini')).toEqual({
+			temperature: 0.7,
+			maxTokens: 500,
+		});
+		expect(getAppSettings(config, undefined, {}, 'OpenAI')).toEqual(
+			config.defaults,
+		);
+	});
+
+	it('falls back to a model of the selected provider', () => {
+		expect(
+			getAppSettings(
+				{
+					defaults: {model: 'gpt-4o-mini'},
+					apps: {recipe: {model: 'deepseek-chat'}},
+				},
+				'recipe',
+				{model: 'gemini-1.5-flash'},
+				'gemini',
+			),
+		).toEqual({model: 'gemini-1.5-flash'});
+	});
+
+	it('keeps models the catalogue does not know', () => {
+		expect(
+			getAppSettings({defaults: {model: 'llama3.2'}}, undefined, {}, 'local'),
+		).toEqual({model: 'llama3.2'});
+	});
+});
@@ -0,0 +1,314 @@
+import fs from 'fs';
+import path from 'path';
+import {parse as parseYaml} from 'yaml';
+import {RequestSettings} from './defaults-provider.js';
+import {JsonSchema, validateJsonSchema} from './json-schema.js';
+import {findModelProvider} from './model-catalog.js';
+import {ObservabilityConfig} from './observability.js';
+import {readEnv} from './provider-config.js';
+import {ProviderOptions} from './provider-registry.js';
+import {RetryOptions} from './retry-provider.js';
+import {UsageBudget} from './usage-tracker.js';
+
+// The `ai-providers.config.(json|yaml)` file: provider settings shared by the
+// CLI, the mini-apps and the gateway, optionally in named profiles such as
+// `cheap`, `quality` or `local`. The file is validated as a whole when
+// loaded, so a typo fails at startup instead of in the middle of a request.
+
+/**
+ * Settings a config file sets at the top level or in a profile.
+ */
+export interface ConfigSettings {
+	provider?: string;
+	providers?: Record<string, ProviderOptions>;
+	retry?: Omit<RetryOptions, 'onRetry'>;
+	/** Providers tried in order when the selected one is unavailable */
+	fallback?: string[];
+	/** Enables the response cache */
+	cache?: {
+		store?: 'memory' | 'file';
+		/** Directory for the file store */
+		directory?: string;
+		ttlMs?: number;
+	};
+	/** Session limits; `--budget=<usd>` overrides `maxCostUsd` */
+	budget?: UsageBudget;
+	/** Model, sampling and timeout for requests that do not set them */
+	defaults?: RequestSettings;
+	/** Per-app request settings over `defaults`, keyed by command name */
+	apps?: Record<string, RequestSettings>;
+	/** Structured call logs and OpenTelemetry traces */
+	observability?: ObservabilityConfig;
+}
+
+/**
+ * Shape of the config file. When loaded, the selected profile is already
+ * merged into the top-level settings and `profile` names it.
+ */
+export interface ProviderConfigFile extends ConfigSettings {
+	/** Profile used when neither `--profile=` nor `AI_PROFILE` selects one */
+	profile?: string;
+	profiles?: Record<string, ConfigSettings>;
+}
+
+export const CONFIG_FILE_NAMES = [
+	'ai-providers.config.json',
+	'ai-providers.config.yaml',
+	'ai-providers.config.yml',
+];
+export const PROFILE_ENV_VAR = 'AI_PROFILE';
+
+/**
+ * The config file is missing required structure, has invalid values or
+ * selects an unknown profile.
+ */
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ConfigError';
+	}
+}
+
+const requestSettingsSchema: JsonSchema = {
+	type: 'object',
+	properties: {
+		model: {type: 'string', minLength: 1},
+		temperature: {type: 'number', minimum: 0, maximum: 2},
+		topP: {type: 'number', minimum: 0, maximum: 1},
+		maxTokens: {type: 'integer', minimum: 1},
+		timeoutMs: {type: 'integer', minimum: 1},
+	},
+	additionalProperties: false,
+};
+
+const stringMap: JsonSchema = {
+	type: 'object',
+	additionalProperties: {type: 'string'},
+};
+
+const settingsProperties: Record<string, JsonSchema> = {
+	provider: {type: 'string', minLength: 1},
+	providers: {
+		type: 'object',
+		additionalProperties: {
+			type: 'object',
+			properties: {
+				apiKey: {type: 'string'},
+				baseURL: {type: 'string'},
+				defaultModel: {type: 'string'},
+				embeddingModel: {type: 'string'},
+				organization: {type: 'string'},
+				timeout: {type: 'integer', minimum: 1},
+				defaultHeaders: stringMap,
+				model: {type: 'string'},
+				models: stringMap,
+			},
+			additionalProperties: false,
+		},
+	},
+	retry: {
+		type: 'object',
+		properties: {
+			maxAttempts: {type: 'integer', minimum: 1},
+			baseDelayMs: {type: 'integer', minimum: 0},
+			maxDelayMs: {type: 'integer', minimum: 0},
+		},
+		additionalProperties: false,
+	},
+	fallback: {type: 'array', items: {type: 'string', minLength: 1}},
+	cache: {
+		type: 'object',
+		properties: {
+			store: {enum: ['memory', 'file']},
+			directory: {type: 'string'},
+			ttlMs: {type: 'integer', minimum: 0},
+		},
+		additionalProperties: false,
+	},
+	budget: {
+		type: 'object',
+		properties: {
+			maxCostUsd: {type: 'number', minimum: 0},
+			maxTokens: {type: 'integer', minimum: 0},
+		},
+		additionalProperties: false,
+	},
+	defaults: requestSettingsSchema,
+	apps: {type: 'object', additionalProperties: requestSettingsSchema},
+	observability: {
+		type: 'object',
+		properties: {
+			log: {type: ['boolean', 'string']},
+			traces: {
+				type: 'object',
+				properties: {
+					file: {type: 'string', minLength: 1},
+					endpoint: {type: 'string', minLength: 1},
+					headers: stringMap,
+					serviceName: {type: 'string', minLength: 1},
+				},
+				additionalProperties: false,
+			},
+		},
+		additionalProperties: false,
+	},
+};
+
+const CONFIG_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		...settingsProperties,
+		profile: {type: 'string', minLength: 1},
+		profiles: {
+			type: 'object',
+			additionalProperties: {
+				type: 'object',
+				properties: settingsProperties,
+				additionalProperties: false,
+			},
+		},
+	},
+	additionalProperties: false,
+};
+
+/**
+ * Finds the config file in the given directory.
+ * @throws ConfigError if more than one variant exists
+ */
+export function findConfigFile(
+	cwd: string = process.cwd(),
+): string | undefined {
+	const found = CONFIG_FILE_NAMES.map(name => path.join(cwd, name)).filter(
+		file => fs.existsSync(file),
+	);
+	if (found.length > 1) {
+		throw new ConfigError(
+			`Found ${found
+				.map(file => path.basename(file))
+				.join(' and ')}; keep only one config file.`,
+		);
+	}
+	return found[0];
+}
+
+// Values of the profile replace those of the file; maps of named entries are
+// merged entry by entry, so a profile can change a single provider or app
+function applyProfile(
+	base: ConfigSettings,
+	profile: ConfigSettings,
+): ConfigSettings {
+	const mergeEntries = <T extends object>(
+		baseEntries: Record<string, T> = {},
+		profileEntries: Record<string, T> = {},
+	): Record<string, T> => {
+		const merged = {...baseEntries};
+		for (const [name, entry] of Object.entries(profileEntries)) {
+			merged[name] = {...merged[name], ...entry};
+		}
+		return merged;
+	};
+	return {
+		...base,
+		...profile,
+		providers: mergeEntries(base.providers, profile.providers),
+		apps: mergeEntries(base.apps, profile.apps),
+		defaults: {...base.defaults, ...profile.defaults},
+		...((base.retry || profile.retry) && {
+			retry: {...base.retry, ...profile.retry},
+		}),
+	};
+}
+
+/**
+ * Reads and validates the config file from the given directory, if present,
+ * and applies the selected profile. Precedence for the profile: the
+ * `profile` argument (from `--profile=`), then the `AI_PROFILE` env variable,
+ * then the file's `profile` key.
+ * @throws ConfigError if the file cannot be parsed, is invalid or the
+ * profile does not exist
+ */
+export function loadProviderConfig(
+	cwd: string = process.cwd(),
+	profile?: string,
+): ProviderConfigFile {
+	const profileName = profile || readEnv(PROFILE_ENV_VAR);
+	const configPath = findConfigFile(cwd);
+	if (!configPath) {
+		if (profileName) {
+			throw new ConfigError(
+				`Profile "${profileName}" was selected, but there is no ${CONFIG_FILE_NAMES.join(
+					', ',
+				)} in ${cwd}.`,
+			);
+		}
+		return {};
+	}
+
+	const fileName = path.basename(configPath);
+	let raw: unknown;
+	try {
+		const text = fs.readFileSync(configPath, 'utf8');
+		raw = configPath.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+	} catch (error) {
+		throw new ConfigError(
+			`Invalid ${fileName}: ${
+				error instanceof Error ? error.message : String(error)
+			}`,
+		);
+	}
+	// An empty YAML file is a valid, empty config
+	const errors = validateJsonSchema(raw ?? {}, CONFIG_SCHEMA);
+	if (errors.length > 0) {
+		throw new ConfigError(
+			`Invalid ${fileName}:\n${errors.map(error => `  - ${error}`).join('\n')}`,
+		);
+	}
+
+	const {profiles = {}, ...settings} = (raw ?? {}) as ProviderConfigFile;
+	const selected = profileName ?? settings.profile;
+	if (!selected) {
+		return settings;
+	}
+	if (!profiles[selected]) {
+		const available = Object.keys(profiles);
+		throw new ConfigError(
+			`Unknown profile "${selected}" in ${fileName}. ${
+				available.length > 0
+					? `Available profiles: ${available.join(', ')}.`
+					: 'The file defines no profiles.'
+			}`,
+		);
+	}
+	return {...applyProfile(settings, profiles[selected]), profile: selected};
+}
+
+/**
+ * Request settings for an app: the config's `defaults` over the app's own
+ * defaults, then the app's entry under `apps`.
+ * @param app Command name, e.g. `recipe`
+ * @param appDefaults Settings the app uses when the config has none
+ * @param provider The selected provider; a model the catalogue lists for
+ * another provider is skipped, so e.g. a default OpenAI model is not sent to
+ * Gemini
+ */
+export function getAppSettings(
+	config: ConfigSettings,
+	app?: string,
+	appDefaults: RequestSettings = {},
+	provider?: string,
+): RequestSettings {
+	const forProvider = (settings: RequestSettings = {}): RequestSettings => {
+		const {model, ...rest} = settings;
+		const owner = model === undefined ? undefined : findModelProvider(model);
+		return provider === undefined ||
+			owner === undefined ||
+			owner === provider.toLowerCase()
+			? settings
+			: rest;
+	};
+	return {
+		...forProvider(appDefaults),
+		...forProvider(config.defaults),
+		...forProvider(app ? config.apps?.[app] : undefined),
+	};
+}
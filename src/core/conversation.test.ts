@@ -0,0 +1,183 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {ChatMessage} from './ai-provider.js';
+import {
+	ConversationManager,
+	DEFAULT_CONTEXT_WINDOW,
+	estimateMessageTokens,
+	getContextWindow,
+	setContextWindow,
+	slidingWindow,
+	summarizeOldest,
+	TrimReport,
+} from './conversation.js';
+import {MockProvider} from './mock-provider.js';
+
+// 36 characters: 9 tokens of text plus 4 of overhead
+const text = (label: string) => label.padEnd(36, '.');
+const user = (label: string): ChatMessage => ({
+	role: 'user',
+	content: text(label),
+});
+const assistant = (label: string): ChatMessage => ({
+	role: 'assistant',
+	content: text(label),
+});
+const SYSTEM: ChatMessage = {role: 'system', content: text('system')};
+const MESSAGE_TOKENS = 13;
+
+// A budget of `messages` messages: the context window minus no reserve
+function conversation(
+	messages: number,
+	options: ConstructorParameters<typeof ConversationManager>[0] = {},
+) {
+	return new ConversationManager({
+		contextWindow: messages * MESSAGE_TOKENS,
+		reserveTokens: 0,
+		...options,
+	});
+}
+
+const labels = (messages: ChatMessage[]) =>
+	messages.map(message => (message.content as string).replace(/\.+$/, ''));
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('ConversationManager', () => {
+	it('sends the history unchanged while it fits', async () => {
+		const manager = conversation(3, {messages: [SYSTEM]});
+		manager.add(user('u1'), assistant('a1'));
+
+		const {messages, report} = await manager.prepare();
+
+		expect(estimateMessageTokens(SYSTEM)).toBe(MESSAGE_TOKENS);
+		expect(labels(messages)).toEqual(['system', 'u1', 'a1']);
+		expect(report).toBeUndefined();
+	});
+
+	it('drops the oldest turns first and keeps the system prompt', async () => {
+		const reports: TrimReport[] = [];
+		const manager = conversation(4, {
+			messages: [SYSTEM],
+			onTrim: report => reports.push(report),
+		});
+		manager.add(user('u1'), assistant('a1'), user('u2'), assistant('a2'));
+		manager.add(user('u3'));
+
+		const {messages, report} = await manager.prepare();
+
+		expect(labels(messages)).toEqual(['system', 'u2', 'a2', 'u3']);
+		expect(report).toMatchObject({
+			strategy: 'pin-system-prompt',
+			budgetTokens: 4 * MESSAGE_TOKENS,
+			tokensBefore: 6 * MESSAGE_TOKENS,
+			tokensAfter: 4 * MESSAGE_TOKENS,
+			droppedTokens: 2 * MESSAGE_TOKENS,
+			fits: true,
+		});
+		expect(labels(report!.dropped)).toEqual(['u1', 'a1']);
+		expect(reports).toEqual([report]);
+		// Trimming is permanent
+		expect(labels(manager.getMessages())).toEqual(labels(messages));
+	});
+
+	it('drops a tool call together with its results', async () => {
+		const manager = conversation(3);
+		manager.add(
+			user('u1'),
+			{
+				role: 'assistant',
+				content: '',
+				toolCalls: [{id: 'call_1', name: 'get_weather', arguments: {}}],
+			},
+			{role: 'tool', content: text('t1'), toolCallId: 'call_1'},
+			assistant('a1'),
+			user('u2'),
+		);
+
+		const {messages} = await manager.prepare();
+
+		expect(messages.map(message => message.role)).toEqual([
+			'assistant',
+			'user',
+		]);
+		expect(messages.some(message => message.role === 'tool')).toBe(false);
+	});
+
+	it('drops system prompts too with the sliding window', async () => {
+		const manager = conversation(2, {
+			messages: [SYSTEM],
+			strategy: slidingWindow(),
+		});
+		manager.add(user('u1'), assistant('a1'));
+
+		const {messages} = await manager.prepare();
+
+		expect(labels(messages)).toEqual(['u1', 'a1']);
+	});
+
+	it('replaces the oldest turns with a summary after the system prompt', async () => {
+		const summarizer = new MockProvider({content: ' They said hello. '});
+		const manager = conversation(4, {
+			messages: [SYSTEM],
+			strategy: summarizeOldest(summarizer, {maxSummaryTokens: MESSAGE_TOKENS}),
+		});
+		manager.add(user('u1'), assistant('a1'), user('u2'), assistant('a2'));
+
+		const {messages, report} = await manager.prepare();
+
+		expect(messages[0]).toBe(SYSTEM);
+		expect(messages[1]).toEqual({
+			role: 'system',
+			content: 'Summary of the earlier conversation: They said hello.',
+		});
+		expect(labels(messages.slice(2))).toEqual(['u2', 'a2']);
+		expect(report?.summary).toBe('They said hello.');
+		expect(summarizer.requests[0].messages[1].content).toBe(
+			`user: ${text('u1')}\nassistant: ${text('a1')}`,
+		);
+	});
+
+	it('warns through the injected sink when trimming cannot fit', async () => {
+		const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const warnings: string[] = [];
+		const manager = conversation(1, {
+			messages: [SYSTEM],
+			warn: message => warnings.push(message),
+		});
+		manager.add(user('u1'));
+
+		const {messages, report} = await manager.prepare();
+
+		// Neither the system prompt nor the current input may be dropped
+		expect(labels(messages)).toEqual(['system', 'u1']);
+		expect(report?.fits).toBe(false);
+		expect(warnings).toEqual([
+			`Conversation still exceeds the context budget (26/13 tokens) after trimming.`,
+		]);
+		expect(consoleWarn).not.toHaveBeenCalled();
+	});
+
+	it("reserves the request's maxTokens when larger than the reserve", () => {
+		const manager = new ConversationManager({
+			contextWindow: 10_000,
+			reserveTokens: 1_000,
+		});
+
+		expect(manager.getBudget()).toBe(9_000);
+		expect(manager.getBudget(4_000)).toBe(6_000);
+		expect(manager.getBudget(20_000)).toBe(0);
+	});
+});
+
+describe('getContextWindow', () => {
+	it('reads the catalogue, then overrides by prefix', () => {
+		expect(getContextWindow('gpt-4o-mini-2024-07-18')).toBe(128_000);
+		expect(getContextWindow('my-local-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+
+		setContextWindow('my-local', 32_000);
+
+		expect(getContextWindow('my-local-model')).toBe(32_000);
+	});
+});
@@ -0,0 +1,335 @@
+import {AIProvider, ChatMessage} from './ai-provider.js';
+import {getAttachments, getTextContent} from './message-content.js';
+import {findModelDescriptor} from './model-catalog.js';
+
+// Architectural Pattern: Strategy - How a conversation is shrunk to fit the
+// model's context window is pluggable; the manager only measures and reports.
+
+// Context windows set with setContextWindow(), by model-name prefix; they
+// take precedence over the model catalogue
+const contextWindowOverrides: Record<string, number> = {};
+
+/** Used for models missing from the catalogue, e.g. local models */
+export const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+/**
+ * Adds or replaces the context window of a model (or model-name prefix).
+ */
+export function setContextWindow(model: string, tokens: number): void {
+	contextWindowOverrides[model] = tokens;
+}
+
+/**
+ * Returns the context window of a model in tokens.
+ */
+export function getContextWindow(model: string): number {
+	const override = Object.keys(contextWindowOverrides)
+		.filter(prefix => model.startsWith(prefix))
+		.sort((a, b) => b.length - a.length)[0];
+	if (override !== undefined) {
+		return contextWindowOverrides[override];
+	}
+	return findModelDescriptor(model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Rough token estimate (about four characters per token for English text).
+ * Good enough for budgeting; providers report exact counts afterwards.
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+// Per-message overhead for role and formatting tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Flat estimate per image or file; the real cost depends on size and detail
+const ATTACHMENT_TOKENS = 765;
+
+export function estimateMessageTokens(message: ChatMessage): number {
+	const toolCallText = message.toolCalls
+		? JSON.stringify(message.toolCalls)
+		: '';
+	return (
+		MESSAGE_OVERHEAD_TOKENS +
+		estimateTokens(getTextContent(message.content)) +
+		estimateTokens(toolCallText) +
+		getAttachments(message.content).length * ATTACHMENT_TOKENS
+	);
+}
+
+export function estimateConversationTokens(messages: ChatMessage[]): number {
+	return messages.reduce(
+		(total, message) => total + estimateMessageTokens(message),
+		0,
+	);
+}
+
+export interface FitResult {
+	messages: ChatMessage[];
+	dropped: ChatMessage[];
+	/** Summary that replaced the dropped messages, if any */
+	summary?: string;
+}
+
+/**
+ * Shrinks a conversation so its estimated size fits `budgetTokens`.
+ */
+export interface ContextStrategy {
+	readonly name: string;
+	fit(messages: ChatMessage[], budgetTokens: number): Promise<FitResult>;
+}
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+function isSummary(message: ChatMessage): boolean {
+	return (
+		message.role === 'system' &&
+		getTextContent(message.content).startsWith(SUMMARY_PREFIX)
+	);
+}
+
+// Groups an assistant tool call with its tool results, so they are dropped together
+function groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+	const groups: ChatMessage[][] = [];
+	for (const message of messages) {
+		if (message.role === 'tool' && groups.length > 0) {
+			groups[groups.length - 1].push(message);
+		} else {
+			groups.push([message]);
+		}
+	}
+	return groups;
+}
+
+// Drops the oldest unpinned groups until the conversation fits; the latest
+// group (the current input) is always kept
+function dropOldest(
+	messages: ChatMessage[],
+	budgetTokens: number,
+	isPinned: (message: ChatMessage) => boolean,
+): {kept: ChatMessage[]; dropped: ChatMessage[]} {
+	const groups = groupTurns(messages);
+	let total = estimateConversationTokens(messages);
+	const droppedGroups = new Set<number>();
+
+	for (let index = 0; index < groups.length - 1; index++) {
+		if (total <= budgetTokens) {
+			break;
+		}
+		if (groups[index].some(isPinned)) {
+			continue;
+		}
+		droppedGroups.add(index);
+		total -= estimateConversationTokens(groups[index]);
+	}
+
+	return {
+		kept: groups.filter((_, index) => !droppedGroups.has(index)).flat(),
+		dropped: groups.filter((_, index) => droppedGroups.has(index)).flat(),
+	};
+}
+
+/**
+ * Keeps the most recent messages that fit, dropping the oldest first,
+ * including system messages.
+ */
+export function slidingWindow(): ContextStrategy {
+	return {
+		name: 'sliding-window',
+		async fit(messages, budgetTokens) {
+			const {kept, dropped} = dropOldest(messages, budgetTokens, () => false);
+			return {messages: kept, dropped};
+		},
+	};
+}
+
+/**
+ * Like slidingWindow(), but system prompts are never dropped.
+ */
+export function pinSystemPrompt(): ContextStrategy {
+	return {
+		name: 'pin-system-prompt',
+		async fit(messages, budgetTokens) {
+			const {kept, dropped} = dropOldest(
+				messages,
+				budgetTokens,
+				message => message.role === 'system' && !isSummary(message),
+			);
+			return {messages: kept, dropped};
+		},
+	};
+}
+
+export interface SummarizeOptions {
+	/** Model used for summaries (default: the provider's default) */
+	model?: string;
+	/** Upper bound for the summary length (default 256) */
+	maxSummaryTokens?: number;
+}
+
+/**
+ * Pins system prompts and replaces the oldest turns with a summary written by
+ * the given provider. Earlier summaries are folded into the new one.
+ */
+export function summarizeOldest(
+	provider: AIProvider,
+	options: SummarizeOptions = {},
+): ContextStrategy {
+	const maxSummaryTokens = options.maxSummaryTokens ?? 256;
+	return {
+		name: 'summarize-oldest',
+		async fit(messages, budgetTokens) {
+			const {kept, dropped} = dropOldest(
+				messages,
+				budgetTokens - maxSummaryTokens,
+				message => message.role === 'system' && !isSummary(message),
+			);
+			if (dropped.length === 0) {
+				return {messages: kept, dropped};
+			}
+
+			const transcript = dropped
+				.map(message => `${message.role}: ${getTextContent(message.content)}`)
+				.join('\n');
+			const response = await provider.createChatCompletion({
+				model: options.model,
+				messages: [
+					{
+						role: 'system',
+						content:
+							'Summarize the conversation below in a few sentences. Keep names, facts and decisions that later turns may rely on.',
+					},
+					{role: 'user', content: transcript},
+				],
+				temperature: 0,
+				maxTokens: maxSummaryTokens,
+			});
+			const summary = response.content.trim();
+
+			// The summary goes after the pinned system prompts
+			const insertAt = kept.findIndex(message => message.role !== 'system');
+			const summarized = [...kept];
+			summarized.splice(insertAt === -1 ? kept.length : insertAt, 0, {
+				role: 'system',
+				content: `${SUMMARY_PREFIX} ${summary}`,
+			});
+			return {messages: summarized, dropped, summary};
+		},
+	};
+}
+
+/**
+ * What a call to ConversationManager.prepare() changed.
+ */
+export interface TrimReport {
+	strategy: string;
+	budgetTokens: number;
+	tokensBefore: number;
+	tokensAfter: number;
+	dropped: ChatMessage[];
+	droppedTokens: number;
+	summary?: string;
+	/** False if the conversation is still too large after trimming */
+	fits: boolean;
+}
+
+export interface ConversationOptions {
+	/** Model whose context window applies */
+	model?: string;
+	/** Overrides the context window looked up from `model` */
+	contextWindow?: number;
+	/** Tokens kept free for the reply (default 1024) */
+	reserveTokens?: number;
+	/** Default: pinSystemPrompt() */
+	strategy?: ContextStrategy;
+	/** Called whenever messages were dropped or summarized */
+	onTrim?: (report: TrimReport) => void;
+	/** Messages to start with, e.g. the system prompt */
+	messages?: ChatMessage[];
+	/** Receives a warning when trimming cannot fit the budget (default: console.warn) */
+	warn?: (message: string) => void;
+}
+
+/**
+ * Holds a conversation's history and keeps it within the model's context
+ * window. Trimming is permanent, so the history does not grow without bound.
+ */
+export class ConversationManager {
+	private history: ChatMessage[];
+	private strategy: ContextStrategy;
+
+	constructor(private options: ConversationOptions = {}) {
+		this.history = [...(options.messages ?? [])];
+		this.strategy = options.strategy ?? pinSystemPrompt();
+	}
+
+	/**
+	 * Appends messages to the history.
+	 */
+	add(...messages: ChatMessage[]): void {
+		this.history.push(...messages);
+	}
+
+	getMessages(): ChatMessage[] {
+		return [...this.history];
+	}
+
+	/**
+	 * Sets the model whose context window applies, e.g. once the provider is known.
+	 */
+	setModel(model: string): void {
+		this.options.model = model;
+	}
+
+	/**
+	 * Token budget for the prompt: the context window minus the reply reserve.
+	 * @param maxTokens The request's maxTokens, if larger than the reserve
+	 */
+	getBudget(maxTokens?: number): number {
+		const contextWindow =
+			this.options.contextWindow ?? getContextWindow(this.options.model ?? '');
+		const reserve = Math.max(
+			this.options.reserveTokens ?? 1024,
+			maxTokens ?? 0,
+		);
+		return Math.max(0, contextWindow - reserve);
+	}
+
+	/**
+	 * Trims the history to fit the context window and returns the messages to
+	 * send, plus a report when anything was dropped.
+	 * @param maxTokens The request's maxTokens, reserved for the reply
+	 */
+	async prepare(
+		maxTokens?: number,
+	): Promise<{messages: ChatMessage[]; report?: TrimReport}> {
+		const budgetTokens = this.getBudget(maxTokens);
+		const tokensBefore = estimateConversationTokens(this.history);
+		if (tokensBefore <= budgetTokens) {
+			return {messages: this.getMessages()};
+		}
+
+		const result = await this.strategy.fit(this.history, budgetTokens);
+		this.history = result.messages;
+		const tokensAfter = estimateConversationTokens(this.history);
+		const report: TrimReport = {
+			strategy: this.strategy.name,
+			budgetTokens,
+			tokensBefore,
+			tokensAfter,
+			dropped: result.dropped,
+			droppedTokens: estimateConversationTokens(result.dropped),
+			summary: result.summary,
+			fits: tokensAfter <= budgetTokens,
+		};
+		if (result.dropped.length > 0) {
+			this.options.onTrim?.(report);
+		}
+		if (!report.fits) {
+			(this.options.warn ?? console.warn)(
+				`Conversation still exceeds the context budget (${tokensAfter}/${budgetTokens} tokens) after trimming.`,
+			);
+		}
+		return {messages: this.getMessages(), report};
+	}
+}
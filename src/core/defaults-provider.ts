@@ -0,0 +1,100 @@
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+	ProviderInfo,
+} from './ai-provider.js';
+import {embedTexts} from './embeddings.js';
+import {listProviderModels} from './model-catalog.js';
+
+// Architectural Pattern: Decorator - Applies request settings chosen outside
+// the app, e.g. on the command line, to every request the app sends.
+
+/** Request fields that can be set for all requests */
+export type RequestSettings = Pick<
+	ChatRequest,
+	'model' | 'temperature' | 'topP' | 'maxTokens' | 'timeoutMs'
+>;
+
+export interface RequestDefaultsOptions {
+	/** Used when a request leaves the field unset */
+	defaults?: RequestSettings;
+	/** Replace the request's own values, e.g. from `--model=` */
+	overrides?: RequestSettings;
+}
+
+// Drops undefined fields so they do not clear values when spread
+function defined<T extends object>(settings: T = {} as T): T {
+	return Object.fromEntries(
+		Object.entries(settings).filter(([, value]) => value !== undefined),
+	) as T;
+}
+
+/**
+ * An AIProvider that fills in and overrides request settings before
+ * delegating. getProviderInfo() reports the resulting default model.
+ */
+export class RequestDefaultsProvider implements AIProvider {
+	private defaults: RequestSettings;
+	private overrides: RequestSettings;
+
+	constructor(private provider: AIProvider, options: RequestDefaultsOptions) {
+		this.defaults = defined(options.defaults);
+		this.overrides = defined(options.overrides);
+	}
+
+	private apply(request: ChatRequest): ChatRequest {
+		return {...this.defaults, ...defined(request), ...this.overrides};
+	}
+
+	createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		return this.provider.createChatCompletion(this.apply(request));
+	}
+
+	createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		return this.provider.createChatCompletionStream(this.apply(request));
+	}
+
+	// Embeddings have their own model; chat settings do not apply
+	createEmbeddings(
+		texts: string[],
+		options?: EmbeddingOptions,
+	): Promise<EmbeddingResponse> {
+		return embedTexts(this.provider, texts, options);
+	}
+
+	listModels(): Promise<ModelDescriptor[]> {
+		return listProviderModels(this.provider);
+	}
+
+	getProviderInfo(): ProviderInfo {
+		const info = this.provider.getProviderInfo();
+		const defaultModel =
+			this.overrides.model ?? this.defaults.model ?? info.defaultModel;
+		return {
+			...info,
+			defaultModel,
+			supportedModels: [...new Set([defaultModel, ...info.supportedModels])],
+		};
+	}
+}
+
+/**
+ * Wraps a provider so its requests get the given defaults and overrides.
+ * Returns the provider unchanged when no setting is given.
+ */
+export function withRequestDefaults(
+	provider: AIProvider,
+	options: RequestDefaultsOptions,
+): AIProvider {
+	return Object.keys(defined(options.defaults)).length === 0 &&
+		Object.keys(defined(options.overrides)).length === 0
+		? provider
+		: new RequestDefaultsProvider(provider, options);
+}
@@ -0,0 +1,147 @@
+import {
+	AIProvider,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	TokenUsage,
+} from './ai-provider.js';
+import {UnsupportedCapabilityError} from './errors.js';
+
+// Shared helpers for embedding providers and for callers comparing vectors.
+
+/**
+ * Whether a provider can embed texts, as reported by getProviderInfo().
+ */
+export function supportsEmbeddings(
+	provider: AIProvider,
+): provider is AIProvider & Required<Pick<AIProvider, 'createEmbeddings'>> {
+	return (
+		provider.getProviderInfo().capabilities?.embeddings === true &&
+		typeof provider.createEmbeddings === 'function'
+	);
+}
+
+/**
+ * Calls createEmbeddings() on a provider, failing clearly if it cannot embed.
+ * Wrappers use this to delegate to the provider they wrap.
+ * @throws UnsupportedCapabilityError
+ */
+export async function embedTexts(
+	provider: AIProvider,
+	texts: string[],
+	options?: EmbeddingOptions,
+): Promise<EmbeddingResponse> {
+	if (!supportsEmbeddings(provider)) {
+		const name = provider.getProviderInfo().name;
+		throw new UnsupportedCapabilityError(
+			`${name} does not support embeddings.`,
+			{provider: name, capability: 'embeddings'},
+		);
+	}
+	return provider.createEmbeddings(texts, options);
+}
+
+/**
+ * Scales a vector to unit length, so cosine similarity is a dot product.
+ */
+export function normalizeVector(vector: number[]): number[] {
+	const length = Math.sqrt(
+		vector.reduce((sum, value) => sum + value * value, 0),
+	);
+	return length === 0 ? vector : vector.map(value => value / length);
+}
+
+/**
+ * Cosine similarity of two vectors, from -1 to 1.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	if (a.length !== b.length) {
+		throw new Error(
+			`Cannot compare vectors of different dimensions (${a.length} and ${b.length}).`,
+		);
+	}
+	let dot = 0;
+	let lengthA = 0;
+	let lengthB = 0;
+	for (let index = 0; index < a.length; index++) {
+		dot += a[index] * b[index];
+		lengthA += a[index] * a[index];
+		lengthB += b[index] * b[index];
+	}
+	return lengthA === 0 || lengthB === 0
+		? 0
+		: dot / Math.sqrt(lengthA * lengthB);
+}
+
+/**
+ * Finds the indices of items that are near-duplicates of an earlier item.
+ * @param embeddings One vector per item
+ * @param threshold Minimum cosine similarity to count as a duplicate
+ * @returns Indices of the later item of each duplicate pair
+ */
+export function findNearDuplicates(
+	embeddings: number[][],
+	threshold = 0.9,
+): Set<number> {
+	const duplicates = new Set<number>();
+	for (let index = 1; index < embeddings.length; index++) {
+		for (let earlier = 0; earlier < index; earlier++) {
+			if (
+				!duplicates.has(earlier) &&
+				cosineSimilarity(embeddings[index], embeddings[earlier]) >= threshold
+			) {
+				duplicates.add(index);
+				break;
+			}
+		}
+	}
+	return duplicates;
+}
+
+/** Result of embedding one batch, before normalization */
+export interface EmbeddingBatch {
+	embeddings: number[][];
+	usage?: TokenUsage;
+}
+
+/**
+ * Splits texts into batches of at most `batchSize`, embeds them one after
+ * another and assembles a single EmbeddingResponse with normalized vectors.
+ * @param texts All texts to embed
+ * @param batchSize The provider's limit on inputs per request
+ * @param model Model name for the response
+ * @param embedBatch Sends one batch to the provider
+ */
+export async function embedInBatches(
+	texts: string[],
+	batchSize: number,
+	model: string,
+	embedBatch: (batch: string[]) => Promise<EmbeddingBatch>,
+): Promise<EmbeddingResponse> {
+	const startTime = Date.now();
+	const embeddings: number[][] = [];
+	let usage: TokenUsage | undefined;
+	let batches = 0;
+
+	for (let start = 0; start < texts.length; start += batchSize) {
+		const result = await embedBatch(texts.slice(start, start + batchSize));
+		embeddings.push(...result.embeddings.map(normalizeVector));
+		batches++;
+		if (result.usage) {
+			usage = {
+				prompt_tokens:
+					(usage?.prompt_tokens ?? 0) + (result.usage.prompt_tokens ?? 0),
+				total_tokens:
+					(usage?.total_tokens ?? 0) + (result.usage.total_tokens ?? 0),
+			};
+		}
+	}
+
+	return {
+		embeddings,
+		model,
+		dimensions: embeddings[0]?.length ?? 0,
+		usage,
+		latencyMs: Date.now() - startTime,
+		batches,
+	};
+}
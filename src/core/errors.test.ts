@@ -0,0 +1,151 @@
+import OpenAI from 'openai';
+import {describe, expect, it} from 'vitest';
+import {
+	AIProviderError,
+	AuthenticationError,
+	ContentBlockedError,
+	ContextLengthExceededError,
+	InvalidRequestError,
+	QuotaExceededError,
+	RateLimitError,
+	RequestCancelledError,
+	RequestTimeoutError,
+	toProviderError,
+	UpstreamUnavailableError,
+} from './errors.js';
+
+const CONTEXT = {provider: 'OpenAI', model: 'gpt-4o-mini'};
+
+// An HTTP failure as the SDKs report it
+const httpError = (status: number, message = 'Failed', extra = {}) => ({
+	status,
+	message,
+	...extra,
+});
+
+describe('toProviderError', () => {
+	it.each([
+		[400, 'Bad request', InvalidRequestError],
+		[401, 'Incorrect API key', AuthenticationError],
+		[403, 'Forbidden', AuthenticationError],
+		[402, 'Payment required', QuotaExceededError],
+		[404, 'Model not found', InvalidRequestError],
+		[408, 'Request timeout', RequestTimeoutError],
+		[409, 'Conflict', InvalidRequestError],
+		[422, 'Unprocessable', InvalidRequestError],
+		[429, 'Rate limit reached', RateLimitError],
+		[
+			429,
+			'You exceeded your current quota (insufficient_quota)',
+			QuotaExceededError,
+		],
+		[429, 'Check your billing details', QuotaExceededError],
+		[500, 'Internal error', UpstreamUnavailableError],
+		[502, 'Bad gateway', UpstreamUnavailableError],
+		[503, 'Overloaded', UpstreamUnavailableError],
+		[529, 'Overloaded', UpstreamUnavailableError],
+		[
+			400,
+			"This model's maximum context length is 128000 tokens",
+			ContextLengthExceededError,
+		],
+	])('maps status %i (%s) to %o', (status, message, ErrorClass) => {
+		const error = toProviderError(httpError(status, message), CONTEXT);
+
+		expect(error).toBeInstanceOf(ErrorClass);
+		expect(error.constructor).toBe(ErrorClass);
+		expect(error).toMatchObject({
+			provider: 'OpenAI',
+			model: 'gpt-4o-mini',
+			status,
+			message: `OpenAI request failed: ${message}`,
+		});
+	});
+
+	it('reads the quota code of OpenAI error bodies', () => {
+		expect(
+			toProviderError(
+				httpError(429, 'Quota', {error: {code: 'insufficient_quota'}}),
+				CONTEXT,
+			),
+		).toBeInstanceOf(QuotaExceededError);
+	});
+
+	it.each([
+		['delta-seconds', {'retry-after': '2'}, 2_000],
+		['fractional seconds', new Headers({'retry-after': '0.5'}), 500],
+		['no header', {}, undefined],
+	])('reads Retry-After given as %s', (_, headers, retryAfterMs) => {
+		const error = toProviderError(
+			httpError(429, 'Slow down', {headers}),
+			CONTEXT,
+		);
+
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect((error as RateLimitError).retryAfterMs).toBe(retryAfterMs);
+	});
+
+	it("reads Gemini's retry delay", () => {
+		const error = toProviderError(
+			httpError(429, 'Resource exhausted', {
+				errorDetails: [{retryDelay: '13s'}],
+			}),
+			{provider: 'Gemini'},
+		);
+
+		expect((error as RateLimitError).retryAfterMs).toBe(13_000);
+	});
+
+	it.each([
+		['ETIMEDOUT', {code: 'ETIMEDOUT'}, RequestTimeoutError],
+		['ECONNREFUSED', {code: 'ECONNREFUSED'}, UpstreamUnavailableError],
+		[
+			'a fetch failure caused by ECONNRESET',
+			{message: 'fetch failed', cause: {code: 'ECONNRESET'}},
+			UpstreamUnavailableError,
+		],
+		[
+			'an OpenAI connection error',
+			new OpenAI.APIConnectionError({message: 'Connection error.'}),
+			UpstreamUnavailableError,
+		],
+		[
+			'an OpenAI connection timeout',
+			new OpenAI.APIConnectionTimeoutError(),
+			RequestTimeoutError,
+		],
+		[
+			'a blocked response',
+			{message: 'Candidate was blocked due to SAFETY'},
+			ContentBlockedError,
+		],
+		['anything else', new Error('Boom'), AIProviderError],
+	])('maps %s without a status', (_, error, ErrorClass) => {
+		expect(toProviderError(error, CONTEXT).constructor).toBe(ErrorClass);
+	});
+
+	it("tells the caller's cancellation from a timeout", () => {
+		const controller = new AbortController();
+		controller.abort();
+		const timedOut = AbortSignal.abort(
+			new DOMException('Timed out', 'TimeoutError'),
+		);
+		const abort = new DOMException('Aborted', 'AbortError');
+
+		expect(
+			toProviderError(abort, {...CONTEXT, signal: controller.signal}),
+		).toBeInstanceOf(RequestCancelledError);
+		expect(
+			toProviderError(abort, {...CONTEXT, signal: timedOut}),
+		).toBeInstanceOf(RequestTimeoutError);
+		expect(
+			toProviderError(new OpenAI.APIUserAbortError(), CONTEXT),
+		).toBeInstanceOf(RequestCancelledError);
+	});
+
+	it('passes typed errors through', () => {
+		const error = new RateLimitError('Slow down', {provider: 'Gemini'});
+
+		expect(toProviderError(error, CONTEXT)).toBe(error);
+	});
+});
@@ -0,0 +1,291 @@
+import OpenAI from 'openai';
+import {
+	GoogleGenerativeAIAbortError,
+	GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+
+// Typed errors raised by every provider, so callers can react to the kind of
+// failure (e.g. fall back on outages, stop on bad credentials) without
+// string-matching messages.
+
+export interface ProviderErrorDetails {
+	provider: string;
+	model?: string;
+	status?: number;
+	cause?: unknown;
+}
+
+/**
+ * Base class for all provider failures.
+ */
+export class AIProviderError extends Error {
+	readonly provider: string;
+	readonly model?: string;
+	readonly status?: number;
+	/** Whether repeating the same request may succeed */
+	readonly retryable: boolean = false;
+
+	constructor(message: string, details: ProviderErrorDetails) {
+		super(message, {cause: details.cause});
+		this.name = new.target.name;
+		this.provider = details.provider;
+		this.model = details.model;
+		this.status = details.status;
+	}
+}
+
+/** Missing, invalid or unauthorised API key (401/403) */
+export class AuthenticationError extends AIProviderError {}
+
+/** Too many requests; retry after `retryAfterMs` if the server sent it */
+export class RateLimitError extends AIProviderError {
+	readonly retryable = true;
+	readonly retryAfterMs?: number;
+
+	constructor(
+		message: string,
+		details: ProviderErrorDetails & {retryAfterMs?: number},
+	) {
+		super(message, details);
+		this.retryAfterMs = details.retryAfterMs;
+	}
+}
+
+/** Billing quota or credit exhausted; retrying will not help */
+export class QuotaExceededError extends AIProviderError {}
+
+/** The prompt plus requested output does not fit the model's context window */
+export class ContextLengthExceededError extends AIProviderError {}
+
+/** The prompt or response was blocked by the provider's safety filters */
+export class ContentBlockedError extends AIProviderError {}
+
+/** The provider rejected the request as malformed or unsupported */
+export class InvalidRequestError extends AIProviderError {}
+
+/** The request did not complete in time */
+export class RequestTimeoutError extends AIProviderError {
+	readonly retryable = true;
+}
+
+/** The caller aborted the request through its AbortSignal */
+export class RequestCancelledError extends AIProviderError {}
+
+/** 5xx responses and network failures reaching the provider */
+export class UpstreamUnavailableError extends AIProviderError {
+	readonly retryable = true;
+}
+
+/** A usage budget set for this session has been used up */
+export class BudgetExceededError extends AIProviderError {}
+
+/** The model lacks a capability the request needs, e.g. image input */
+export class UnsupportedCapabilityError extends AIProviderError {
+	readonly capability: string;
+
+	constructor(
+		message: string,
+		details: ProviderErrorDetails & {capability: string},
+	) {
+		super(message, details);
+		this.capability = details.capability;
+	}
+}
+
+const NETWORK_ERROR_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'EPIPE',
+	'EAI_AGAIN',
+	'ENOTFOUND',
+	'UND_ERR_SOCKET',
+]);
+
+// Reads a nested property of an unknown value, e.g. `cause.code` of an SDK
+// error; undefined when a step along the path is not an object
+function getField(value: unknown, ...path: string[]): unknown {
+	let current = value;
+	for (const key of path) {
+		if (typeof current !== 'object' || current === null) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
+
+const getString = (value: unknown, ...path: string[]) => {
+	const field = getField(value, ...path);
+	return typeof field === 'string' ? field : undefined;
+};
+
+// Parses Retry-After as delta-seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+	if (typeof value !== 'string' || !value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Reads Retry-After from OpenAI SDK headers, or Gemini's RetryInfo detail
+function getRetryAfterMs(error: unknown): number | undefined {
+	const headers = getField(error, 'headers');
+	const retryAfter =
+		headers instanceof Headers
+			? headers.get('retry-after')
+			: getField(headers, 'retry-after');
+	const fromHeader = parseRetryAfter(retryAfter);
+	if (fromHeader !== undefined) {
+		return fromHeader;
+	}
+	const errorDetails = getField(error, 'errorDetails');
+	for (const detail of Array.isArray(errorDetails) ? errorDetails : []) {
+		const match = /^(\d+(?:\.\d+)?)s$/.exec(
+			getString(detail, 'retryDelay') ?? '',
+		);
+		if (match) {
+			return Number(match[1]) * 1000;
+		}
+	}
+	return undefined;
+}
+
+function isAbortError(error: unknown): boolean {
+	return (
+		error instanceof OpenAI.APIUserAbortError ||
+		error instanceof GoogleGenerativeAIAbortError ||
+		getString(error, 'name') === 'AbortError' ||
+		getString(error, 'name') === 'TimeoutError'
+	);
+}
+
+/**
+ * Converts any error thrown by an SDK (OpenAI, Gemini) or the network layer
+ * into the matching AIProviderError subclass. AIProviderErrors pass through.
+ * @param error The caught error
+ * @param context Provider name and model for the resulting error, and the
+ * request's signal to tell timeouts from cancellations
+ */
+export function toProviderError(
+	error: unknown,
+	context: {provider: string; model?: string; signal?: AbortSignal},
+): AIProviderError {
+	if (error instanceof AIProviderError) {
+		return error;
+	}
+
+	const {signal, ...errorContext} = context;
+	if (signal?.aborted || isAbortError(error)) {
+		const details = {...errorContext, cause: error};
+		// AbortSignal.timeout() aborts with a TimeoutError reason
+		return getString(signal?.reason, 'name') === 'TimeoutError' ||
+			getString(error, 'name') === 'TimeoutError'
+			? new RequestTimeoutError(
+					`${context.provider} request timed out.`,
+					details,
+			  )
+			: new RequestCancelledError(
+					`${context.provider} request was cancelled.`,
+					details,
+			  );
+	}
+
+	const rawMessage =
+		getString(error, 'message') ??
+		(typeof error === 'string' ? error : 'Unknown error');
+	const code = getString(error, 'code');
+	const text = `${rawMessage} ${code ?? ''} ${
+		getString(error, 'error', 'code') ?? ''
+	}`.toLowerCase();
+	const rawStatus = getField(error, 'status');
+	const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+	const details = {...errorContext, status, cause: error};
+	const message = `${context.provider} request failed: ${rawMessage}`;
+
+	// Errors without an HTTP status: timeouts, connection failures, blocked responses
+	if (status === undefined) {
+		if (
+			error instanceof OpenAI.APIConnectionTimeoutError ||
+			code === 'ETIMEDOUT'
+		) {
+			return new RequestTimeoutError(message, details);
+		}
+		if (
+			error instanceof OpenAI.APIConnectionError ||
+			NETWORK_ERROR_CODES.has(code ?? '') ||
+			NETWORK_ERROR_CODES.has(getString(error, 'cause', 'code') ?? '')
+		) {
+			return new UpstreamUnavailableError(message, details);
+		}
+		if (
+			error instanceof GoogleGenerativeAIResponseError ||
+			/blocked|safety/.test(text)
+		) {
+			return new ContentBlockedError(message, details);
+		}
+		return new AIProviderError(message, details);
+	}
+
+	if (status === 401 || status === 403) {
+		return new AuthenticationError(message, details);
+	}
+	// Quota and billing failures arrive as 402, or as 429 with a message or
+	// code naming them (OpenAI's `insufficient_quota`)
+	if (
+		status === 402 ||
+		(status === 429 && /insufficient_quota|billing|credit/.test(text))
+	) {
+		return new QuotaExceededError(message, details);
+	}
+	if (status === 429) {
+		return new RateLimitError(message, {
+			...details,
+			retryAfterMs: getRetryAfterMs(error),
+		});
+	}
+	if (status === 408) {
+		return new RequestTimeoutError(message, details);
+	}
+	if (status >= 500) {
+		return new UpstreamUnavailableError(message, details);
+	}
+	if (
+		/context_length_exceeded|context length|maximum number of tokens/.test(text)
+	) {
+		return new ContextLengthExceededError(message, details);
+	}
+	return new InvalidRequestError(message, details);
+}
+
+/**
+ * Returns a short, user-facing explanation for a failed provider call.
+ */
+export function describeProviderError(error: unknown): string {
+	if (error instanceof AuthenticationError) {
+		return `${error.provider} rejected the API key. Check your credentials.`;
+	}
+	if (error instanceof QuotaExceededError) {
+		return `${error.provider} quota is exhausted. Check your plan or billing.`;
+	}
+	if (error instanceof RateLimitError) {
+		return `${error.provider} is rate limiting requests. Please try again shortly.`;
+	}
+	if (error instanceof ContextLengthExceededError) {
+		return 'The conversation is too long for the selected model.';
+	}
+	if (error instanceof ContentBlockedError) {
+		return `${error.provider} blocked this request for safety reasons.`;
+	}
+	if (
+		error instanceof UpstreamUnavailableError ||
+		error instanceof RequestTimeoutError
+	) {
+		return `${error.provider} is currently unavailable. Please try again later.`;
+	}
+	return error instanceof Error ? error.message : String(error);
+}
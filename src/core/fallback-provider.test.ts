@@ -0,0 +1,240 @@
+import {describe, expect, it} from 'vitest';
+import {ChatRequest, ChatStreamEvent} from './ai-provider.js';
+import {
+	AuthenticationError,
+	InvalidRequestError,
+	RequestCancelledError,
+	RequestTimeoutError,
+	toProviderError,
+	UpstreamUnavailableError,
+} from './errors.js';
+import {FallbackProvider} from './fallback-provider.js';
+import {MockProvider, MockStep} from './mock-provider.js';
+
+const REQUEST: ChatRequest = {messages: [{role: 'user', content: 'Hi'}]};
+
+const outage = (provider: string) =>
+	new UpstreamUnavailableError('Service unavailable', {provider, status: 503});
+
+// Answers only once the request's signal aborts, like a stalled upstream
+const stalled = (provider: string) => (request: ChatRequest) =>
+	new Promise<MockStep>(resolve => {
+		request.signal?.addEventListener('abort', () =>
+			resolve({
+				error: toProviderError(request.signal?.reason, {
+					provider,
+					signal: request.signal,
+				}),
+			}),
+		);
+	});
+
+describe('FallbackProvider', () => {
+	it('answers with the first provider when it succeeds', async () => {
+		const primary = new MockProvider({content: 'primary'}, {name: 'Primary'});
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+
+		const response = await new FallbackProvider([
+			primary,
+			backup,
+		]).createChatCompletion(REQUEST);
+
+		expect(response.content).toBe('primary');
+		expect(response.metadata.provider).toBe('Primary');
+		expect(response.metadata.failedAttempts).toBeUndefined();
+		expect(backup.requests).toHaveLength(0);
+	});
+
+	it('moves on when a provider is unavailable and records the failure', async () => {
+		const primary = new MockProvider(
+			{error: outage('Primary')},
+			{name: 'Primary'},
+		);
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+		const fallbacks: string[] = [];
+
+		const response = await new FallbackProvider([primary, backup], {
+			onFallback: ({provider}) => fallbacks.push(provider),
+		}).createChatCompletion(REQUEST);
+
+		expect(response.content).toBe('backup');
+		expect(response.metadata.provider).toBe('Backup');
+		expect(response.metadata.failedAttempts).toEqual([
+			{provider: 'Primary', model: undefined, error: 'Service unavailable'},
+		]);
+		expect(fallbacks).toEqual(['Primary']);
+	});
+
+	it('falls back on bad credentials', async () => {
+		const primary = new MockProvider(
+			{
+				error: new AuthenticationError('Invalid key', {
+					provider: 'Primary',
+					status: 401,
+				}),
+			},
+			{name: 'Primary'},
+		);
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+
+		const response = await new FallbackProvider([
+			primary,
+			backup,
+		]).createChatCompletion(REQUEST);
+
+		expect(response.content).toBe('backup');
+	});
+
+	it('rethrows request errors that every provider would reject', async () => {
+		const error = new InvalidRequestError('Bad request', {
+			provider: 'Primary',
+			status: 400,
+		});
+		const primary = new MockProvider({error}, {name: 'Primary'});
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+
+		await expect(
+			new FallbackProvider([primary, backup]).createChatCompletion(REQUEST),
+		).rejects.toBe(error);
+		expect(backup.requests).toHaveLength(0);
+	});
+
+	it('throws the last error when every provider fails', async () => {
+		const primary = new MockProvider(
+			{error: outage('Primary')},
+			{name: 'Primary'},
+		);
+		const backup = new MockProvider(
+			{error: outage('Backup')},
+			{name: 'Backup'},
+		);
+
+		await expect(
+			new FallbackProvider([primary, backup]).createChatCompletion(REQUEST),
+		).rejects.toMatchObject({provider: 'Backup'});
+	});
+
+	it('maps the requested model for each provider', async () => {
+		const primary = new MockProvider(
+			{error: outage('Primary')},
+			{name: 'Primary'},
+		);
+		const mapped = new MockProvider({content: 'mapped'}, {name: 'Mapped'});
+		const unmapped = new MockProvider({content: 'unmapped'}, {name: 'Other'});
+		const request = {...REQUEST, model: 'gpt-4o-mini'};
+
+		await new FallbackProvider([
+			primary,
+			{provider: mapped, models: {'gpt-4o-mini': 'gemini-1.5-flash'}},
+		]).createChatCompletion(request);
+		await new FallbackProvider([primary, unmapped]).createChatCompletion(
+			request,
+		);
+
+		expect(primary.requests[0].model).toBe('gpt-4o-mini');
+		expect(mapped.requests[0].model).toBe('gemini-1.5-flash');
+		// Other providers would not know the model, so they use their default
+		expect(unmapped.requests[0].model).toBeUndefined();
+	});
+
+	it('switches streams only before the first event', async () => {
+		const failing = new MockProvider(
+			{error: outage('Primary')},
+			{name: 'Primary'},
+		);
+		const partial = new MockProvider(
+			{chunks: ['Hel'], error: outage('Primary')},
+			{name: 'Primary'},
+		);
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+
+		const events: ChatStreamEvent[] = [];
+		for await (const event of new FallbackProvider([
+			failing,
+			backup,
+		]).createChatCompletionStream(REQUEST)) {
+			events.push(event);
+		}
+		expect(events[0]).toEqual({type: 'delta', content: 'backup'});
+		expect(events.at(-1)).toMatchObject({
+			type: 'done',
+			metadata: {provider: 'Backup'},
+		});
+
+		await expect(async () => {
+			for await (const event of new FallbackProvider([
+				partial,
+				backup,
+			]).createChatCompletionStream(REQUEST)) {
+				expect(event).toEqual({type: 'delta', content: 'Hel'});
+			}
+		}).rejects.toBeInstanceOf(UpstreamUnavailableError);
+		expect(backup.requests).toHaveLength(1);
+	});
+
+	it("rethrows a timeout of the caller's deadline without falling back", async () => {
+		const primary = new MockProvider(stalled('Primary'), {name: 'Primary'});
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+
+		await expect(
+			new FallbackProvider([primary, backup]).createChatCompletion({
+				...REQUEST,
+				timeoutMs: 20,
+			}),
+		).rejects.toBeInstanceOf(RequestTimeoutError);
+		// The deadline covers the whole chain, not each attempt
+		expect(primary.requests[0].timeoutMs).toBeUndefined();
+		expect(primary.requests[0].signal).toBeDefined();
+		expect(backup.requests).toHaveLength(0);
+	});
+
+	it('rethrows cancellation by the caller whatever the policy', async () => {
+		const primary = new MockProvider(stalled('Primary'), {name: 'Primary'});
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+		const controller = new AbortController();
+		const fallbacks: string[] = [];
+
+		const response = new FallbackProvider([primary, backup], {
+			shouldFallback: () => true,
+			onFallback: ({provider}) => fallbacks.push(provider),
+		}).createChatCompletion({...REQUEST, signal: controller.signal});
+		controller.abort();
+
+		await expect(response).rejects.toBeInstanceOf(RequestCancelledError);
+		expect(fallbacks).toEqual([]);
+	});
+
+	it('still falls back on timeouts of the provider itself', async () => {
+		const primary = new MockProvider(
+			{
+				error: new RequestTimeoutError('Primary request timed out.', {
+					provider: 'Primary',
+				}),
+			},
+			{name: 'Primary'},
+		);
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+
+		const response = await new FallbackProvider([
+			primary,
+			backup,
+		]).createChatCompletion({...REQUEST, timeoutMs: 60_000});
+
+		expect(response.content).toBe('backup');
+	});
+
+	it("does not switch streams once the caller's deadline has passed", async () => {
+		const primary = new MockProvider(stalled('Primary'), {name: 'Primary'});
+		const backup = new MockProvider({content: 'backup'}, {name: 'Backup'});
+		const fallbacks: string[] = [];
+
+		await expect(async () => {
+			for await (const _ of new FallbackProvider([primary, backup], {
+				onFallback: ({provider}) => fallbacks.push(provider),
+			}).createChatCompletionStream({...REQUEST, timeoutMs: 20})) {
+				// Nothing is expected before the timeout surfaces
+			}
+		}).rejects.toBeInstanceOf(RequestTimeoutError);
+		expect(fallbacks).toEqual([]);
+	});
+});
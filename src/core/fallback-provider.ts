@@ -0,0 +1,243 @@
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	FailedAttempt,
+	ModelDescriptor,
+	ProviderInfo,
+} from './ai-provider.js';
+import {
+	AIProviderError,
+	AuthenticationError,
+	QuotaExceededError,
+	toProviderError,
+	UnsupportedCapabilityError,
+} from './errors.js';
+import {embedTexts, supportsEmbeddings} from './embeddings.js';
+import {listProviderModels} from './model-catalog.js';
+import {getRequestSignal} from './request-utils.js';
+
+// Architectural Pattern: Chain of Responsibility - Providers are tried in order
+// until one of them answers.
+
+export interface FallbackEntry {
+	provider: AIProvider;
+	/**
+	 * Maps a requested model to this provider's equivalent, e.g.
+	 * `{'gpt-4o-mini': 'gemini-1.5-flash-latest'}`. Unmapped models are kept
+	 * for the first provider and replaced by the provider default for the rest.
+	 */
+	models?: Record<string, string>;
+}
+
+export interface FallbackOptions {
+	/** Decides whether an error moves on to the next provider */
+	shouldFallback?: (error: AIProviderError) => boolean;
+	/** Called before moving on to the next provider, e.g. for logging */
+	onFallback?: (info: {provider: string; error: AIProviderError}) => void;
+}
+
+/**
+ * Default policy: fall back on retryable errors (rate limits, timeouts,
+ * outages) and on errors that make a provider unusable for us (bad key,
+ * exhausted quota, a model without a capability the request needs). Other
+ * request errors would fail the same way everywhere.
+ */
+export function isAvailabilityError(error: AIProviderError): boolean {
+	return (
+		error.retryable ||
+		error instanceof AuthenticationError ||
+		error instanceof QuotaExceededError ||
+		error instanceof UnsupportedCapabilityError
+	);
+}
+
+/**
+ * Turns the caller's timeout into one signal for the whole chain, so every
+ * attempt shares the caller's deadline instead of starting a fresh one.
+ */
+function withCallerSignal(request: ChatRequest): ChatRequest {
+	const {timeoutMs, ...rest} = request;
+	const signal = getRequestSignal(request);
+	return signal === undefined ? rest : {...rest, signal};
+}
+
+/**
+ * An AIProvider that tries an ordered list of providers. The provider that
+ * answered and the attempts that failed are recorded in the response
+ * metadata. Streams fail over only when the error happens before the first
+ * event; after that the error is rethrown. Cancellation and timeouts of the
+ * caller's own signal or deadline are rethrown without falling back.
+ */
+export class FallbackProvider implements AIProvider {
+	private entries: FallbackEntry[];
+	private shouldFallback: (error: AIProviderError) => boolean;
+	private onFallback: FallbackOptions['onFallback'];
+
+	constructor(
+		entries: Array<FallbackEntry | AIProvider>,
+		options: FallbackOptions = {},
+	) {
+		if (entries.length === 0) {
+			throw new Error('FallbackProvider needs at least one provider.');
+		}
+		this.entries = entries.map(entry =>
+			'provider' in entry ? entry : {provider: entry},
+		);
+		this.shouldFallback = options.shouldFallback ?? isAvailabilityError;
+		this.onFallback = options.onFallback;
+	}
+
+	private requestFor(index: number, request: ChatRequest): ChatRequest {
+		const {models} = this.entries[index];
+		if (request.model === undefined) {
+			return request;
+		}
+		const mapped = models?.[request.model];
+		return {
+			...request,
+			model: mapped ?? (index === 0 ? request.model : undefined),
+		};
+	}
+
+	// Records the failure, or rethrows it when falling back would not help
+	private recordFailure(
+		index: number,
+		request: ChatRequest,
+		error: unknown,
+		failedAttempts: FailedAttempt[],
+	): void {
+		const providerName = this.entries[index].provider.getProviderInfo().name;
+		const providerError = toProviderError(error, {
+			provider: providerName,
+			model: request.model,
+			signal: request.signal,
+		});
+		const isLast = index === this.entries.length - 1;
+		// The next provider would get an aborted signal as well
+		const callerAborted = request.signal?.aborted === true;
+		if (isLast || callerAborted || !this.shouldFallback(providerError)) {
+			throw providerError;
+		}
+		this.onFallback?.({provider: providerName, error: providerError});
+		failedAttempts.push({
+			provider: providerName,
+			model: request.model,
+			error: providerError.message,
+		});
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		const callerRequest = withCallerSignal(request);
+		const failedAttempts: FailedAttempt[] = [];
+		for (let index = 0; ; index++) {
+			const {provider} = this.entries[index];
+			const providerRequest = this.requestFor(index, callerRequest);
+			try {
+				const response = await provider.createChatCompletion(providerRequest);
+				return {
+					...response,
+					metadata: {
+						...response.metadata,
+						provider: provider.getProviderInfo().name,
+						failedAttempts:
+							failedAttempts.length > 0 ? failedAttempts : undefined,
+					},
+				};
+			} catch (error) {
+				this.recordFailure(index, providerRequest, error, failedAttempts);
+			}
+		}
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		const callerRequest = withCallerSignal(request);
+		const failedAttempts: FailedAttempt[] = [];
+		for (let index = 0; ; index++) {
+			const {provider} = this.entries[index];
+			const providerRequest = this.requestFor(index, callerRequest);
+			let started = false;
+			try {
+				for await (const event of provider.createChatCompletionStream(
+					providerRequest,
+				)) {
+					started = true;
+					yield event.type === 'done'
+						? {
+								...event,
+								metadata: {
+									...event.metadata,
+									provider: provider.getProviderInfo().name,
+									failedAttempts:
+										failedAttempts.length > 0 ? failedAttempts : undefined,
+								},
+						  }
+						: event;
+				}
+				return;
+			} catch (error) {
+				// Output already reached the consumer, so switching would mix answers
+				if (started) {
+					throw error;
+				}
+				this.recordFailure(index, providerRequest, error, failedAttempts);
+			}
+		}
+	}
+
+	/**
+	 * Embeds with the first provider that supports embeddings. There is no
+	 * failover: vectors from different models cannot be compared.
+	 */
+	async createEmbeddings(
+		texts: string[],
+		options?: EmbeddingOptions,
+	): Promise<EmbeddingResponse> {
+		const entry =
+			this.entries.find(({provider}) => supportsEmbeddings(provider)) ??
+			this.entries[0];
+		const response = await embedTexts(entry.provider, texts, options);
+		return {...response, provider: entry.provider.getProviderInfo().name};
+	}
+
+	/**
+	 * Lists the models of every provider in the chain, in chain order.
+	 * Providers that cannot be reached are skipped unless all fail.
+	 */
+	async listModels(): Promise<ModelDescriptor[]> {
+		const results = await Promise.allSettled(
+			this.entries.map(({provider}) => listProviderModels(provider)),
+		);
+		const lists = results.flatMap(result =>
+			result.status === 'fulfilled' ? [result.value] : [],
+		);
+		if (lists.length === 0) {
+			throw (results[0] as PromiseRejectedResult).reason;
+		}
+		return lists.flat();
+	}
+
+	// The primary provider's default applies when a request sets no model
+	getProviderInfo(): ProviderInfo {
+		const infos = this.entries.map(entry => entry.provider.getProviderInfo());
+		const embeddingEntry = this.entries.find(({provider}) =>
+			supportsEmbeddings(provider),
+		);
+		return {
+			name: `Fallback(${infos.map(info => info.name).join(' -> ')})`,
+			version: '1.0.0',
+			defaultModel: infos[0].defaultModel,
+			supportedModels: [
+				...new Set(infos.flatMap(info => info.supportedModels)),
+			],
+			capabilities: {embeddings: embeddingEntry !== undefined},
+			embeddingModels:
+				embeddingEntry?.provider.getProviderInfo().embeddingModels,
+		};
+	}
+}
@@ -1,61 +1,137 @@
+import {randomUUID} from 'crypto';
 import {
 	GoogleGenerativeAI,
 	Content,
+	EmbedContentRequest,
+	FinishReason as GeminiFinishReason,
+	FunctionCallingMode,
+	FunctionDeclarationSchema,
+	GenerateContentResponse,
+	GenerationConfig,
 	Part,
-	GenerateContentResult,
-	GenerateContentStreamResult,
-	EnhancedGenerateContentResponse, // Use this for stream chunks
+	Tool,
+	ToolConfig,
+	UsageMetadata,
 } from '@google/generative-ai';
 import {
-	ChatCompletionCreateParamsBase,
-	ChatCompletionMessageParam,
-} from 'openai/resources/chat/completions'; // Keep for config type
-import {AIProvider, ChatResponse, ProviderInfo} from './ai-provider.js';
-import dotenv from 'dotenv';
+	AIProvider,
+	ChatMessage,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	ContentPart,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	FinishReason,
+	ModelDescriptor,
+	ProviderInfo,
+	TokenUsage,
+	ToolCall,
+} from './ai-provider.js';
+import {
+	getIgnoredParams,
+	getRequestSignal,
+	validateChatRequest,
+	validateEmbeddingModel,
+} from './request-utils.js';
+import {
+	ContentBlockedError,
+	InvalidRequestError,
+	toProviderError,
+} from './errors.js';
+import {ProviderConfig, requireApiKey} from './provider-config.js';
+import {getTextContent, loadAttachment} from './message-content.js';
+import {
+	getCatalogModels,
+	getModelDescriptor,
+	getModelIds,
+} from './model-catalog.js';
+import {embedInBatches} from './embeddings.js';
+
+// Converts a tool message's string content into the object Gemini expects
+function toFunctionResponse(message: ChatMessage): Part {
+	const content = getTextContent(message.content);
+	let response: object;
+	try {
+		const parsed = JSON.parse(content);
+		response =
+			typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+				? parsed
+				: {result: parsed};
+	} catch {
+		response = {result: content};
+	}
+	return {functionResponse: {name: message.name ?? '', response}};
+}
 
-dotenv.config();
+// Translates a single ChatMessage into Gemini parts; images and files are
+// sent as inlineData
+function toGeminiParts(message: ChatMessage): Part[] {
+	if (message.role === 'tool') {
+		return [toFunctionResponse(message)];
+	}
+	const content: ContentPart[] =
+		typeof message.content === 'string'
+			? [{type: 'text', text: message.content}]
+			: message.content;
+	const parts: Part[] = [];
+	for (const part of content) {
+		if (part.type === 'text') {
+			if (part.text) {
+				parts.push({text: part.text});
+			}
+		} else {
+			const {mimeType, data} = loadAttachment(part, 'Gemini');
+			parts.push({inlineData: {mimeType, data}});
+		}
+	}
+	for (const toolCall of message.toolCalls ?? []) {
+		parts.push({functionCall: {name: toolCall.name, args: toolCall.arguments}});
+	}
+	return parts;
+}
 
-// Helper to translate OpenAI messages to Gemini Content format
+// Helper to translate ChatMessages to Gemini Content format
 function translateToGeminiMessages(
-	messages: ReadonlyArray<ChatCompletionMessageParam>, // Use ReadonlyArray from config type
+	messages: ChatMessage[],
+	warn: (message: string) => void,
 ): Content[] {
 	const history: Content[] = [];
-	let currentContent: Content | null = null;
 
-	// Filter out system messages if present, as Gemini handles them differently (often via model instructions)
-	// Or adjust the role mapping if the Gemini SDK/API supports a system-like role.
-	// For now, we'll filter them out and assume the core instruction is part of the model setup or first user message.
+	// System messages are passed separately as the model's systemInstruction
 	const filteredMessages = messages.filter(msg => msg.role !== 'system');
 
 	for (const message of filteredMessages) {
-		// Gemini uses 'model' for assistant role, 'user' for user role.
-		const role = message.role === 'assistant' ? 'model' : 'user';
-		const text = message.content as string; // Assuming simple text content
+		// Gemini uses 'model' for the assistant and 'function' for tool results
+		const role =
+			message.role === 'assistant'
+				? 'model'
+				: message.role === 'tool'
+				? 'function'
+				: 'user';
+		const parts = toGeminiParts(message);
 
-		if (!text) continue; // Skip empty messages
+		if (parts.length === 0) continue; // Skip empty messages
 
 		// Gemini API requires alternating user/model roles.
-		// If the history is not empty and the current role is the same as the last,
-		// we might need to merge or handle this. For simplicity, let's assume
-		// the input `messages` mostly adheres to this, but log a warning if not.
+		// Consecutive messages from the same role are merged into one Content.
+		// Parallel tool results are expected to arrive this way.
 		if (history.length > 0 && history[history.length - 1].role === role) {
-			console.warn(
-				`GeminiProvider: Consecutive messages from the same role ('${role}') detected. Combining content.`,
-			);
-			const lastContent = history[history.length - 1];
-			lastContent.parts[0].text += '\n' + text; // Combine parts
+			if (role !== 'function') {
+				warn(
+					`GeminiProvider: Consecutive messages from the same role ('${role}') detected. Combining content.`,
+				);
+			}
+			history[history.length - 1].parts.push(...parts);
 		} else {
-			currentContent = {role, parts: [{text}]};
-			history.push(currentContent);
+			history.push({role, parts});
 		}
 	}
 
-	// Ensure the history ends with a 'user' message if it's not empty
-	if (history.length > 0 && history[history.length - 1].role !== 'user') {
-		// This indicates an issue with the input sequence or filtering logic.
+	// Ensure the history ends with a user or tool-result message if it's not empty
+	if (history.length > 0 && history[history.length - 1].role === 'model') {
 		// Gemini's `startChat` expects history to end before the *final* user message.
-		// Let's adjust the logic in the methods using this history.
-		console.warn(
+		warn(
 			'GeminiProvider: Message history does not end with a user role after filtering. This might cause issues.',
 		);
 	}
@@ -63,59 +139,386 @@ function translateToGeminiMessages(
 	return history;
 }
 
+// Gemini accepts an OpenAPI subset of JSON Schema; drop keywords it rejects
+function toGeminiSchema(schema: unknown): unknown {
+	if (Array.isArray(schema)) {
+		return schema.map(toGeminiSchema);
+	}
+	if (typeof schema !== 'object' || schema === null) {
+		return schema;
+	}
+	const result: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(schema)) {
+		if (key !== 'additionalProperties' && key !== '$schema') {
+			result[key] = toGeminiSchema(value);
+		}
+	}
+	return result;
+}
+
+function buildTools(request: ChatRequest): Tool[] | undefined {
+	if (!request.tools?.length) {
+		return undefined;
+	}
+	return [
+		{
+			functionDeclarations: request.tools.map(tool => ({
+				name: tool.name,
+				description: tool.description,
+				parameters: toGeminiSchema(
+					tool.parameters,
+				) as FunctionDeclarationSchema,
+			})),
+		},
+	];
+}
+
+function buildToolConfig(request: ChatRequest): ToolConfig | undefined {
+	const toolChoice = request.toolChoice;
+	if (toolChoice === undefined) {
+		return undefined;
+	}
+	if (typeof toolChoice === 'object') {
+		return {
+			functionCallingConfig: {
+				mode: FunctionCallingMode.ANY,
+				allowedFunctionNames: [toolChoice.name],
+			},
+		};
+	}
+	const modes = {
+		auto: FunctionCallingMode.AUTO,
+		none: FunctionCallingMode.NONE,
+		required: FunctionCallingMode.ANY,
+	};
+	return {functionCallingConfig: {mode: modes[toolChoice]}};
+}
+
+// A blocked prompt yields a response (or first stream chunk) without candidates
+function throwIfBlocked(
+	response: GenerateContentResponse | undefined,
+	model: string,
+): void {
+	const blockReason = response?.promptFeedback?.blockReason;
+	if (blockReason) {
+		throw new ContentBlockedError(
+			`Gemini blocked the prompt (${blockReason}).`,
+			{provider: 'Gemini', model},
+		);
+	}
+}
+
+// Splits the parts of a response (or stream chunk) into text and tool calls
+function readCandidateParts(parts: Part[] | undefined): {
+	text: string;
+	toolCalls: ToolCall[];
+} {
+	let text = '';
+	const toolCalls: ToolCall[] = [];
+	for (const part of parts ?? []) {
+		if (part.text) {
+			text += part.text;
+		}
+		if (part.functionCall) {
+			// Gemini matches results by name, so IDs only need to be unique locally
+			toolCalls.push({
+				id: `call_${randomUUID()}`,
+				name: part.functionCall.name,
+				arguments: part.functionCall.args as Record<string, unknown>,
+			});
+		}
+	}
+	return {text, toolCalls};
+}
+
+// Collects every system message (e.g. a base prompt plus a CONTEXT message)
+// into a single system instruction, preserving their order.
+function extractSystemInstruction(messages: ChatMessage[]): string | undefined {
+	const systemText = messages
+		.filter(message => message.role === 'system')
+		.map(message => getTextContent(message.content))
+		.filter(text => text)
+		.join('\n\n');
+	return systemText || undefined;
+}
+
+// Translates sampling and output settings into Gemini's generationConfig.
+// Returns the request parameters that have no Gemini equivalent.
+function buildGenerationConfig(request: ChatRequest): {
+	generationConfig: GenerationConfig;
+	ignoredParams: string[];
+} {
+	const ignoredParams = getIgnoredParams(request, SUPPORTED_PARAMS);
+	const generationConfig: GenerationConfig = {
+		temperature: request.temperature,
+		topP: request.topP,
+		maxOutputTokens: request.maxTokens,
+		stopSequences: request.stop,
+	};
+
+	const format = request.responseFormat;
+	if (format && format.type !== 'text') {
+		generationConfig.responseMimeType = 'application/json';
+		if (format.type === 'json_schema') {
+			// Gemini's responseSchema is an OpenAPI subset, not full JSON Schema
+			ignoredParams.push('responseFormat.schema');
+		}
+	}
+
+	return {generationConfig, ignoredParams};
+}
+
+// Maps Gemini finish reasons onto the provider-neutral FinishReason
+function mapGeminiFinishReason(
+	reason: GeminiFinishReason | undefined,
+): FinishReason | undefined {
+	switch (reason) {
+		case undefined:
+		case GeminiFinishReason.FINISH_REASON_UNSPECIFIED:
+			return undefined;
+		case GeminiFinishReason.STOP:
+			return 'stop';
+		case GeminiFinishReason.MAX_TOKENS:
+			return 'length';
+		case GeminiFinishReason.SAFETY:
+		case GeminiFinishReason.RECITATION:
+		case GeminiFinishReason.BLOCKLIST:
+		case GeminiFinishReason.PROHIBITED_CONTENT:
+		case GeminiFinishReason.SPII:
+			return 'content_filter';
+		default:
+			return 'other';
+	}
+}
+
+function toTokenUsage(
+	usageMetadata: UsageMetadata | undefined,
+): TokenUsage | undefined {
+	return usageMetadata
+		? {
+				prompt_tokens: usageMetadata.promptTokenCount,
+				completion_tokens: usageMetadata.candidatesTokenCount,
+				total_tokens: usageMetadata.totalTokenCount,
+		  }
+		: undefined;
+}
+
+// Request parameters GeminiProvider translates (Gemini has no seed parameter)
+const SUPPORTED_PARAMS: (keyof ChatRequest)[] = [
+	'temperature',
+	'topP',
+	'maxTokens',
+	'stop',
+	'responseFormat',
+	'tools',
+	'toolChoice',
+];
+
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+// Response of GET /v1beta/models (fields used here)
+interface GeminiModelList {
+	models?: Array<{
+		name: string;
+		inputTokenLimit?: number;
+		outputTokenLimit?: number;
+		supportedGenerationMethods?: string[];
+	}>;
+	nextPageToken?: string;
+}
+
+function toModelDescriptor(
+	model: NonNullable<GeminiModelList['models']>[number],
+): ModelDescriptor {
+	const id = model.name.replace(/^models\//, '');
+	const methods = model.supportedGenerationMethods ?? [];
+	const known = getModelDescriptor('Gemini', id);
+	return {
+		...known,
+		id,
+		contextWindow: model.inputTokenLimit ?? known?.contextWindow,
+		maxOutputTokens: model.outputTokenLimit ?? known?.maxOutputTokens,
+		capabilities: {
+			...known?.capabilities,
+			chat: methods.includes('generateContent'),
+			streaming: methods.includes('generateContent'),
+			embeddings:
+				methods.includes('embedContent') ||
+				methods.includes('batchEmbedContents'),
+		},
+	};
+}
+
+// batchEmbedContents accepts at most 100 requests
+const EMBEDDING_BATCH_SIZE = 100;
+
 export class GeminiProvider implements AIProvider {
-	private genAI: GoogleGenerativeAI;
+	private genAI?: GoogleGenerativeAI;
 	private defaultModelName: string;
+	private embeddingModel: string;
+	private discoveredModels: ModelDescriptor[] = [];
+	private warn: (message: string) => void;
+
+	/**
+	 * The API key falls back to GEMINI_API_KEY and is checked on the first
+	 * request. `organization` has no Gemini equivalent and is ignored.
+	 */
+	constructor(private options: ProviderConfig = {}) {
+		this.defaultModelName = options.defaultModel ?? 'gemini-1.5-flash-latest';
+		this.embeddingModel = options.embeddingModel ?? 'text-embedding-004';
+		this.warn = options.warn ?? console.warn;
+	}
 
-	constructor(apiKey?: string, model: string = 'gemini-1.5-flash-latest') {
-		// Updated default model
-		const key = apiKey ?? process.env.GEMINI_API_KEY;
-		if (!key) {
-			throw new Error(
-				'Gemini API key is missing. Provide it via constructor or GEMINI_API_KEY env variable.',
+	private getGenAI(): GoogleGenerativeAI {
+		if (!this.genAI) {
+			this.genAI = new GoogleGenerativeAI(
+				requireApiKey('Gemini', this.options.apiKey, 'GEMINI_API_KEY'),
 			);
 		}
-		this.genAI = new GoogleGenerativeAI(key);
-		this.defaultModelName = model;
+		return this.genAI;
 	}
 
 	getProviderInfo(): ProviderInfo {
+		// Discovered models replace their catalogue entries
+		const discoveredIds = new Set(this.discoveredModels.map(model => model.id));
+		const models = [
+			...getCatalogModels('Gemini').filter(
+				model => !discoveredIds.has(model.id),
+			),
+			...this.discoveredModels,
+		];
 		return {
 			name: 'Gemini',
 			version: '1.0.0', // Placeholder version
-			supportedModels: [
-				this.defaultModelName, // Now defaults to flash
-				'gemini-1.5-flash-latest',
-				'gemini-1.5-pro-latest',
-				// Add others from the list if desired
-			], // Example
+			defaultModel: this.defaultModelName,
+			supportedModels: getModelIds(models, 'chat', this.defaultModelName),
+			models,
+			capabilities: {embeddings: true},
+			embeddingModels: getModelIds(models, 'embeddings', this.embeddingModel),
 		};
 	}
 
-	async createChatCompletion(
-		config: ChatCompletionCreateParamsBase,
-	): Promise<ChatResponse> {
-		const startTime = Date.now();
-		const targetModel = config.model ?? this.defaultModelName;
-		const geminiModel = this.genAI.getGenerativeModel({
-			model: targetModel,
-			// Pass system prompt if available and supported by the model/SDK version
-			// systemInstruction: config.messages.find(m => m.role === 'system')?.content as string | undefined,
+	/**
+	 * Lists the models available to this API key. Gemini reports token limits
+	 * and supported methods; pricing and other capabilities come from the
+	 * catalogue.
+	 */
+	async listModels(): Promise<ModelDescriptor[]> {
+		const apiKey = requireApiKey(
+			'Gemini',
+			this.options.apiKey,
+			'GEMINI_API_KEY',
+		);
+		const baseUrl = this.options.baseURL ?? GEMINI_API_BASE_URL;
+		const models: ModelDescriptor[] = [];
+		let pageToken: string | undefined;
+		try {
+			do {
+				const url = new URL(`${baseUrl}/v1beta/models`);
+				url.searchParams.set('pageSize', '1000');
+				if (pageToken) {
+					url.searchParams.set('pageToken', pageToken);
+				}
+				const response = await fetch(url, {
+					headers: {...this.options.defaultHeaders, 'x-goog-api-key': apiKey},
+					signal:
+						this.options.timeout !== undefined
+							? AbortSignal.timeout(this.options.timeout)
+							: undefined,
+				});
+				if (!response.ok) {
+					throw Object.assign(new Error(await response.text()), {
+						status: response.status,
+					});
+				}
+				const page = (await response.json()) as GeminiModelList;
+				models.push(...(page.models ?? []).map(toModelDescriptor));
+				pageToken = page.nextPageToken;
+			} while (pageToken);
+		} catch (error) {
+			throw toProviderError(error, {provider: 'Gemini'});
+		}
+		this.discoveredModels = models;
+		return models;
+	}
+
+	/**
+	 * Embeds texts with batchEmbedContents. Gemini reports no token usage
+	 * for embeddings, so `usage` is undefined.
+	 */
+	async createEmbeddings(
+		texts: string[],
+		options: EmbeddingOptions = {},
+	): Promise<EmbeddingResponse> {
+		const model = options.model ?? this.embeddingModel;
+		validateEmbeddingModel('Gemini', model);
+		const embeddingModel = this.getGenAI().getGenerativeModel(
+			{model},
+			{
+				baseUrl: this.options.baseURL,
+				timeout: this.options.timeout,
+				customHeaders: this.options.defaultHeaders,
+			},
+		);
+
+		return embedInBatches(texts, EMBEDDING_BATCH_SIZE, model, async batch => {
+			const signal = getRequestSignal(options);
+			// outputDimensionality is accepted by the API but missing from the SDK types
+			const requests = batch.map(
+				text =>
+					({
+						content: {role: 'user', parts: [{text}]},
+						outputDimensionality: options.dimensions,
+					} as EmbedContentRequest),
+			);
+			try {
+				const response = await embeddingModel.batchEmbedContents(
+					{requests},
+					{signal},
+				);
+				return {
+					embeddings: response.embeddings.map(embedding => embedding.values),
+				};
+			} catch (error) {
+				throw toProviderError(error, {provider: 'Gemini', model, signal});
+			}
 		});
+	}
+
+	/**
+	 * Builds a chat session from the request history and returns it together
+	 * with the final user message, which is sent separately.
+	 */
+	private prepareChat(request: ChatRequest, stream: boolean) {
+		const targetModel = request.model ?? this.defaultModelName;
+		validateChatRequest('Gemini', targetModel, request, stream);
+		const {generationConfig, ignoredParams} = buildGenerationConfig(request);
+
+		const geminiModel = this.getGenAI().getGenerativeModel(
+			{
+				model: targetModel,
+				systemInstruction: extractSystemInstruction(request.messages),
+				generationConfig,
+				tools: buildTools(request),
+				toolConfig: buildToolConfig(request),
+			},
+			{
+				baseUrl: this.options.baseURL,
+				timeout: this.options.timeout,
+				customHeaders: this.options.defaultHeaders,
+			},
+		);
 
-		const history = translateToGeminiMessages(config.messages);
+		const history = translateToGeminiMessages(request.messages, this.warn);
 
-		// Separate the history (if any) from the final user message for startChat
+		// Separate the history (if any) from the final message for startChat
 		const chatHistory = history.length > 1 ? history.slice(0, -1) : [];
 		const lastMessage = history[history.length - 1];
 
-		if (
-			!lastMessage ||
-			lastMessage.role !== 'user' ||
-			!lastMessage.parts[0]?.text
-		) {
-			throw new Error(
-				'GeminiProvider: The final message must be from the user and contain text.',
+		if (!lastMessage || lastMessage.role === 'model') {
+			throw new InvalidRequestError(
+				'GeminiProvider: The final message must be a user message or tool result.',
+				{provider: 'Gemini', model: targetModel},
 			);
 		}
 
@@ -125,198 +528,116 @@ export class GeminiProvider implements AIProvider {
 			chatHistory[chatHistory.length - 1].role !== 'model'
 		) {
 			// This might happen if the original sequence ended with two user messages.
-			// Handle appropriately, e.g., by removing the last user message from history here.
-			console.warn(
+			this.warn(
 				'GeminiProvider: Adjusting chat history for startChat requirements.',
 			);
-			// Potentially trim history further if needed based on API rules
 		}
 
-		const chat = geminiModel.startChat({
-			history: chatHistory,
-			// generationConfig: { // Map relevant config options if needed
-			//   temperature: config.temperature ?? undefined,
-			//   topP: config.top_p ?? undefined,
-			//   maxOutputTokens: config.max_tokens ?? undefined,
-			// },
-		});
+		const chat = geminiModel.startChat({history: chatHistory});
+
+		return {chat, lastParts: lastMessage.parts, targetModel, ignoredParams};
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		const startTime = Date.now();
+		const {chat, lastParts, targetModel, ignoredParams} = this.prepareChat(
+			request,
+			false,
+		);
+		const signal = getRequestSignal(request);
 
 		try {
-			const result = await chat.sendMessage(lastMessage.parts[0].text);
+			const result = await chat.sendMessage(lastParts, {signal});
 			const endTime = Date.now();
 			const response = result.response;
+			throwIfBlocked(response, targetModel);
 			const choice = response.candidates?.[0];
-			const messageContent = choice?.content?.parts?.[0]?.text ?? '';
+			const {text, toolCalls} = readCandidateParts(choice?.content?.parts);
 
 			return {
-				content: messageContent,
+				content: text,
+				toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
 				metadata: {
 					model: targetModel,
-					usage: {
-						// Gemini API provides token counts in response.usageMetadata
-						prompt_tokens: response.usageMetadata?.promptTokenCount,
-						completion_tokens: response.usageMetadata?.candidatesTokenCount,
-						total_tokens: response.usageMetadata?.totalTokenCount,
-					},
+					usage: toTokenUsage(response.usageMetadata),
 					latencyMs: endTime - startTime,
+					// Gemini reports STOP even when it asks for a function call
+					finishReason:
+						toolCalls.length > 0
+							? 'tool_calls'
+							: mapGeminiFinishReason(choice?.finishReason),
+					ignoredParams: ignoredParams.length > 0 ? ignoredParams : undefined,
 				},
 			};
-		} catch (error: any) {
-			console.error('Gemini API Error:', error);
-			// Rethrow or handle specific errors
-			throw new Error(`Gemini API request failed: ${error.message}`);
+		} catch (error) {
+			throw toProviderError(error, {
+				provider: 'Gemini',
+				model: targetModel,
+				signal,
+			});
 		}
 	}
 
 	async *createChatCompletionStream(
-		config: ChatCompletionCreateParamsBase,
-	): AsyncGenerator<ChatResponse> {
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
 		const startTime = Date.now(); // Track start time for the whole stream
-		const targetModel = config.model ?? this.defaultModelName;
-		const geminiModel = this.genAI.getGenerativeModel({
-			model: targetModel,
-			// systemInstruction: config.messages.find(m => m.role === 'system')?.content as string | undefined,
-		});
-
-		const history = translateToGeminiMessages(config.messages);
-		const chatHistory = history.length > 1 ? history.slice(0, -1) : [];
-		const lastMessage = history[history.length - 1];
-
-		if (
-			!lastMessage ||
-			lastMessage.role !== 'user' ||
-			!lastMessage.parts[0]?.text
-		) {
-			throw new Error(
-				'GeminiProvider: The final message must be from the user and contain text for streaming.',
-			);
-		}
-
-		// Adjust history if needed (similar to non-streaming)
-		if (
-			chatHistory.length > 0 &&
-			chatHistory[chatHistory.length - 1].role !== 'model'
-		) {
-			console.warn(
-				'GeminiProvider: Adjusting chat history for startChat requirements (stream).',
-			);
-		}
-
-		const chat = geminiModel.startChat({
-			history: chatHistory,
-			// generationConfig: { ... }, // Map config if needed
-		});
+		const {chat, lastParts, targetModel, ignoredParams} = this.prepareChat(
+			request,
+			true,
+		);
+		const signal = getRequestSignal(request);
 
-		let accumulatedContent = '';
-		let finalUsage: any = null; // To store usage from the final aggregated response
-		let lastChunkTime = startTime;
+		let finishReason: FinishReason | undefined;
+		let timeToFirstTokenMs: number | undefined;
+		let sawToolCall = false;
 
 		try {
-			const resultStream = await chat.sendMessageStream(
-				lastMessage.parts[0].text,
-			);
+			const resultStream = await chat.sendMessageStream(lastParts, {signal});
+			// Rejects as well when the stream is aborted; handled via the loop below
+			resultStream.response.catch(() => undefined);
 
 			for await (const chunk of resultStream.stream) {
-				const chunkTime = Date.now();
+				signal?.throwIfAborted();
 				// The stream yields EnhancedGenerateContentResponse chunks
+				throwIfBlocked(chunk, targetModel);
 				const choice = chunk.candidates?.[0];
-				const deltaContent = choice?.content?.parts?.[0]?.text ?? '';
-
-				if (deltaContent) {
-					accumulatedContent += deltaContent;
-					yield {
-						content: deltaContent, // Yield only the delta for streaming updates
-						metadata: {
-							model: targetModel,
-							// Usage might only be available at the end, latency is per-chunk
-							latencyMs: chunkTime - lastChunkTime,
-						},
-					};
-				}
-				lastChunkTime = chunkTime;
+				const {text, toolCalls} = readCandidateParts(choice?.content?.parts);
 
-				// Check for finish reason and potential final usage data in the chunk
-				if (choice?.finishReason && choice.finishReason !== 'STOP') {
-					console.warn(
-						`Gemini stream finished with reason: ${choice.finishReason}`,
-					);
+				if (text) {
+					timeToFirstTokenMs ??= Date.now() - startTime;
+					yield {type: 'delta', content: text};
 				}
-
-				// Aggregate usage if available in chunks (depends on SDK version/response)
-				// finalUsage = chunk.usageMetadata ?? finalUsage; // Example if usage is in chunks
-			}
-
-			// After the loop, the full response might be available via resultStream.response
-			// This often contains the aggregated content and final usage data.
-			const finalResponse = await resultStream.response;
-			finalUsage = finalResponse?.usageMetadata;
-			const finalEndTime = Date.now();
-
-			// Optionally, yield a final "summary" chunk if needed,
-			// or rely on the consumer to know the stream ended.
-			// The current AIProvider interface expects ChatResponse chunks,
-			// so we might need a way to signal the end and provide final metadata.
-			// For now, we've yielded content deltas. Let's add a final yield
-			// with full content and metadata if the interface implies that.
-			// Re-reading interface: AsyncGenerator<ChatResponse>. This implies each yield
-			// should be a *complete* ChatResponse. Let's adjust the yield logic.
-
-			// --- Adjusted Stream Logic ---
-			// Instead of yielding deltas, we'll yield the *accumulated* content
-			// in each chunk, which fits the ChatResponse structure better.
-
-			// Resetting for adjusted logic:
-			accumulatedContent = '';
-			lastChunkTime = startTime;
-
-			const resultStreamAdjusted = await chat.sendMessageStream(
-				lastMessage.parts[0].text,
-			);
-			for await (const chunk of resultStreamAdjusted.stream) {
-				const chunkTime = Date.now();
-				const choice = chunk.candidates?.[0];
-				const deltaContent = choice?.content?.parts?.[0]?.text ?? '';
-
-				if (deltaContent) {
-					accumulatedContent += deltaContent;
-					yield {
-						content: accumulatedContent, // Yield accumulated content
-						metadata: {
-							model: targetModel,
-							latencyMs: chunkTime - lastChunkTime, // Latency of this chunk generation
-						},
-					};
-				}
-				lastChunkTime = chunkTime;
-				// Check for finish reason
-				if (choice?.finishReason && choice.finishReason !== 'STOP') {
-					console.warn(
-						`Gemini stream finished with reason: ${choice.finishReason}`,
-					);
+				// Function calls arrive whole, never split across chunks
+				for (const toolCall of toolCalls) {
+					sawToolCall = true;
+					yield {type: 'tool_call', toolCall};
 				}
+				finishReason =
+					mapGeminiFinishReason(choice?.finishReason) ?? finishReason;
 			}
 
-			// Get final usage after stream ends
-			const finalResponseAdjusted = await resultStreamAdjusted.response;
-			finalUsage = finalResponseAdjusted?.usageMetadata;
-			const finalEndTimeAdjusted = Date.now();
+			// The aggregated response carries the final usage data
+			const finalResponse = await resultStream.response;
+			throwIfBlocked(finalResponse, targetModel);
 
-			// Yield a final response with usage data and total latency
 			yield {
-				content: accumulatedContent, // Final accumulated content
+				type: 'done',
 				metadata: {
 					model: targetModel,
-					usage: {
-						prompt_tokens: finalUsage?.promptTokenCount,
-						completion_tokens: finalUsage?.candidatesTokenCount,
-						total_tokens: finalUsage?.totalTokenCount,
-					},
-					latencyMs: finalEndTimeAdjusted - startTime, // Total latency for the stream
+					usage: toTokenUsage(finalResponse?.usageMetadata),
+					latencyMs: Date.now() - startTime, // Total latency for the stream
+					timeToFirstTokenMs,
+					finishReason: sawToolCall ? 'tool_calls' : finishReason,
+					ignoredParams: ignoredParams.length > 0 ? ignoredParams : undefined,
 				},
 			};
-		} catch (error: any) {
-			console.error('Gemini API Stream Error:', error);
-			throw new Error(`Gemini API stream request failed: ${error.message}`);
+		} catch (error) {
+			throw toProviderError(error, {
+				provider: 'Gemini',
+				model: targetModel,
+				signal,
+			});
 		}
 	}
 }
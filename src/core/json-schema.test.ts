@@ -0,0 +1,133 @@
+import {describe, expect, it} from 'vitest';
+import {JsonSchema, validateJsonSchema} from './json-schema.js';
+
+const RECIPE: JsonSchema = {
+	type: 'object',
+	required: ['name', 'servings', 'ingredients'],
+	properties: {
+		name: {type: 'string', minLength: 1, maxLength: 40},
+		servings: {type: 'integer', minimum: 1, maximum: 12},
+		difficulty: {enum: ['easy', 'medium', 'hard']},
+		ingredients: {
+			type: 'array',
+			minItems: 1,
+			maxItems: 3,
+			items: {
+				type: 'object',
+				required: ['item'],
+				properties: {item: {type: 'string'}, grams: {type: ['number', 'null']}},
+				additionalProperties: false,
+			},
+		},
+		tags: {type: 'object', additionalProperties: {type: 'boolean'}},
+		version: {const: 1},
+	},
+};
+
+describe('validateJsonSchema', () => {
+	it('accepts valid values', () => {
+		expect(
+			validateJsonSchema(
+				{
+					name: 'Pancakes',
+					servings: 4,
+					difficulty: 'easy',
+					ingredients: [
+						{item: 'flour', grams: 200},
+						{item: 'salt', grams: null},
+					],
+					tags: {vegan: false},
+					version: 1,
+					notes: 'Extra keys are allowed unless additionalProperties is false',
+				},
+				RECIPE,
+			),
+		).toEqual([]);
+	});
+
+	it.each<[string, unknown, JsonSchema, string[]]>([
+		[
+			'the wrong type',
+			'x',
+			{type: 'number'},
+			['$ should be number, got string'],
+		],
+		[
+			'null for an object',
+			null,
+			{type: 'object'},
+			['$ should be object, got null'],
+		],
+		[
+			'a float for an integer',
+			1.5,
+			{type: 'integer'},
+			['$ should be integer, got number'],
+		],
+		[
+			'NaN for a number',
+			NaN,
+			{type: 'number'},
+			['$ should be number, got number'],
+		],
+		[
+			'a value outside the enum',
+			'b',
+			{enum: ['a']},
+			['$ should be one of ["a"]'],
+		],
+		['a different const', 2, {const: 1}, ['$ should be 1']],
+		[
+			'a short string',
+			'',
+			{minLength: 1},
+			['$ should have at least 1 characters'],
+		],
+		[
+			'a long string',
+			'abc',
+			{maxLength: 2},
+			['$ should have at most 2 characters'],
+		],
+		['a small number', 0, {minimum: 1}, ['$ should be >= 1']],
+		['a large number', 3, {maximum: 2}, ['$ should be <= 2']],
+		['too few items', [], {minItems: 1}, ['$ should have at least 1 items']],
+		[
+			'too many items',
+			[1, 2],
+			{maxItems: 1},
+			['$ should have at most 1 items'],
+		],
+	])('reports %s', (_, value, schema, errors) => {
+		expect(validateJsonSchema(value, schema)).toEqual(errors);
+	});
+
+	it('reports every nested error with its path', () => {
+		expect(
+			validateJsonSchema(
+				{
+					name: '',
+					servings: 20,
+					ingredients: [{item: 'flour', grams: '200'}, {amount: 1}],
+					tags: {vegan: 'yes'},
+				},
+				RECIPE,
+			),
+		).toEqual([
+			'$.name should have at least 1 characters',
+			'$.servings should be <= 12',
+			'$.ingredients[0].grams should be number or null, got string',
+			'$.ingredients[1].item is required',
+			'$.ingredients[1].amount is not allowed',
+			'$.tags.vegan should be boolean, got string',
+		]);
+	});
+
+	it('reports missing required keys', () => {
+		expect(validateJsonSchema({}, RECIPE)).toEqual([
+			'$.name is required',
+			'$.servings is required',
+			'$.ingredients is required',
+		]);
+	});
+});
@@ -0,0 +1,140 @@
+// A small JSON Schema validator covering the keywords our structured outputs use:
+// type, properties, required, additionalProperties, items, enum, const,
+// minItems/maxItems, minLength/maxLength and minimum/maximum.
+
+export type JsonSchema = Record<string, unknown>;
+
+function typeOf(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case 'integer':
+			return Number.isInteger(value);
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value);
+		default:
+			return typeOf(value) === type;
+	}
+}
+
+/**
+ * Validates a value against a JSON Schema.
+ * @param value The parsed JSON value
+ * @param schema The schema to check against
+ * @param path JSONPath-style location used in error messages
+ * @returns A list of human-readable errors; empty when the value is valid
+ */
+export function validateJsonSchema(
+	value: unknown,
+	schema: JsonSchema,
+	path: string = '$',
+): string[] {
+	const errors: string[] = [];
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some(type => matchesType(value, String(type)))) {
+			return [`${path} should be ${types.join(' or ')}, got ${typeOf(value)}`];
+		}
+	}
+
+	if (
+		Array.isArray(schema.enum) &&
+		!schema.enum.some(option => option === value)
+	) {
+		errors.push(`${path} should be one of ${JSON.stringify(schema.enum)}`);
+	}
+	if (schema.const !== undefined && schema.const !== value) {
+		errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+	}
+
+	if (typeof value === 'string') {
+		if (
+			typeof schema.minLength === 'number' &&
+			value.length < schema.minLength
+		) {
+			errors.push(
+				`${path} should have at least ${schema.minLength} characters`,
+			);
+		}
+		if (
+			typeof schema.maxLength === 'number' &&
+			value.length > schema.maxLength
+		) {
+			errors.push(`${path} should have at most ${schema.maxLength} characters`);
+		}
+	}
+
+	if (typeof value === 'number') {
+		if (typeof schema.minimum === 'number' && value < schema.minimum) {
+			errors.push(`${path} should be >= ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === 'number' && value > schema.maximum) {
+			errors.push(`${path} should be <= ${schema.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+			errors.push(`${path} should have at least ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+			errors.push(`${path} should have at most ${schema.maxItems} items`);
+		}
+		if (typeof schema.items === 'object' && schema.items !== null) {
+			value.forEach((item, index) => {
+				errors.push(
+					...validateJsonSchema(
+						item,
+						schema.items as JsonSchema,
+						`${path}[${index}]`,
+					),
+				);
+			});
+		}
+	}
+
+	if (typeOf(value) === 'object') {
+		const record = value as Record<string, unknown>;
+		const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+		if (Array.isArray(schema.required)) {
+			for (const key of schema.required as string[]) {
+				if (!(key in record)) {
+					errors.push(`${path}.${key} is required`);
+				}
+			}
+		}
+
+		for (const [key, propertyValue] of Object.entries(record)) {
+			if (properties[key]) {
+				errors.push(
+					...validateJsonSchema(
+						propertyValue,
+						properties[key],
+						`${path}.${key}`,
+					),
+				);
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key} is not allowed`);
+			} else if (
+				typeof schema.additionalProperties === 'object' &&
+				schema.additionalProperties !== null
+			) {
+				errors.push(
+					...validateJsonSchema(
+						propertyValue,
+						schema.additionalProperties as JsonSchema,
+						`${path}.${key}`,
+					),
+				);
+			}
+		}
+	}
+
+	return errors;
+}
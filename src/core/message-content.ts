@@ -0,0 +1,113 @@
+import {existsSync, readFileSync} from 'fs';
+import {basename, extname} from 'path';
+import {
+	ChatMessage,
+	FilePart,
+	ImagePart,
+	MessageContent,
+	TextPart,
+} from './ai-provider.js';
+import {InvalidRequestError} from './errors.js';
+
+// Helpers for multimodal message content: reading the text out of a message
+// and loading image and file parts.
+
+/**
+ * Returns the text of a message, joining text parts and skipping attachments.
+ */
+export function getTextContent(content: MessageContent): string {
+	if (typeof content === 'string') {
+		return content;
+	}
+	return content
+		.filter((part): part is TextPart => part.type === 'text')
+		.map(part => part.text)
+		.join('\n');
+}
+
+/**
+ * Returns the image and file parts of a message.
+ */
+export function getAttachments(
+	content: MessageContent,
+): Array<ImagePart | FilePart> {
+	return typeof content === 'string'
+		? []
+		: content.filter(
+				(part): part is ImagePart | FilePart => part.type !== 'text',
+		  );
+}
+
+export function hasAttachments(messages: ChatMessage[]): boolean {
+	return messages.some(message => getAttachments(message.content).length > 0);
+}
+
+const MIME_TYPES: Record<string, string> = {
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.heic': 'image/heic',
+	'.heif': 'image/heif',
+	'.pdf': 'application/pdf',
+};
+
+/**
+ * An attachment ready to send inline: base64 data and its MIME type.
+ */
+export interface LoadedAttachment {
+	mimeType: string;
+	data: string;
+	filename?: string;
+}
+
+/**
+ * Reads an image or file part into base64 data. Local files are read
+ * synchronously, as the request translation that calls this is synchronous.
+ * @param part The part to load
+ * @param provider Provider name for the error raised on unusable sources
+ * @throws InvalidRequestError if the source cannot be read or its type is unknown
+ */
+export function loadAttachment(
+	part: ImagePart | FilePart,
+	provider: string,
+): LoadedAttachment {
+	const filename = part.type === 'file' ? part.filename : undefined;
+
+	const dataUrl = /^data:([^;,]+);base64,([\s\S]*)$/.exec(part.source);
+	if (dataUrl) {
+		return {mimeType: part.mimeType ?? dataUrl[1], data: dataUrl[2], filename};
+	}
+
+	if (existsSync(part.source)) {
+		const mimeType =
+			part.mimeType ?? MIME_TYPES[extname(part.source).toLowerCase()];
+		if (!mimeType) {
+			throw new InvalidRequestError(
+				`Unknown file type for "${part.source}"; set \`mimeType\` on the ${part.type} part.`,
+				{provider},
+			);
+		}
+		return {
+			mimeType,
+			data: readFileSync(part.source).toString('base64'),
+			filename: filename ?? basename(part.source),
+		};
+	}
+
+	if (!part.mimeType) {
+		throw new InvalidRequestError(
+			`The ${part.type} part is neither a readable file nor a data URL. Base64 data needs a \`mimeType\`.`,
+			{provider},
+		);
+	}
+	return {mimeType: part.mimeType, data: part.source, filename};
+}
+
+/**
+ * Formats a loaded attachment as a data URL.
+ */
+export function toDataURL(attachment: LoadedAttachment): string {
+	return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
@@ -0,0 +1,193 @@
+import {describe, expect, it} from 'vitest';
+import {ChatRequest, ChatStreamEvent} from './ai-provider.js';
+import {RequestCancelledError, UpstreamUnavailableError} from './errors.js';
+import {CallContext, ProviderMiddleware, withMiddleware} from './middleware.js';
+import {MockProvider} from './mock-provider.js';
+
+const REQUEST: ChatRequest = {messages: [{role: 'user', content: 'Hi'}]};
+
+const outage = () =>
+	new UpstreamUnavailableError('Service unavailable', {
+		provider: 'Mock',
+		status: 503,
+	});
+
+// Records the hooks it sees as `<name>.<hook>`
+function recorder(name: string, calls: string[]): ProviderMiddleware {
+	return {
+		before() {
+			calls.push(`${name}.before`);
+		},
+		after() {
+			calls.push(`${name}.after`);
+		},
+		onError() {
+			calls.push(`${name}.onError`);
+		},
+	};
+}
+
+async function collect(stream: AsyncGenerator<ChatStreamEvent>) {
+	const events: ChatStreamEvent[] = [];
+	for await (const event of stream) {
+		events.push(event);
+	}
+	return events;
+}
+
+describe('withMiddleware', () => {
+	it('returns the provider unchanged without middleware', () => {
+		const provider = new MockProvider({content: 'Hello'});
+
+		expect(withMiddleware(provider, [])).toBe(provider);
+	});
+
+	it('runs before hooks in order and after hooks in reverse', async () => {
+		const calls: string[] = [];
+		const provider = withMiddleware(new MockProvider({content: 'Hello'}), [
+			recorder('outer', calls),
+			recorder('inner', calls),
+		]);
+
+		await provider.createChatCompletion(REQUEST);
+
+		expect(calls).toEqual([
+			'outer.before',
+			'inner.before',
+			'inner.after',
+			'outer.after',
+		]);
+	});
+
+	it('lets hooks replace the request and the response', async () => {
+		const mock = new MockProvider({content: 'Hello'}, {defaultModel: 'small'});
+		const contexts: CallContext[] = [];
+		const provider = withMiddleware(mock, [
+			{
+				before: context => ({...context.request, model: 'large'}),
+				after: (context, response) => {
+					contexts.push(context);
+					return {...response, content: response.content.toUpperCase()};
+				},
+			},
+		]);
+
+		const response = await provider.createChatCompletion(REQUEST);
+
+		expect(mock.requests[0].model).toBe('large');
+		expect(contexts[0].model).toBe('large');
+		expect(response.content).toBe('HELLO');
+	});
+
+	it('passes failures through onError, which may recover', async () => {
+		const calls: string[] = [];
+		const provider = withMiddleware(new MockProvider({error: outage()}), [
+			recorder('outer', calls),
+			{
+				onError: () => ({
+					content: 'Recovered',
+					metadata: {model: 'mock-model', latencyMs: 0},
+				}),
+			},
+		]);
+
+		const response = await provider.createChatCompletion(REQUEST);
+
+		expect(response.content).toBe('Recovered');
+		// The outer middleware sees the recovered response, not the error
+		expect(calls).toEqual(['outer.before', 'outer.after']);
+	});
+
+	it('settles a failing before hook with the middleware that already ran', async () => {
+		const calls: string[] = [];
+		const mock = new MockProvider({content: 'Hello'});
+		const provider = withMiddleware(mock, [
+			recorder('outer', calls),
+			{
+				before() {
+					throw new Error('Rejected');
+				},
+			},
+			recorder('inner', calls),
+		]);
+
+		await expect(provider.createChatCompletion(REQUEST)).rejects.toThrow(
+			'Rejected',
+		);
+		expect(calls).toEqual(['outer.before', 'outer.onError']);
+		expect(mock.requests).toHaveLength(0);
+	});
+
+	it('shares the trace id it is given and creates a span per call', async () => {
+		const contexts: CallContext[] = [];
+		const traceId = 'a'.repeat(32);
+		const provider = withMiddleware(
+			new MockProvider({content: 'Hello'}, {repeatLast: true}),
+			[{before: context => void contexts.push(context)}],
+			{traceId},
+		);
+
+		await provider.createChatCompletion(REQUEST);
+		await provider.createChatCompletion(REQUEST);
+
+		expect(contexts.map(context => context.traceId)).toEqual([
+			traceId,
+			traceId,
+		]);
+		expect(contexts[0].spanId).toMatch(/^[0-9a-f]{16}$/);
+		expect(contexts[0].spanId).not.toBe(contexts[1].spanId);
+	});
+});
+
+describe('withMiddleware streams', () => {
+	it('shows after hooks the assembled response', async () => {
+		const seen: string[] = [];
+		const contexts: CallContext[] = [];
+		const provider = withMiddleware(new MockProvider({chunks: ['Hel', 'lo']}), [
+			{
+				after(context, response) {
+					contexts.push(context);
+					seen.push(response.content);
+				},
+			},
+		]);
+
+		const events = await collect(provider.createChatCompletionStream(REQUEST));
+
+		expect(events.map(event => event.type)).toEqual(['delta', 'delta', 'done']);
+		expect(seen).toEqual(['Hello']);
+		expect(contexts[0].stream).toBe(true);
+		expect(contexts[0].timeToFirstTokenMs).toBeDefined();
+	});
+
+	it('replays a recovered response when nothing was streamed yet', async () => {
+		const provider = withMiddleware(new MockProvider({error: outage()}), [
+			{
+				onError: () => ({
+					content: 'Recovered',
+					metadata: {model: 'mock-model', latencyMs: 0},
+				}),
+			},
+		]);
+
+		const events = await collect(provider.createChatCompletionStream(REQUEST));
+
+		expect(events[0]).toEqual({type: 'delta', content: 'Recovered'});
+		expect(events.at(-1)?.type).toBe('done');
+	});
+
+	it('reports a stream closed early as cancelled', async () => {
+		const errors: unknown[] = [];
+		const provider = withMiddleware(new MockProvider({chunks: ['Hel', 'lo']}), [
+			{onError: (_, error) => void errors.push(error)},
+		]);
+
+		for await (const event of provider.createChatCompletionStream(REQUEST)) {
+			expect(event.type).toBe('delta');
+			break;
+		}
+
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toBeInstanceOf(RequestCancelledError);
+	});
+});
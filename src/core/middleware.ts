@@ -0,0 +1,286 @@
+import {randomBytes} from 'crypto';
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+	ProviderInfo,
+	ToolCall,
+} from './ai-provider.js';
+import {embedTexts} from './embeddings.js';
+import {RequestCancelledError} from './errors.js';
+import {listProviderModels} from './model-catalog.js';
+
+// Architectural Pattern: Pipeline - Middleware hooks run around every chat
+// call of a provider, so logging, tracing and request rewriting live outside
+// the providers and apps.
+
+/**
+ * What middleware knows about the call in progress.
+ */
+export interface CallContext {
+	/** W3C trace id (32 hex digits), shared by calls of one trace */
+	readonly traceId: string;
+	/** W3C span id (16 hex digits), unique per call */
+	readonly spanId: string;
+	readonly stream: boolean;
+	/** Name of the wrapped provider */
+	readonly provider: string;
+	/** The request; `before` hooks may replace it */
+	request: ChatRequest;
+	/** The requested model, or the provider's default */
+	model: string;
+	/** Epoch milliseconds when the call started */
+	readonly startTime: number;
+	/** Set on the first streamed delta or tool call */
+	timeToFirstTokenMs?: number;
+	/** Scratch space for middleware to keep values between its hooks */
+	readonly state: Record<string, unknown>;
+}
+
+/**
+ * Hooks around a provider call. `before` hooks run in order, `after` and
+ * `onError` in reverse order, so the first middleware sees the call first
+ * and its outcome last.
+ */
+export interface ProviderMiddleware {
+	/** Runs before the call; may return a replacement request */
+	before?(
+		context: CallContext,
+	): ChatRequest | void | Promise<ChatRequest | void>;
+	/**
+	 * Runs after a successful call; may return a replacement response. For
+	 * streams it sees the assembled response once the stream is done, when
+	 * only changes to the metadata still reach the caller.
+	 */
+	after?(
+		context: CallContext,
+		response: ChatResponse,
+	): ChatResponse | void | Promise<ChatResponse | void>;
+	/**
+	 * Runs when the call or an inner hook failed; may return a response to
+	 * recover with, or throw to replace the error. Streams only recover if
+	 * nothing was streamed yet.
+	 */
+	onError?(
+		context: CallContext,
+		error: unknown,
+	): ChatResponse | void | Promise<ChatResponse | void>;
+}
+
+export interface MiddlewareOptions {
+	/** Puts every call into this trace instead of starting one per call */
+	traceId?: string;
+}
+
+type Outcome = {response: ChatResponse} | {error: unknown};
+
+/** Creates a random W3C trace id */
+export function newTraceId(): string {
+	return randomBytes(16).toString('hex');
+}
+
+/** Creates a random W3C span id */
+export function newSpanId(): string {
+	return randomBytes(8).toString('hex');
+}
+
+// Replays a response as the events of a stream
+function* toStreamEvents(response: ChatResponse): Generator<ChatStreamEvent> {
+	if (response.content) {
+		yield {type: 'delta', content: response.content};
+	}
+	for (const toolCall of response.toolCalls ?? []) {
+		yield {type: 'tool_call', toolCall};
+	}
+	yield {type: 'done', metadata: response.metadata};
+}
+
+/**
+ * An AIProvider that runs middleware around chat calls. Embeddings and
+ * model listing are delegated without hooks.
+ */
+export class MiddlewareProvider implements AIProvider {
+	constructor(
+		private provider: AIProvider,
+		private middleware: ProviderMiddleware[],
+		private options: MiddlewareOptions = {},
+	) {}
+
+	private createContext(request: ChatRequest, stream: boolean): CallContext {
+		const info = this.provider.getProviderInfo();
+		return {
+			traceId: this.options.traceId ?? newTraceId(),
+			spanId: newSpanId(),
+			stream,
+			provider: info.name,
+			request,
+			model: request.model ?? info.defaultModel,
+			startTime: Date.now(),
+			state: {},
+		};
+	}
+
+	// Passes the outcome outwards through the `after` and `onError` hooks of
+	// the first `entered` middleware
+	private async settle(
+		context: CallContext,
+		entered: number,
+		outcome: Outcome,
+	): Promise<ChatResponse> {
+		for (let index = entered - 1; index >= 0; index--) {
+			const middleware = this.middleware[index];
+			try {
+				if ('response' in outcome) {
+					const response = await middleware.after?.(context, outcome.response);
+					if (response) {
+						outcome = {response};
+					}
+				} else {
+					const response = await middleware.onError?.(context, outcome.error);
+					if (response) {
+						outcome = {response};
+					}
+				}
+			} catch (error) {
+				outcome = {error};
+			}
+		}
+		if ('error' in outcome) {
+			throw outcome.error;
+		}
+		return outcome.response;
+	}
+
+	// Runs the `before` hooks. When one fails, the middleware that already ran
+	// settle the call, and a response they recover with is returned.
+	private async start(context: CallContext): Promise<ChatResponse | undefined> {
+		for (const [index, middleware] of this.middleware.entries()) {
+			let request: ChatRequest | void;
+			try {
+				request = await middleware.before?.(context);
+			} catch (error) {
+				return this.settle(context, index, {error});
+			}
+			if (request) {
+				context.request = request;
+				context.model = request.model ?? context.model;
+			}
+		}
+		return undefined;
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		const context = this.createContext(request, false);
+		const recovered = await this.start(context);
+		if (recovered) {
+			return recovered;
+		}
+		let outcome: Outcome;
+		try {
+			outcome = {
+				response: await this.provider.createChatCompletion(context.request),
+			};
+		} catch (error) {
+			outcome = {error};
+		}
+		return this.settle(context, this.middleware.length, outcome);
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		const context = this.createContext(request, true);
+		const recovered = await this.start(context);
+		if (recovered) {
+			yield* toStreamEvents(recovered);
+			return;
+		}
+
+		let content = '';
+		const toolCalls: ToolCall[] = [];
+		let streamed = false;
+		let settled = false;
+		try {
+			for await (const event of this.provider.createChatCompletionStream(
+				context.request,
+			)) {
+				if (event.type === 'done') {
+					settled = true;
+					const response = await this.settle(context, this.middleware.length, {
+						response: {
+							content,
+							toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+							metadata: event.metadata,
+						},
+					});
+					yield {type: 'done', metadata: response.metadata};
+					return;
+				}
+				context.timeToFirstTokenMs ??= Date.now() - context.startTime;
+				if (event.type === 'delta') {
+					content += event.content;
+				} else {
+					toolCalls.push(event.toolCall);
+				}
+				streamed = true;
+				yield event;
+			}
+		} catch (error) {
+			if (settled) {
+				throw error;
+			}
+			settled = true;
+			const response = await this.settle(context, this.middleware.length, {
+				error,
+			});
+			if (streamed) {
+				// Part of the answer is out already; it cannot be replaced
+				throw error;
+			}
+			yield* toStreamEvents(response);
+		} finally {
+			// The caller stopped reading before the stream completed
+			if (!settled) {
+				await this.settle(context, this.middleware.length, {
+					error: new RequestCancelledError(
+						'The stream was closed before it completed.',
+						{provider: context.provider, model: context.model},
+					),
+				}).catch(() => {});
+			}
+		}
+	}
+
+	createEmbeddings(
+		texts: string[],
+		options?: EmbeddingOptions,
+	): Promise<EmbeddingResponse> {
+		return embedTexts(this.provider, texts, options);
+	}
+
+	listModels(): Promise<ModelDescriptor[]> {
+		return listProviderModels(this.provider);
+	}
+
+	getProviderInfo(): ProviderInfo {
+		return this.provider.getProviderInfo();
+	}
+}
+
+/**
+ * Wraps a provider so its chat calls run through the middleware.
+ * Returns the provider unchanged when there is none.
+ */
+export function withMiddleware(
+	provider: AIProvider,
+	middleware: ProviderMiddleware[],
+	options: MiddlewareOptions = {},
+): AIProvider {
+	return middleware.length === 0
+		? provider
+		: new MiddlewareProvider(provider, middleware, options);
+}
@@ -0,0 +1,189 @@
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	FinishReason,
+	ProviderInfo,
+	TokenUsage,
+	ToolCall,
+} from './ai-provider.js';
+import {toProviderError, UnsupportedCapabilityError} from './errors.js';
+import {normalizeVector} from './embeddings.js';
+
+// Architectural Pattern: Test Double - A scriptable AIProvider for running
+// mini-apps and core helpers without network access or API keys.
+
+/**
+ * One scripted reply. `chunks` controls how the content is split when
+ * streamed (default: a single chunk). When `error` is set the call throws it;
+ * a stream yields the given chunks first, simulating a failure mid-stream.
+ */
+export interface MockStep {
+	content?: string;
+	chunks?: string[];
+	toolCalls?: ToolCall[];
+	usage?: TokenUsage;
+	finishReason?: FinishReason;
+	model?: string;
+	latencyMs?: number;
+	error?: unknown;
+}
+
+/** A fixed step, or a function computing the step from the request */
+export type MockResponder =
+	| MockStep
+	| ((request: ChatRequest, callIndex: number) => MockStep | Promise<MockStep>);
+
+export interface MockProviderOptions {
+	name?: string;
+	defaultModel?: string;
+	/** Keep answering with the last step once the script is used up */
+	repeatLast?: boolean;
+	/** Computes the vector for a text; enables createEmbeddings() */
+	embed?: (text: string) => number[];
+}
+
+/**
+ * An AIProvider that answers from a script instead of a model. Every request
+ * is recorded in `requests` so callers can assert on what was sent.
+ */
+export class MockProvider implements AIProvider {
+	readonly requests: ChatRequest[] = [];
+	private script: MockResponder[];
+	private name: string;
+	private defaultModel: string;
+	private repeatLast: boolean;
+	private embed?: (text: string) => number[];
+
+	constructor(
+		script: MockResponder | MockResponder[] = [],
+		options: MockProviderOptions = {},
+	) {
+		this.script = Array.isArray(script) ? [...script] : [script];
+		this.name = options.name ?? 'Mock';
+		this.defaultModel = options.defaultModel ?? 'mock-model';
+		// A single responder answers every call unless told otherwise
+		this.repeatLast = options.repeatLast ?? !Array.isArray(script);
+		this.embed = options.embed;
+	}
+
+	/**
+	 * Appends steps to the script.
+	 */
+	enqueue(...steps: MockResponder[]): this {
+		this.script.push(...steps);
+		return this;
+	}
+
+	// Mirrors the real providers: an aborted signal surfaces as a typed error
+	private throwIfAborted(request: ChatRequest): void {
+		if (request.signal?.aborted) {
+			throw toProviderError(request.signal.reason, {
+				provider: this.name,
+				signal: request.signal,
+			});
+		}
+	}
+
+	private async nextStep(request: ChatRequest): Promise<MockStep> {
+		this.throwIfAborted(request);
+		const callIndex = this.requests.length;
+		this.requests.push(request);
+		const responder =
+			this.script.length > 1 || !this.repeatLast
+				? this.script.shift()
+				: this.script[0];
+		if (!responder) {
+			throw new Error(
+				`MockProvider: no scripted response left for call ${callIndex + 1}.`,
+			);
+		}
+		return typeof responder === 'function'
+			? responder(request, callIndex)
+			: responder;
+	}
+
+	private toResponse(step: MockStep, request: ChatRequest): ChatResponse {
+		const content = step.content ?? step.chunks?.join('') ?? '';
+		return {
+			content,
+			toolCalls: step.toolCalls,
+			metadata: {
+				model: step.model ?? request.model ?? this.defaultModel,
+				usage: step.usage,
+				latencyMs: step.latencyMs ?? 0,
+				finishReason:
+					step.finishReason ?? (step.toolCalls?.length ? 'tool_calls' : 'stop'),
+			},
+		};
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		const step = await this.nextStep(request);
+		if (step.error !== undefined) {
+			throw step.error;
+		}
+		return this.toResponse(step, request);
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		const step = await this.nextStep(request);
+		const chunks =
+			step.chunks ??
+			(step.content && step.error === undefined ? [step.content] : []);
+		for (const chunk of chunks) {
+			this.throwIfAborted(request);
+			yield {type: 'delta', content: chunk};
+		}
+		if (step.error !== undefined) {
+			throw step.error;
+		}
+		for (const toolCall of step.toolCalls ?? []) {
+			yield {type: 'tool_call', toolCall};
+		}
+		const {metadata} = this.toResponse(step, request);
+		yield {
+			type: 'done',
+			metadata: {
+				...metadata,
+				timeToFirstTokenMs: chunks.length ? 0 : undefined,
+			},
+		};
+	}
+
+	async createEmbeddings(
+		texts: string[],
+		options: EmbeddingOptions = {},
+	): Promise<EmbeddingResponse> {
+		const embed = this.embed;
+		if (!embed) {
+			throw new UnsupportedCapabilityError(
+				'MockProvider: pass an `embed` option to support embeddings.',
+				{provider: this.name, capability: 'embeddings'},
+			);
+		}
+		const embeddings = texts.map(text => normalizeVector(embed(text)));
+		return {
+			embeddings,
+			model: options.model ?? 'mock-embedding',
+			dimensions: embeddings[0]?.length ?? 0,
+			latencyMs: 0,
+			batches: 1,
+		};
+	}
+
+	getProviderInfo(): ProviderInfo {
+		return {
+			name: this.name,
+			version: '1.0.0',
+			defaultModel: this.defaultModel,
+			supportedModels: [this.defaultModel],
+			capabilities: {embeddings: this.embed !== undefined},
+		};
+	}
+}
@@ -0,0 +1,152 @@
+import {describe, expect, it} from 'vitest';
+import {ChatRequest} from './ai-provider.js';
+import {InvalidRequestError, UnsupportedCapabilityError} from './errors.js';
+import {
+	findModelDescriptor,
+	findModelProvider,
+	getModelDescriptor,
+	registerModel,
+	updateModel,
+} from './model-catalog.js';
+import {validateChatRequest, validateEmbeddingModel} from './request-utils.js';
+
+const REQUEST: ChatRequest = {messages: [{role: 'user', content: 'Hi'}]};
+
+describe('getModelDescriptor', () => {
+	it.each([
+		['gpt-4o-mini', 'gpt-4o-mini'],
+		['gpt-4o-mini-2024-07-18', 'gpt-4o-mini'],
+		['gpt-4o-2024-08-06', 'gpt-4o'],
+		['gpt-4-0613', 'gpt-4'],
+		['gpt-4.1-mini-2025-04-14', 'gpt-4.1-mini'],
+		['o1-mini-2024-09-12', 'o1-mini'],
+		['o1-2024-12-17', 'o1'],
+	])('matches %s to the entry %s', (model, entry) => {
+		expect(getModelDescriptor('OpenAI', model)).toEqual({
+			...getModelDescriptor('openai', entry),
+			id: model,
+		});
+	});
+
+	it("only matches prefixes at a '-' boundary", () => {
+		// 'gpt-4' covers 'gpt-4-0613' but neither 'gpt-4.5' nor 'gpt-4o'
+		expect(getModelDescriptor('openai', 'gpt-4.5-preview')).toBeUndefined();
+		expect(getModelDescriptor('openai', 'o1x')).toBeUndefined();
+		expect(getModelDescriptor('openai', 'gpt-4o')?.contextWindow).toBe(128_000);
+	});
+
+	it('falls back to catch-all entries', () => {
+		expect(getModelDescriptor('local', 'llama3.2')).toMatchObject({
+			id: 'llama3.2',
+			pricing: {inputPerMillion: 0, outputPerMillion: 0},
+		});
+	});
+});
+
+describe('findModelDescriptor and findModelProvider', () => {
+	it('find the most specific entry across providers', () => {
+		expect(findModelProvider('gemini-1.5-pro-002')).toBe('gemini');
+		expect(findModelProvider('deepseek-chat')).toBe('deepseek');
+		expect(findModelDescriptor('o3-mini-2025-01-31')?.maxOutputTokens).toBe(
+			100_000,
+		);
+	});
+
+	it('skip catch-all entries', () => {
+		expect(findModelProvider('llama3.2')).toBeUndefined();
+		expect(findModelDescriptor('llama3.2')).toBeUndefined();
+	});
+});
+
+describe('updateModel', () => {
+	it('starts a new entry from the family it falls under', () => {
+		registerModel('CatalogTest', {
+			id: 'family',
+			contextWindow: 1_000,
+			capabilities: {chat: true, tools: true},
+		});
+
+		updateModel('CatalogTest', 'family-2', {capabilities: {tools: false}});
+
+		expect(getModelDescriptor('catalogtest', 'family-2-beta')).toEqual({
+			id: 'family-2-beta',
+			contextWindow: 1_000,
+			capabilities: {chat: true, tools: false},
+		});
+		expect(
+			getModelDescriptor('catalogtest', 'family')?.capabilities.tools,
+		).toBe(true);
+	});
+});
+
+describe('validateChatRequest', () => {
+	const tools: ChatRequest['tools'] = [
+		{name: 'get_weather', parameters: {type: 'object', properties: {}}},
+	];
+
+	it.each<[string, string, ChatRequest, boolean]>([
+		['tools', 'o1-mini', {...REQUEST, tools}, false],
+		[
+			'JSON output',
+			'o1-preview',
+			{...REQUEST, responseFormat: {type: 'json_object'}},
+			false,
+		],
+		['streaming', 'o1-mini-2024-09-12', REQUEST, true],
+		['tools', 'deepseek-reasoner', {...REQUEST, tools}, false],
+		[
+			'images or files',
+			'gpt-3.5-turbo',
+			{
+				messages: [
+					{
+						role: 'user',
+						content: [
+							{type: 'image', source: 'data:image/png;base64,iVBORw0KGgo='},
+						],
+					},
+				],
+			},
+			false,
+		],
+	])('rejects %s for %s', (label, model, request, stream) => {
+		const provider = model.startsWith('deepseek') ? 'DeepSeek' : 'OpenAI';
+		const validate = () =>
+			validateChatRequest(provider, model, request, stream);
+
+		expect(validate).toThrow(UnsupportedCapabilityError);
+		expect(validate).toThrow(
+			`${provider} model "${model}" does not support ${label}.`,
+		);
+	});
+
+	it('passes what the model supports and models it does not know', () => {
+		expect(() =>
+			validateChatRequest('OpenAI', 'gpt-4o-mini', {...REQUEST, tools}, true),
+		).not.toThrow();
+		expect(() =>
+			validateChatRequest('OpenAI', 'o1-mini', REQUEST),
+		).not.toThrow();
+		expect(() =>
+			validateChatRequest('OpenAI', 'unknown-model', {...REQUEST, tools}, true),
+		).not.toThrow();
+	});
+
+	it("rejects maxTokens above the model's output limit", () => {
+		expect(() =>
+			validateChatRequest('OpenAI', 'gpt-4-turbo', {
+				...REQUEST,
+				maxTokens: 5_000,
+			}),
+		).toThrow(InvalidRequestError);
+	});
+
+	it('rejects embeddings with chat models', () => {
+		expect(() => validateEmbeddingModel('OpenAI', 'gpt-4o')).toThrow(
+			UnsupportedCapabilityError,
+		);
+		expect(() =>
+			validateEmbeddingModel('OpenAI', 'text-embedding-3-small'),
+		).not.toThrow();
+	});
+});
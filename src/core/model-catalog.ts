@@ -0,0 +1,247 @@
+import {AIProvider, ModelCapabilities, ModelDescriptor} from './ai-provider.js';
+
+// Architectural Pattern: Registry - One table describes every known model:
+// context window, output limit, capabilities and pricing. Cost tracking,
+// context trimming and request validation all read from it.
+
+// Models are matched by their id or by the longest id followed by '-', so
+// 'gpt-4o-mini' also covers dated snapshots such as 'gpt-4o-mini-2024-07-18'
+// while 'gpt-4' does not cover 'gpt-4.5'. Variants with different limits,
+// such as 'o1-mini', need entries of their own. An empty id matches every
+// model of a provider.
+
+function chatModel(
+	id: string,
+	contextWindow: number,
+	maxOutputTokens: number,
+	[inputPerMillion, outputPerMillion]: [number, number],
+	capabilities: ModelCapabilities = {},
+): ModelDescriptor {
+	return {
+		id,
+		contextWindow,
+		maxOutputTokens,
+		capabilities: {
+			chat: true,
+			streaming: true,
+			jsonMode: true,
+			tools: true,
+			vision: false,
+			embeddings: false,
+			...capabilities,
+		},
+		pricing: {inputPerMillion, outputPerMillion},
+	};
+}
+
+function embeddingModel(
+	id: string,
+	contextWindow: number,
+	inputPerMillion: number,
+): ModelDescriptor {
+	return {
+		id,
+		contextWindow,
+		capabilities: {chat: false, embeddings: true},
+		pricing: {inputPerMillion, outputPerMillion: 0},
+	};
+}
+
+const catalog: Record<string, Record<string, ModelDescriptor>> = {};
+
+function addModels(provider: string, models: ModelDescriptor[]): void {
+	for (const model of models) {
+		registerModel(provider, model);
+	}
+}
+
+addModels('openai', [
+	chatModel('gpt-4o-mini', 128_000, 16_384, [0.15, 0.6], {vision: true}),
+	chatModel('gpt-4o', 128_000, 16_384, [2.5, 10], {vision: true}),
+	chatModel('gpt-4.1', 1_047_576, 32_768, [2, 8], {vision: true}),
+	chatModel('gpt-4.1-mini', 1_047_576, 32_768, [0.4, 1.6], {vision: true}),
+	chatModel('gpt-4-turbo', 128_000, 4_096, [10, 30], {vision: true}),
+	chatModel('gpt-4', 8_192, 8_192, [30, 60], {jsonMode: false}),
+	chatModel('gpt-3.5-turbo', 16_385, 4_096, [0.5, 1.5]),
+	chatModel('o1', 200_000, 100_000, [15, 60], {vision: true}),
+	// The o1 previews launched without tools, JSON mode or streaming
+	chatModel('o1-mini', 128_000, 65_536, [1.1, 4.4], {
+		streaming: false,
+		jsonMode: false,
+		tools: false,
+	}),
+	chatModel('o1-preview', 128_000, 32_768, [15, 60], {
+		streaming: false,
+		jsonMode: false,
+		tools: false,
+	}),
+	chatModel('o3', 200_000, 100_000, [2, 8], {vision: true}),
+	chatModel('o3-mini', 200_000, 100_000, [1.1, 4.4]),
+	chatModel('o4-mini', 200_000, 100_000, [1.1, 4.4], {vision: true}),
+	embeddingModel('text-embedding-3-small', 8_191, 0.02),
+	embeddingModel('text-embedding-3-large', 8_191, 0.13),
+]);
+addModels('deepseek', [
+	chatModel('deepseek-chat', 64_000, 8_192, [0.27, 1.1]),
+	chatModel('deepseek-reasoner', 64_000, 32_768, [0.55, 2.19], {
+		jsonMode: false,
+		tools: false,
+	}),
+]);
+addModels('gemini', [
+	chatModel('gemini-1.5-flash', 1_048_576, 8_192, [0.075, 0.3], {vision: true}),
+	chatModel('gemini-1.5-pro', 2_097_152, 8_192, [1.25, 5], {vision: true}),
+	chatModel('gemini-2.0-flash', 1_048_576, 8_192, [0.1, 0.4], {vision: true}),
+	embeddingModel('text-embedding-004', 2_048, 0),
+]);
+// Self-hosted models cost nothing per token; their capabilities are unknown
+addModels('local', [
+	{
+		id: '',
+		capabilities: {},
+		pricing: {inputPerMillion: 0, outputPerMillion: 0},
+	},
+]);
+
+/**
+ * Adds or replaces a catalogue entry.
+ * @param provider Provider name as reported by getProviderInfo() (case-insensitive)
+ * @param descriptor The model; its id also covers models named `<id>-...`
+ */
+export function registerModel(
+	provider: string,
+	descriptor: ModelDescriptor,
+): void {
+	const key = provider.toLowerCase();
+	catalog[key] = {...catalog[key], [descriptor.id]: descriptor};
+}
+
+/**
+ * Changes some fields of a model's entry. A model without its own entry
+ * starts from the entry its id falls under, so e.g. pricing a dated snapshot
+ * keeps the context window of its family.
+ */
+export function updateModel(
+	provider: string,
+	model: string,
+	changes: Partial<Omit<ModelDescriptor, 'id'>>,
+): void {
+	const current = getModelDescriptor(provider, model) ?? {
+		id: model,
+		capabilities: {},
+	};
+	registerModel(provider, {
+		...current,
+		...changes,
+		id: model,
+		capabilities: {...current.capabilities, ...changes.capabilities},
+	});
+}
+
+function findEntry(
+	models: Record<string, ModelDescriptor>,
+	model: string,
+): ModelDescriptor | undefined {
+	const match = Object.keys(models)
+		.filter(id => id === '' || model === id || model.startsWith(`${id}-`))
+		.sort((a, b) => b.length - a.length)[0];
+	return match === undefined ? undefined : models[match];
+}
+
+/**
+ * Looks up a model of a provider.
+ * @returns The entry, with `id` set to the requested model, or undefined
+ */
+export function getModelDescriptor(
+	provider: string,
+	model: string,
+): ModelDescriptor | undefined {
+	const entry = findEntry(catalog[provider.toLowerCase()] ?? {}, model);
+	return entry && {...entry, id: model};
+}
+
+/**
+ * Looks up a model by name alone, for callers that do not know the provider.
+ * Catch-all entries (empty ids) are skipped.
+ */
+export function findModelDescriptor(
+	model: string,
+): ModelDescriptor | undefined {
+	const entries = Object.values(catalog)
+		.map(models => findEntry(models, model))
+		.filter(
+			(entry): entry is ModelDescriptor =>
+				entry !== undefined && entry.id !== '',
+		)
+		.sort((a, b) => b.id.length - a.id.length);
+	return entries[0] && {...entries[0], id: model};
+}
+
+/**
+ * Names the provider whose catalogue covers a model most specifically, e.g.
+ * 'gemini' for 'gemini-1.5-pro-002'. Catch-all entries are skipped.
+ * @returns The lower-case provider name, or undefined for unknown models
+ */
+export function findModelProvider(model: string): string | undefined {
+	return Object.keys(catalog)
+		.flatMap(provider => {
+			const entry = findEntry(catalog[provider], model);
+			return entry && entry.id !== '' ? [{provider, id: entry.id}] : [];
+		})
+		.sort((a, b) => b.id.length - a.id.length)[0]?.provider;
+}
+
+/**
+ * Lists the catalogue entries of a provider, without catch-all entries.
+ */
+export function getCatalogModels(provider: string): ModelDescriptor[] {
+	return Object.values(catalog[provider.toLowerCase()] ?? {}).filter(
+		model => model.id !== '',
+	);
+}
+
+/**
+ * Describes model ids reported by a provider. Ids missing from the catalogue
+ * get a descriptor with unknown capabilities.
+ */
+export function describeModels(
+	provider: string,
+	ids: string[],
+): ModelDescriptor[] {
+	return ids.map(
+		id => getModelDescriptor(provider, id) ?? {id, capabilities: {}},
+	);
+}
+
+/**
+ * Lists a provider's models via listModels() when it has one, otherwise
+ * from getProviderInfo(). Wrappers use this to delegate.
+ */
+export async function listProviderModels(
+	provider: AIProvider,
+): Promise<ModelDescriptor[]> {
+	if (provider.listModels) {
+		return provider.listModels();
+	}
+	const info = provider.getProviderInfo();
+	return info.models ?? describeModels(info.name, info.supportedModels);
+}
+
+/**
+ * Ids of the models with a capability, with `first` leading. Models whose
+ * capability is unknown count as chat models but not as embedding models.
+ */
+export function getModelIds(
+	models: ModelDescriptor[],
+	capability: 'chat' | 'embeddings',
+	first?: string,
+): string[] {
+	const ids = models
+		.filter(model =>
+			capability === 'chat'
+				? model.capabilities.chat !== false
+				: model.capabilities.embeddings === true,
+		)
+		.map(model => model.id);
+	return [...new Set(first === undefined ? ids : [first, ...ids])];
+}
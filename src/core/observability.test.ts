@@ -0,0 +1,130 @@
+import {describe, expect, it} from 'vitest';
+import {ChatRequest} from './ai-provider.js';
+import {RequestCancelledError, UpstreamUnavailableError} from './errors.js';
+import {ProviderMiddleware, withMiddleware} from './middleware.js';
+import {MockProvider} from './mock-provider.js';
+import {
+	CallLogEntry,
+	createIgnoredParamsLogger,
+	createJsonLogger,
+	createObservabilityMiddleware,
+} from './observability.js';
+import {shutdownSpanExporters} from './tracing.js';
+
+const REQUEST: ChatRequest = {messages: [{role: 'user', content: 'Hi'}]};
+
+// Stands in for a provider that dropped parameters it does not support
+const ignoring: ProviderMiddleware = {
+	after: (_, response) => ({
+		...response,
+		metadata: {...response.metadata, ignoredParams: ['seed', 'topK']},
+	}),
+};
+
+describe('createJsonLogger', () => {
+	it('writes one JSON line per call', async () => {
+		const lines: string[] = [];
+		const provider = withMiddleware(
+			new MockProvider(
+				{
+					content: 'Hello',
+					usage: {prompt_tokens: 5, completion_tokens: 2, total_tokens: 7},
+				},
+				{name: 'Mock', defaultModel: 'mock-model'},
+			),
+			[createJsonLogger({write: line => lines.push(line)})],
+		);
+
+		await provider.createChatCompletion(REQUEST);
+
+		expect(lines).toHaveLength(1);
+		const entry: CallLogEntry = JSON.parse(lines[0]);
+		expect(entry).toMatchObject({
+			level: 'info',
+			event: 'ai.call',
+			provider: 'Mock',
+			model: 'mock-model',
+			stream: false,
+			tokens: {prompt: 5, completion: 2, total: 7},
+			outcome: 'success',
+		});
+		expect(entry.traceId).toMatch(/^[0-9a-f]{32}$/);
+		expect(entry.error).toBeUndefined();
+	});
+
+	it.each([
+		[
+			new UpstreamUnavailableError('Service unavailable', {
+				provider: 'Mock',
+				status: 503,
+			}),
+			'error',
+			'error',
+		],
+		[
+			new RequestCancelledError('Cancelled', {provider: 'Mock'}),
+			'info',
+			'cancelled',
+		],
+	])('logs %o with level %s and outcome %s', async (error, level, outcome) => {
+		const lines: string[] = [];
+		const provider = withMiddleware(new MockProvider({error}), [
+			createJsonLogger({write: line => lines.push(line)}),
+		]);
+
+		await expect(provider.createChatCompletion(REQUEST)).rejects.toBe(error);
+
+		expect(JSON.parse(lines[0])).toMatchObject({
+			level,
+			outcome,
+			error: {type: error.name, message: error.message},
+		});
+	});
+});
+
+describe('createIgnoredParamsLogger', () => {
+	it('warns once per call about ignored parameters', async () => {
+		const warnings: string[] = [];
+		const provider = withMiddleware(
+			new MockProvider({content: 'Hello'}, {name: 'Mock'}),
+			[createIgnoredParamsLogger(message => warnings.push(message)), ignoring],
+		);
+
+		await provider.createChatCompletion(REQUEST);
+
+		expect(warnings).toEqual([
+			'Mock: ignored unsupported parameter(s): seed, topK',
+		]);
+	});
+
+	it('stays quiet when every parameter was honoured', async () => {
+		const warnings: string[] = [];
+		const provider = withMiddleware(new MockProvider({content: 'Hello'}), [
+			createIgnoredParamsLogger(message => warnings.push(message)),
+		]);
+
+		await provider.createChatCompletion(REQUEST);
+
+		expect(warnings).toEqual([]);
+	});
+});
+
+describe('createObservabilityMiddleware', () => {
+	it('reports span export failures to the warn sink once', async () => {
+		const warnings: string[] = [];
+		// Nothing listens on port 9 of the loopback interface
+		const provider = withMiddleware(
+			new MockProvider({content: 'Hello'}),
+			createObservabilityMiddleware({}, 'http://127.0.0.1:9', message =>
+				warnings.push(message),
+			),
+		);
+
+		await provider.createChatCompletion(REQUEST);
+		await provider.createChatCompletion(REQUEST);
+		await shutdownSpanExporters();
+
+		expect(warnings).toHaveLength(1);
+		expect(warnings[0]).toMatch(/^Span export failed: /);
+	});
+});
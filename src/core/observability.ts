@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import {ChatResponse} from './ai-provider.js';
+import {RequestCancelledError} from './errors.js';
+import {CallContext, ProviderMiddleware} from './middleware.js';
+import {readEnv} from './provider-config.js';
+import {
+	createTracingMiddleware,
+	DEFAULT_SERVICE_NAME,
+	FileSpanExporter,
+	OtlpHttpSpanExporter,
+	SpanExporter,
+} from './tracing.js';
+
+// Structured logs and traces of provider calls, written to stderr, files or
+// an OpenTelemetry collector instead of mixed into an app's output.
+
+/**
+ * One line of the structured log, written when a call ends.
+ */
+export interface CallLogEntry {
+	timestamp: string;
+	level: 'info' | 'error';
+	event: 'ai.call';
+	traceId: string;
+	spanId: string;
+	provider: string;
+	model: string;
+	stream: boolean;
+	latencyMs: number;
+	timeToFirstTokenMs?: number;
+	tokens?: {prompt?: number; completion?: number; total?: number};
+	costUsd?: number;
+	attempts?: number;
+	cacheHit?: boolean;
+	ignoredParams?: string[];
+	outcome: 'success' | 'error' | 'cancelled';
+	error?: {type: string; message: string};
+}
+
+export interface JsonLoggerOptions {
+	/** Receives each entry as one JSON line (default: stderr) */
+	write?: (line: string) => void;
+}
+
+function toLogEntry(
+	context: CallContext,
+	response?: ChatResponse,
+	error?: unknown,
+): CallLogEntry {
+	const metadata = response?.metadata;
+	const usage = metadata?.usage;
+	const outcome =
+		error === undefined
+			? 'success'
+			: error instanceof RequestCancelledError
+			? 'cancelled'
+			: 'error';
+	return {
+		timestamp: new Date().toISOString(),
+		level: outcome === 'error' ? 'error' : 'info',
+		event: 'ai.call',
+		traceId: context.traceId,
+		spanId: context.spanId,
+		provider: metadata?.provider ?? context.provider,
+		model: metadata?.model ?? context.model,
+		stream: context.stream,
+		latencyMs: Date.now() - context.startTime,
+		timeToFirstTokenMs:
+			metadata?.timeToFirstTokenMs ?? context.timeToFirstTokenMs,
+		tokens: usage && {
+			prompt: usage.prompt_tokens,
+			completion: usage.completion_tokens,
+			total: usage.total_tokens,
+		},
+		costUsd: metadata?.cost?.totalCost,
+		attempts: metadata?.attempts,
+		cacheHit: metadata?.cacheHit,
+		ignoredParams: metadata?.ignoredParams,
+		outcome,
+		error:
+			error === undefined
+				? undefined
+				: {
+						type: error instanceof Error ? error.name : 'Error',
+						message: error instanceof Error ? error.message : String(error),
+				  },
+	};
+}
+
+/**
+ * Middleware that writes one JSON line per call with its trace id, provider,
+ * model, latency, time to first token, tokens and outcome.
+ */
+export function createJsonLogger({
+	write = line => process.stderr.write(line + '\n'),
+}: JsonLoggerOptions = {}): ProviderMiddleware {
+	return {
+		after(context, response) {
+			write(JSON.stringify(toLogEntry(context, response)));
+		},
+		onError(context, error) {
+			write(JSON.stringify(toLogEntry(context, undefined, error)));
+		},
+	};
+}
+
+/**
+ * Middleware that reports request parameters the provider could not honour,
+ * once per call.
+ * @param warn Receives the warning, e.g. console.warn
+ */
+export function createIgnoredParamsLogger(
+	warn: (message: string) => void,
+): ProviderMiddleware {
+	return {
+		after(context, {metadata}) {
+			if (metadata.ignoredParams?.length) {
+				warn(
+					`${
+						metadata.provider ?? context.provider
+					}: ignored unsupported parameter(s): ${metadata.ignoredParams.join(
+						', ',
+					)}`,
+				);
+			}
+		},
+	};
+}
+
+/**
+ * The `observability` section of the config file.
+ */
+export interface ObservabilityConfig {
+	/** Structured JSON log of every call: true for stderr, or a file path */
+	log?: boolean | string;
+	/** Spans in OTLP/JSON format */
+	traces?: {
+		/** File to append spans to */
+		file?: string;
+		/** Collector URL; defaults to `OTEL_EXPORTER_OTLP_ENDPOINT` */
+		endpoint?: string;
+		headers?: Record<string, string>;
+		/** Defaults to `OTEL_SERVICE_NAME`, then `ai-providers` */
+		serviceName?: string;
+	};
+}
+
+// Appends to the file, creating its directory first
+function appendTo(filePath: string): (line: string) => void {
+	fs.mkdirSync(path.dirname(filePath), {recursive: true});
+	return line => fs.appendFileSync(filePath, line + '\n');
+}
+
+/**
+ * Creates the logging and tracing middleware the config asks for. Traces are
+ * also sent to `OTEL_EXPORTER_OTLP_ENDPOINT` when it is set.
+ * @param trace A file or collector URL to trace to in addition, e.g. from
+ * `--trace=`
+ * @param warn Receives span export failures
+ */
+export function createObservabilityMiddleware(
+	config: ObservabilityConfig = {},
+	trace?: string,
+	warn: (message: string) => void = console.warn,
+): ProviderMiddleware[] {
+	const middleware: ProviderMiddleware[] = [];
+	if (config.log) {
+		middleware.push(
+			createJsonLogger(
+				typeof config.log === 'string' ? {write: appendTo(config.log)} : {},
+			),
+		);
+	}
+
+	const serviceName =
+		config.traces?.serviceName ??
+		readEnv('OTEL_SERVICE_NAME') ??
+		DEFAULT_SERVICE_NAME;
+	const files = [config.traces?.file];
+	const endpoints = [
+		config.traces?.endpoint ?? readEnv('OTEL_EXPORTER_OTLP_ENDPOINT'),
+	];
+	if (trace) {
+		(/^https?:\/\//.test(trace) ? endpoints : files).push(trace);
+	}
+	const exporters: SpanExporter[] = [
+		...[...new Set(files)].flatMap(file =>
+			file ? [new FileSpanExporter(file, serviceName)] : [],
+		),
+		...[...new Set(endpoints)].flatMap(endpoint =>
+			endpoint
+				? [
+						new OtlpHttpSpanExporter({
+							endpoint,
+							headers: config.traces?.headers,
+							serviceName,
+						}),
+				  ]
+				: [],
+		),
+	];
+	for (const exporter of exporters) {
+		middleware.push(
+			createTracingMiddleware(exporter, {
+				onExportError: error => warn(`Span export failed: ${error}`),
+			}),
+		);
+	}
+	return middleware;
+}
@@ -1,2 +0,0 @@
-// This file is deprecated - use openai-provider.ts instead
-export {openaiClient} from './openai-provider.js';
@@ -0,0 +1,376 @@
+import OpenAI from 'openai';
+import {
+	ChatMessage,
+	ChatRequest,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ChatResponse,
+	ChatStreamEvent,
+	FinishReason,
+	MessageContent,
+	TokenUsage,
+	ToolCall,
+	ToolChoice,
+} from './ai-provider.js';
+import {
+	getIgnoredParams,
+	getRequestSignal,
+	validateEmbeddingModel,
+} from './request-utils.js';
+import {embedInBatches} from './embeddings.js';
+import {toProviderError} from './errors.js';
+import {getTextContent, loadAttachment, toDataURL} from './message-content.js';
+
+// Shared translation for providers that speak the OpenAI Chat Completions wire format.
+
+/**
+ * Request features that differ between OpenAI-compatible endpoints.
+ */
+export interface OpenAICompatFeatures {
+	seed: boolean;
+	jsonSchema: boolean;
+}
+
+export interface TranslatedOpenAIRequest {
+	params: OpenAI.ChatCompletionCreateParamsNonStreaming;
+	ignoredParams: string[];
+}
+
+// Images become image_url parts and files become file parts, both inlined
+// as data URLs
+function toOpenAIContentParts(
+	content: MessageContent,
+	provider: string,
+): string | OpenAI.ChatCompletionContentPart[] {
+	if (typeof content === 'string') {
+		return content;
+	}
+	return content.map((part): OpenAI.ChatCompletionContentPart => {
+		if (part.type === 'text') {
+			return {type: 'text', text: part.text};
+		}
+		const attachment = loadAttachment(part, provider);
+		if (part.type === 'image') {
+			return {
+				type: 'image_url',
+				image_url: {url: toDataURL(attachment), detail: part.detail},
+			};
+		}
+		return {
+			type: 'file',
+			file: {file_data: toDataURL(attachment), filename: attachment.filename},
+		};
+	});
+}
+
+// Only user messages may carry attachments; other roles are sent as text
+function toOpenAIMessage(
+	message: ChatMessage,
+	provider: string,
+): OpenAI.ChatCompletionMessageParam {
+	switch (message.role) {
+		case 'tool':
+			return {
+				role: 'tool',
+				tool_call_id: message.toolCallId ?? '',
+				content: getTextContent(message.content),
+			};
+		case 'assistant':
+			return {
+				role: 'assistant',
+				content: getTextContent(message.content) || null,
+				tool_calls: message.toolCalls?.map(toolCall => ({
+					id: toolCall.id,
+					type: 'function' as const,
+					function: {
+						name: toolCall.name,
+						arguments: JSON.stringify(toolCall.arguments),
+					},
+				})),
+			};
+		case 'system':
+			return {role: 'system', content: getTextContent(message.content)};
+		default:
+			return {
+				role: 'user',
+				content: toOpenAIContentParts(message.content, provider),
+			};
+	}
+}
+
+function toOpenAIToolChoice(
+	toolChoice: ToolChoice | undefined,
+): OpenAI.ChatCompletionToolChoiceOption | undefined {
+	if (toolChoice === undefined || typeof toolChoice === 'string') {
+		return toolChoice;
+	}
+	return {type: 'function', function: {name: toolChoice.name}};
+}
+
+/**
+ * Parses the JSON-encoded arguments of an OpenAI tool call. Malformed
+ * arguments are replaced by an empty object so the tool can report the problem.
+ */
+function parseToolArguments(
+	name: string,
+	rawArguments: string,
+	warn: (message: string) => void,
+): Record<string, unknown> {
+	try {
+		return rawArguments ? JSON.parse(rawArguments) : {};
+	} catch {
+		warn(`Tool call "${name}" had malformed JSON arguments.`);
+		return {};
+	}
+}
+
+/**
+ * Translates a ChatRequest into OpenAI Chat Completions parameters.
+ * @param request Provider-neutral request
+ * @param model Model to use (already resolved against the provider default)
+ * @param features Which optional features the endpoint supports
+ * @param provider Provider name for errors raised while loading attachments
+ */
+export function toOpenAIParams(
+	request: ChatRequest,
+	model: string,
+	features: OpenAICompatFeatures,
+	provider: string,
+): TranslatedOpenAIRequest {
+	const supported: (keyof ChatRequest)[] = [
+		'temperature',
+		'topP',
+		'maxTokens',
+		'stop',
+		'responseFormat',
+		'tools',
+		'toolChoice',
+	];
+	if (features.seed) {
+		supported.push('seed');
+	}
+	const ignoredParams = getIgnoredParams(request, supported);
+
+	const params: OpenAI.ChatCompletionCreateParamsNonStreaming = {
+		model,
+		messages: request.messages.map(message =>
+			toOpenAIMessage(message, provider),
+		),
+		temperature: request.temperature,
+		top_p: request.topP,
+		max_tokens: request.maxTokens,
+		stop: request.stop,
+		seed: features.seed ? request.seed : undefined,
+		tools: request.tools?.map(tool => ({
+			type: 'function' as const,
+			function: {
+				name: tool.name,
+				description: tool.description,
+				parameters: tool.parameters,
+			},
+		})),
+		tool_choice: toOpenAIToolChoice(request.toolChoice),
+	};
+
+	const format = request.responseFormat;
+	if (format?.type === 'json_schema') {
+		if (features.jsonSchema) {
+			params.response_format = {
+				type: 'json_schema',
+				json_schema: {name: format.name, schema: format.schema},
+			};
+		} else {
+			// Fall back to plain JSON mode; the schema itself cannot be enforced
+			params.response_format = {type: 'json_object'};
+			ignoredParams.push('responseFormat.schema');
+		}
+	} else if (format) {
+		params.response_format = {type: format.type};
+	}
+
+	return {params, ignoredParams};
+}
+
+/**
+ * Maps an OpenAI finish_reason onto the provider-neutral FinishReason.
+ */
+export function mapOpenAIFinishReason(
+	reason: string | null | undefined,
+): FinishReason | undefined {
+	switch (reason) {
+		case 'stop':
+		case 'length':
+		case 'content_filter':
+		case 'tool_calls':
+			return reason;
+		case 'function_call':
+			return 'tool_calls';
+		case null:
+		case undefined:
+			return undefined;
+		default:
+			return 'other';
+	}
+}
+
+function toTokenUsage(
+	usage: OpenAI.CompletionUsage | null | undefined,
+): TokenUsage | undefined {
+	return usage
+		? {
+				prompt_tokens: usage.prompt_tokens,
+				completion_tokens: usage.completion_tokens,
+				total_tokens: usage.total_tokens,
+		  }
+		: undefined;
+}
+
+/**
+ * Converts a non-streaming OpenAI completion into a ChatResponse.
+ * @param warn Receives warnings about malformed tool call arguments
+ */
+export function fromOpenAICompletion(
+	completion: OpenAI.ChatCompletion,
+	latencyMs: number,
+	ignoredParams: string[],
+	warn: (message: string) => void,
+): ChatResponse {
+	const choice = completion.choices[0];
+	const toolCalls = choice?.message?.tool_calls?.map(toolCall => ({
+		id: toolCall.id,
+		name: toolCall.function.name,
+		arguments: parseToolArguments(
+			toolCall.function.name,
+			toolCall.function.arguments,
+			warn,
+		),
+	}));
+	return {
+		content: choice?.message?.content || '',
+		toolCalls: toolCalls?.length ? toolCalls : undefined,
+		metadata: {
+			model: completion.model,
+			usage: toTokenUsage(completion.usage),
+			latencyMs,
+			finishReason: mapOpenAIFinishReason(choice?.finish_reason),
+			ignoredParams: ignoredParams.length > 0 ? ignoredParams : undefined,
+		},
+	};
+}
+
+/**
+ * Converts an OpenAI chunk stream into ChatStreamEvents. The request must have
+ * been sent with `stream_options.include_usage` for usage to be reported.
+ * @param stream Chunks returned by `chat.completions.create({stream: true})`
+ * @param startTime When the request was sent, for latency and time-to-first-token
+ * @param ignoredParams Parameters the provider could not honour
+ * @param warn Receives warnings about malformed tool call arguments
+ * @param signal The request's signal, checked between chunks
+ */
+export async function* streamOpenAICompletion(
+	stream: AsyncIterable<OpenAI.ChatCompletionChunk>,
+	startTime: number,
+	ignoredParams: string[],
+	warn: (message: string) => void,
+	signal?: AbortSignal,
+): AsyncGenerator<ChatStreamEvent> {
+	let model = '';
+	let usage: TokenUsage | undefined;
+	let finishReason: FinishReason | undefined;
+	let timeToFirstTokenMs: number | undefined;
+	// Tool calls arrive as fragments keyed by index and are emitted once complete
+	const pendingToolCalls: {id: string; name: string; arguments: string}[] = [];
+
+	for await (const chunk of stream) {
+		// Stop at the next chunk even if the SDK has already buffered more
+		signal?.throwIfAborted();
+		model = chunk.model || model;
+		const choice = chunk.choices[0];
+		const deltaContent = choice?.delta?.content;
+		if (deltaContent) {
+			timeToFirstTokenMs ??= Date.now() - startTime;
+			yield {type: 'delta', content: deltaContent};
+		}
+		for (const fragment of choice?.delta?.tool_calls ?? []) {
+			const pending = (pendingToolCalls[fragment.index] ??= {
+				id: '',
+				name: '',
+				arguments: '',
+			});
+			pending.id ||= fragment.id ?? '';
+			pending.name += fragment.function?.name ?? '';
+			pending.arguments += fragment.function?.arguments ?? '';
+		}
+		finishReason = mapOpenAIFinishReason(choice?.finish_reason) ?? finishReason;
+		// With include_usage, the last chunk has no choices and carries the usage
+		usage = toTokenUsage(chunk.usage) ?? usage;
+	}
+
+	for (const pending of pendingToolCalls.filter(Boolean)) {
+		const toolCall: ToolCall = {
+			id: pending.id,
+			name: pending.name,
+			arguments: parseToolArguments(pending.name, pending.arguments, warn),
+		};
+		yield {type: 'tool_call', toolCall};
+	}
+
+	yield {
+		type: 'done',
+		metadata: {
+			model,
+			usage,
+			latencyMs: Date.now() - startTime,
+			timeToFirstTokenMs,
+			finishReason,
+			ignoredParams: ignoredParams.length > 0 ? ignoredParams : undefined,
+		},
+	};
+}
+
+// OpenAI accepts up to 2048 inputs per request; smaller batches also stay
+// under the per-request token limit for typical texts
+const EMBEDDING_BATCH_SIZE = 512;
+
+/**
+ * Embeds texts through the `/embeddings` endpoint, in batches.
+ * @param client Client of the OpenAI-compatible endpoint
+ * @param provider Provider name for errors
+ * @param model Embedding model (already resolved against the provider default)
+ */
+export function createOpenAIEmbeddings(
+	client: OpenAI,
+	provider: string,
+	model: string,
+	texts: string[],
+	options: EmbeddingOptions,
+): Promise<EmbeddingResponse> {
+	validateEmbeddingModel(provider, model);
+	return embedInBatches(texts, EMBEDDING_BATCH_SIZE, model, async batch => {
+		const signal = getRequestSignal(options);
+		try {
+			const response = await client.embeddings.create(
+				{
+					model,
+					input: batch,
+					dimensions: options.dimensions,
+					encoding_format: 'float',
+				},
+				{signal},
+			);
+			// Each result carries the index of its input
+			const embeddings = [...response.data]
+				.sort((a, b) => a.index - b.index)
+				.map(item => item.embedding);
+			return {
+				embeddings,
+				usage: response.usage && {
+					prompt_tokens: response.usage.prompt_tokens,
+					total_tokens: response.usage.total_tokens,
+				},
+			};
+		} catch (error) {
+			throw toProviderError(error, {provider, model, signal});
+		}
+	});
+}
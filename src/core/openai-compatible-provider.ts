@@ -0,0 +1,255 @@
+import OpenAI from 'openai';
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+	ProviderInfo,
+} from './ai-provider.js';
+import {
+	OpenAICompatFeatures,
+	toOpenAIParams,
+	fromOpenAICompletion,
+	streamOpenAICompletion,
+	createOpenAIEmbeddings,
+} from './openai-compat.js';
+import {getRequestSignal, validateChatRequest} from './request-utils.js';
+import {describeModels, getModelIds} from './model-catalog.js';
+import {
+	AIProviderError,
+	InvalidRequestError,
+	toProviderError,
+	UnsupportedCapabilityError,
+} from './errors.js';
+import {ProviderConfig, readEnv, requireApiKey} from './provider-config.js';
+
+/**
+ * `baseURL` is the API root, e.g. http://localhost:11434/v1 for Ollama. The
+ * API key is optional unless `apiKeyRequired` is set; most local servers
+ * accept any key. Embeddings are available once `embeddingModel` is set.
+ */
+export interface OpenAICompatibleConfig extends ProviderConfig {
+	/** Display name used in logs, errors and getProviderInfo() */
+	name: string;
+	defaultModel: string;
+	/** Environment variable read when `apiKey` is not given */
+	apiKeyEnvVar?: string;
+	/** Environment variable read when `baseURL` is not given */
+	baseURLEnvVar?: string;
+	/** Used when neither `baseURL` nor its environment variable is set */
+	defaultBaseURL?: string;
+	apiKeyRequired?: boolean;
+	/** Models known up front; more can be discovered with listModels() */
+	knownModels?: string[];
+	/** Parameters the server understands (default: seed, no JSON schema) */
+	features?: Partial<OpenAICompatFeatures>;
+	/** Whether the server accepts `stream_options.include_usage` (default true) */
+	streamUsage?: boolean;
+}
+
+// The SDK refuses to start without a key, while local servers ignore it
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+/**
+ * An implementation of AIProvider for any server speaking the OpenAI chat
+ * completions protocol: Ollama, llama.cpp, vLLM, LM Studio or hosted APIs
+ * such as DeepSeek.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+	private client?: OpenAI;
+	protected providerName: string;
+	protected defaultModel: string;
+	private knownModels: string[];
+	private features: OpenAICompatFeatures;
+	private streamUsage: boolean;
+	private warn: (message: string) => void;
+
+	constructor(private config: OpenAICompatibleConfig) {
+		this.warn = config.warn ?? console.warn;
+		this.providerName = config.name;
+		this.defaultModel = config.defaultModel;
+		this.knownModels = config.knownModels ?? [];
+		this.features = {seed: true, jsonSchema: false, ...config.features};
+		this.streamUsage = config.streamUsage ?? true;
+	}
+
+	// Credentials and endpoint are resolved on first use
+	private getClient(): OpenAI {
+		if (this.client) {
+			return this.client;
+		}
+		const {config} = this;
+		const fromEnv = (envVar?: string) => (envVar ? readEnv(envVar) : undefined);
+		const baseURL =
+			config.baseURL ?? fromEnv(config.baseURLEnvVar) ?? config.defaultBaseURL;
+		if (!baseURL) {
+			throw new InvalidRequestError(
+				`${this.providerName}: a base URL is required${
+					config.baseURLEnvVar ? ` (set ${config.baseURLEnvVar})` : ''
+				}.`,
+				{provider: this.providerName},
+			);
+		}
+		const apiKey = config.apiKeyRequired
+			? requireApiKey(this.providerName, config.apiKey, config.apiKeyEnvVar)
+			: config.apiKey ?? fromEnv(config.apiKeyEnvVar);
+		this.client = new OpenAI({
+			apiKey: apiKey || PLACEHOLDER_API_KEY,
+			baseURL,
+			organization: config.organization,
+			timeout: config.timeout,
+			defaultHeaders: config.defaultHeaders,
+		});
+		return this.client;
+	}
+
+	/**
+	 * Discovers the models served at `/v1/models` and remembers them for
+	 * getProviderInfo().
+	 * @returns The models reported by the server, described from the catalogue
+	 */
+	async listModels(): Promise<ModelDescriptor[]> {
+		try {
+			const ids: string[] = [];
+			for await (const model of this.getClient().models.list()) {
+				ids.push(model.id);
+			}
+			this.knownModels = [...new Set([...this.knownModels, ...ids])];
+			return describeModels(this.providerName, ids);
+		} catch (error) {
+			throw toProviderError(error, {provider: this.providerName});
+		}
+	}
+
+	private translateRequest(request: ChatRequest, stream: boolean) {
+		const targetModel = request.model ?? this.defaultModel;
+
+		// Only warn when we know which models exist
+		if (
+			this.knownModels.length > 0 &&
+			targetModel !== this.defaultModel &&
+			!this.knownModels.includes(targetModel)
+		) {
+			this.warn(
+				`Model ${targetModel} might not be supported by ${this.providerName}. Using it anyway.`,
+			);
+		}
+
+		validateChatRequest(this.providerName, targetModel, request, stream);
+		return toOpenAIParams(
+			request,
+			targetModel,
+			this.features,
+			this.providerName,
+		);
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		const startTime = Date.now();
+		const {params, ignoredParams} = this.translateRequest(request, false);
+		const signal = getRequestSignal(request);
+
+		try {
+			const completion = await this.getClient().chat.completions.create(
+				params,
+				{signal},
+			);
+			const endTime = Date.now();
+			const message = completion.choices[0]?.message;
+
+			// Content is legitimately null when the model only requests tool calls
+			if (!message || (message.content == null && !message.tool_calls)) {
+				throw new AIProviderError(
+					`${this.providerName} returned an empty message content.`,
+					{provider: this.providerName, model: params.model},
+				);
+			}
+
+			return fromOpenAICompletion(
+				completion,
+				endTime - startTime,
+				ignoredParams,
+				this.warn,
+			);
+		} catch (error) {
+			throw toProviderError(error, {
+				provider: this.providerName,
+				model: params.model,
+				signal,
+			});
+		}
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		const startTime = Date.now();
+		const {params, ignoredParams} = this.translateRequest(request, true);
+		const signal = getRequestSignal(request);
+
+		try {
+			const stream = await this.getClient().chat.completions.create(
+				{
+					...params,
+					stream: true,
+					...(this.streamUsage && {stream_options: {include_usage: true}}),
+				},
+				{signal},
+			);
+
+			yield* streamOpenAICompletion(
+				stream,
+				startTime,
+				ignoredParams,
+				this.warn,
+				signal,
+			);
+		} catch (error) {
+			throw toProviderError(error, {
+				provider: this.providerName,
+				model: params.model,
+				signal,
+			});
+		}
+	}
+
+	async createEmbeddings(
+		texts: string[],
+		options: EmbeddingOptions = {},
+	): Promise<EmbeddingResponse> {
+		const model = options.model ?? this.config.embeddingModel;
+		if (!model) {
+			throw new UnsupportedCapabilityError(
+				`${this.providerName}: embeddings need an \`embeddingModel\`.`,
+				{provider: this.providerName, capability: 'embeddings'},
+			);
+		}
+		return createOpenAIEmbeddings(
+			this.getClient(),
+			this.providerName,
+			model,
+			texts,
+			options,
+		);
+	}
+
+	getProviderInfo(): ProviderInfo {
+		const {embeddingModel} = this.config;
+		const models = describeModels(this.providerName, [
+			...new Set([this.defaultModel, ...this.knownModels]),
+		]);
+		return {
+			name: this.providerName,
+			version: 'v1',
+			defaultModel: this.defaultModel,
+			// The configured default comes first so callers can rely on it
+			supportedModels: getModelIds(models, 'chat', this.defaultModel),
+			models,
+			capabilities: {embeddings: embeddingModel !== undefined},
+			embeddingModels: embeddingModel ? [embeddingModel] : undefined,
+		};
+	}
+}
@@ -1,68 +1,169 @@
 import OpenAI from 'openai';
-import dotenv from 'dotenv';
-import {AIProvider, ProviderInfo, ChatResponse} from './ai-provider.js';
-
-dotenv.config();
+import {
+	AIProvider,
+	ProviderInfo,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+} from './ai-provider.js';
+import {
+	toOpenAIParams,
+	fromOpenAICompletion,
+	streamOpenAICompletion,
+	createOpenAIEmbeddings,
+} from './openai-compat.js';
+import {getRequestSignal, validateChatRequest} from './request-utils.js';
+import {
+	describeModels,
+	getCatalogModels,
+	getModelIds,
+} from './model-catalog.js';
+import {toProviderError} from './errors.js';
+import {ProviderConfig, readEnv, requireApiKey} from './provider-config.js';
 
+/**
+ * An implementation of AIProvider for the OpenAI API. The API key falls back
+ * to OPENAI_API_KEY (and the base URL and organization to OPENAI_BASE_URL and
+ * OPENAI_ORG_ID); it is checked on the first request, not at construction.
+ */
 export class OpenAIProvider implements AIProvider {
-	private client: OpenAI;
+	private client?: OpenAI;
+	private defaultModel: string;
+	private embeddingModel: string;
+	private warn: (message: string) => void;
+
+	constructor(private options: ProviderConfig = {}) {
+		this.defaultModel = options.defaultModel ?? 'gpt-4o-mini';
+		this.warn = options.warn ?? console.warn;
+		this.embeddingModel = options.embeddingModel ?? 'text-embedding-3-small';
+	}
 
-	constructor() {
-		const apiKey = process.env.OPENAI_API_KEY;
-		if (!apiKey) {
-			throw new Error('OPENAI_API_KEY environment variable not set');
+	private getClient(): OpenAI {
+		if (!this.client) {
+			this.client = new OpenAI({
+				apiKey: requireApiKey('OpenAI', this.options.apiKey, 'OPENAI_API_KEY'),
+				baseURL: this.options.baseURL ?? readEnv('OPENAI_BASE_URL'),
+				organization: this.options.organization ?? readEnv('OPENAI_ORG_ID'),
+				timeout: this.options.timeout,
+				defaultHeaders: this.options.defaultHeaders,
+			});
 		}
-		this.client = new OpenAI({apiKey});
+		return this.client;
+	}
+
+	private translateRequest(request: ChatRequest, stream: boolean) {
+		const model = request.model ?? this.defaultModel;
+		validateChatRequest('OpenAI', model, request, stream);
+		return toOpenAIParams(
+			request,
+			model,
+			{seed: true, jsonSchema: true},
+			'OpenAI',
+		);
 	}
 
-	async createChatCompletion(
-		config: OpenAI.ChatCompletionCreateParams,
-	): Promise<ChatResponse> {
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		const {params, ignoredParams} = this.translateRequest(request, false);
+		const signal = getRequestSignal(request);
 		const startTime = Date.now();
-		// Explicitly assert the type to ChatCompletion as we are not streaming here
-		const completion = (await this.client.chat.completions.create(
-			config,
-		)) as OpenAI.ChatCompletion;
-		const endTime = Date.now();
+		try {
+			const completion = await this.getClient().chat.completions.create(
+				params,
+				{signal},
+			);
+			const endTime = Date.now();
 
-		return {
-			content: completion.choices[0]?.message?.content || '',
-			metadata: {
-				model: completion.model,
-				usage: completion.usage,
-				latencyMs: endTime - startTime,
-			},
-		};
+			return fromOpenAICompletion(
+				completion,
+				endTime - startTime,
+				ignoredParams,
+				this.warn,
+			);
+		} catch (error) {
+			throw toProviderError(error, {
+				provider: 'OpenAI',
+				model: params.model,
+				signal,
+			});
+		}
 	}
 
 	async *createChatCompletionStream(
-		config: OpenAI.ChatCompletionCreateParams,
-	): AsyncGenerator<ChatResponse> {
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		const {params, ignoredParams} = this.translateRequest(request, true);
+		const signal = getRequestSignal(request);
 		const startTime = Date.now();
-		const stream = await this.client.chat.completions.create({
-			...config,
-			stream: true,
-		});
-
-		for await (const chunk of stream) {
-			yield {
-				content: chunk.choices[0]?.delta?.content || '',
-				metadata: {
-					model: chunk.model,
-					latencyMs: Date.now() - startTime,
+		try {
+			const stream = await this.getClient().chat.completions.create(
+				{
+					...params,
+					stream: true,
+					stream_options: {include_usage: true},
 				},
-			};
+				{signal},
+			);
+
+			yield* streamOpenAICompletion(
+				stream,
+				startTime,
+				ignoredParams,
+				this.warn,
+				signal,
+			);
+		} catch (error) {
+			throw toProviderError(error, {
+				provider: 'OpenAI',
+				model: params.model,
+				signal,
+			});
+		}
+	}
+
+	async createEmbeddings(
+		texts: string[],
+		options: EmbeddingOptions = {},
+	): Promise<EmbeddingResponse> {
+		return createOpenAIEmbeddings(
+			this.getClient(),
+			'OpenAI',
+			options.model ?? this.embeddingModel,
+			texts,
+			options,
+		);
+	}
+
+	/**
+	 * Lists the models available to this API key from `/v1/models`. Models
+	 * missing from the catalogue (e.g. audio or image models) have unknown
+	 * capabilities.
+	 */
+	async listModels(): Promise<ModelDescriptor[]> {
+		try {
+			const ids: string[] = [];
+			for await (const model of this.getClient().models.list()) {
+				ids.push(model.id);
+			}
+			return describeModels('OpenAI', ids);
+		} catch (error) {
+			throw toProviderError(error, {provider: 'OpenAI'});
 		}
 	}
 
+	// Describes the catalogue; listModels() reports what the key can use
 	getProviderInfo(): ProviderInfo {
+		const models = getCatalogModels('OpenAI');
 		return {
 			name: 'OpenAI',
 			version: '1.0.0',
-			supportedModels: ['gpt-4', 'gpt-3.5-turbo'],
+			defaultModel: this.defaultModel,
+			supportedModels: getModelIds(models, 'chat', this.defaultModel),
+			models,
+			capabilities: {embeddings: true},
+			embeddingModels: getModelIds(models, 'embeddings', this.embeddingModel),
 		};
 	}
 }
-
-// Maintain backwards compatibility with existing imports
-export const openaiClient = new OpenAIProvider();
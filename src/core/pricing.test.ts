@@ -0,0 +1,55 @@
+import {describe, expect, it} from 'vitest';
+import {calculateCost, getModelPricing, setModelPricing} from './pricing.js';
+
+describe('calculateCost', () => {
+	it('prices input and output tokens per million', () => {
+		const cost = calculateCost('OpenAI', 'gpt-4o-mini', {
+			prompt_tokens: 1_000_000,
+			completion_tokens: 500_000,
+		});
+
+		expect(cost).toMatchObject({
+			inputCost: 0.15,
+			outputCost: 0.3,
+			currency: 'USD',
+		});
+		expect(cost?.totalCost).toBeCloseTo(0.45);
+	});
+
+	it('prices dated snapshots like their family', () => {
+		expect(getModelPricing('openai', 'gpt-4o-mini-2024-07-18')).toEqual(
+			getModelPricing('OpenAI', 'gpt-4o-mini'),
+		);
+	});
+
+	it('returns undefined without usage or pricing', () => {
+		expect(calculateCost('OpenAI', 'gpt-4o-mini', undefined)).toBeUndefined();
+		expect(
+			calculateCost('Nobody', 'unknown-model', {prompt_tokens: 10}),
+		).toBeUndefined();
+	});
+});
+
+describe('setModelPricing', () => {
+	it('adds prices for new models and whole providers', () => {
+		setModelPricing('PricingTest', 'custom-model', {
+			inputPerMillion: 2,
+			outputPerMillion: 8,
+		});
+		setModelPricing('PricingTest', '', {
+			inputPerMillion: 1,
+			outputPerMillion: 1,
+		});
+
+		expect(
+			calculateCost('pricingtest', 'custom-model-v2', {
+				prompt_tokens: 500_000,
+				completion_tokens: 250_000,
+			})?.totalCost,
+		).toBe(3);
+		expect(getModelPricing('PricingTest', 'other-model')).toEqual({
+			inputPerMillion: 1,
+			outputPerMillion: 1,
+		});
+	});
+});
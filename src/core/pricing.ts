@@ -0,0 +1,57 @@
+import {CostBreakdown, ModelPricing, TokenUsage} from './ai-provider.js';
+import {getModelDescriptor, updateModel} from './model-catalog.js';
+
+// Prices in USD per million tokens, kept in the model catalogue.
+
+export type {ModelPricing};
+
+/**
+ * Adds or replaces the price of a model, e.g. for negotiated rates or new
+ * models. An empty model name sets the price for all models of a provider.
+ * @param provider Provider name as reported by getProviderInfo() (case-insensitive)
+ * @param model Model name or prefix
+ * @param pricing Prices in USD per million tokens
+ */
+export function setModelPricing(
+	provider: string,
+	model: string,
+	pricing: ModelPricing,
+): void {
+	updateModel(provider, model, {pricing});
+}
+
+/**
+ * Looks up the price of a model.
+ * @returns The pricing, or undefined if the model is not in the catalogue
+ */
+export function getModelPricing(
+	provider: string,
+	model: string,
+): ModelPricing | undefined {
+	return getModelDescriptor(provider, model)?.pricing;
+}
+
+/**
+ * Computes the cost of a response from its token usage.
+ * @returns The cost, or undefined if usage or pricing is unknown
+ */
+export function calculateCost(
+	provider: string,
+	model: string,
+	usage: TokenUsage | undefined,
+): CostBreakdown | undefined {
+	const pricing = getModelPricing(provider, model);
+	if (!pricing || !usage) {
+		return undefined;
+	}
+	const inputCost =
+		((usage.prompt_tokens ?? 0) * pricing.inputPerMillion) / 1_000_000;
+	const outputCost =
+		((usage.completion_tokens ?? 0) * pricing.outputPerMillion) / 1_000_000;
+	return {
+		inputCost,
+		outputCost,
+		totalCost: inputCost + outputCost,
+		currency: 'USD',
+	};
+}
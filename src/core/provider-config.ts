@@ -0,0 +1,57 @@
+import dotenv from 'dotenv';
+import {AuthenticationError} from './errors.js';
+
+/**
+ * Options accepted by every provider. Unset values fall back to the
+ * provider's environment variables when the provider is first used.
+ */
+export interface ProviderConfig {
+	apiKey?: string;
+	baseURL?: string;
+	defaultModel?: string;
+	/** Model used by createEmbeddings(), for providers that support it */
+	embeddingModel?: string;
+	/** Organization id, for APIs that support one (OpenAI) */
+	organization?: string;
+	/** Request timeout in milliseconds */
+	timeout?: number;
+	/** Headers sent with every request */
+	defaultHeaders?: Record<string, string>;
+	/** Receives warnings, e.g. about malformed tool calls (default: console.warn) */
+	warn?: (message: string) => void;
+}
+
+let envLoaded = false;
+
+/**
+ * Reads an environment variable, loading `.env` on first use rather than at
+ * import time. Empty values are treated as unset.
+ */
+export function readEnv(name: string): string | undefined {
+	if (!envLoaded) {
+		dotenv.config();
+		envLoaded = true;
+	}
+	return process.env[name] || undefined;
+}
+
+/**
+ * Returns the configured API key or the one from the environment.
+ * @throws AuthenticationError if neither is set
+ */
+export function requireApiKey(
+	provider: string,
+	apiKey: string | undefined,
+	envVar?: string,
+): string {
+	const key = apiKey ?? (envVar ? readEnv(envVar) : undefined);
+	if (!key) {
+		throw new AuthenticationError(
+			`${provider} API key is missing. Pass it as \`apiKey\`${
+				envVar ? ` or set ${envVar}` : ''
+			}.`,
+			{provider},
+		);
+	}
+	return key;
+}
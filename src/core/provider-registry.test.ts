@@ -0,0 +1,20 @@
+import {describe, expect, it} from 'vitest';
+import {InvalidRequestError} from './errors.js';
+import {resolveBudget} from './provider-registry.js';
+
+describe('resolveBudget', () => {
+	it('reads the budget in USD', () => {
+		expect(resolveBudget(['chat', '--budget=0.5'])).toBe(0.5);
+		expect(resolveBudget(['--budget=0'])).toBe(0);
+		expect(resolveBudget(['chat'])).toBeUndefined();
+	});
+
+	it.each(['abc', '-1', 'Infinity', ''])(
+		'rejects --budget=%s with an InvalidRequestError',
+		budget => {
+			expect(() => resolveBudget([`--budget=${budget}`])).toThrow(
+				InvalidRequestError,
+			);
+		},
+	);
+});
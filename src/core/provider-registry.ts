@@ -0,0 +1,391 @@
+import {AIProvider} from './ai-provider.js';
+import {
+	getAppSettings,
+	loadProviderConfig,
+	ProviderConfigFile,
+} from './config-file.js';
+import {RequestSettings, withRequestDefaults} from './defaults-provider.js';
+import {ProviderMiddleware, withMiddleware} from './middleware.js';
+import {
+	createIgnoredParamsLogger,
+	createObservabilityMiddleware,
+} from './observability.js';
+import {OpenAIProvider} from './openai-provider.js';
+import {DeepseekProvider} from './deepseek-provider.js';
+import {GeminiProvider} from './gemini-provider.js';
+import {OpenAICompatibleProvider} from './openai-compatible-provider.js';
+import {ProviderConfig, readEnv} from './provider-config.js';
+import {withRetry} from './retry-provider.js';
+import {FallbackProvider} from './fallback-provider.js';
+import {
+	CacheMode,
+	FileCacheStore,
+	MemoryCacheStore,
+	withCache,
+} from './cache-provider.js';
+import {RecordingProvider, ReplayProvider} from './recording-provider.js';
+import {InvalidRequestError} from './errors.js';
+import {sessionUsage} from './usage-tracker.js';
+
+// Architectural Pattern: Registry + Factory - Providers register under a name and are
+// instantiated on demand, so mini-apps never construct a concrete provider themselves.
+
+/**
+ * Options passed to a provider factory. Values from the config file are merged
+ * over the defaults given at registration time.
+ */
+export interface ProviderOptions extends ProviderConfig {
+	/** Shorthand for `defaultModel` */
+	model?: string;
+	/** Model mapping used when this provider serves as a fallback */
+	models?: Record<string, string>;
+}
+
+export type ProviderFactory = (options: ProviderOptions) => AIProvider;
+
+interface ProviderRegistration {
+	factory: ProviderFactory;
+	options: ProviderOptions;
+}
+
+export const DEFAULT_PROVIDER = 'openai';
+export const PROVIDER_ENV_VAR = 'AI_PROVIDER';
+
+const registry = new Map<string, ProviderRegistration>();
+
+/**
+ * Registers a provider factory under a (case-insensitive) name.
+ * Registering an existing name replaces the previous registration.
+ * @param name Name used by `--provider=`, `AI_PROVIDER` and the config file
+ * @param factory Function creating the provider from its options
+ * @param options Default options for this provider
+ */
+export function registerProvider(
+	name: string,
+	factory: ProviderFactory,
+	options: ProviderOptions = {},
+): void {
+	registry.set(name.toLowerCase(), {factory, options});
+}
+
+/**
+ * Lists the names of all registered providers.
+ */
+export function getRegisteredProviders(): string[] {
+	return [...registry.keys()];
+}
+
+/**
+ * Instantiates a registered provider.
+ * @param name Registered provider name
+ * @param options Options merged over the registration defaults
+ * @throws Error if no provider is registered under `name`
+ */
+export function createProvider(
+	name: string,
+	options: ProviderOptions = {},
+): AIProvider {
+	const registration = registry.get(name.toLowerCase());
+	if (!registration) {
+		throw new Error(
+			`Unknown provider "${name}". Registered providers: ${getRegisteredProviders().join(
+				', ',
+			)}`,
+		);
+	}
+	return registration.factory({...registration.options, ...options});
+}
+
+// Reads the value of a `--name=value` argument
+function getArgValue(args: string[], name: string): string | undefined {
+	const match = args.find(arg => arg.startsWith(`--${name}=`));
+	// Values may contain '=' themselves, e.g. URLs with a query string
+	return match?.slice(match.indexOf('=') + 1);
+}
+
+/**
+ * Reads the config file with the profile selected by `--profile=`, if any.
+ * @throws ConfigError if the file is invalid or the profile does not exist
+ */
+export function loadSelectedConfig(
+	args: string[] = process.argv.slice(2),
+): ProviderConfigFile {
+	return loadProviderConfig(process.cwd(), getArgValue(args, 'profile'));
+}
+
+/**
+ * Determines which provider to use. Precedence: `--provider=` argument,
+ * then the `AI_PROVIDER` env variable, then the config file (and its
+ * profile), then OpenAI.
+ */
+export function resolveProviderName(
+	args: string[] = process.argv.slice(2),
+	config: ProviderConfigFile = loadSelectedConfig(args),
+): string {
+	return (
+		getArgValue(args, 'provider') ||
+		readEnv(PROVIDER_ENV_VAR) ||
+		config.provider ||
+		DEFAULT_PROVIDER
+	).toLowerCase();
+}
+
+/**
+ * Reads `--cache=use|bypass|refresh` from the arguments.
+ * @param warn Receives a warning for unknown modes
+ */
+export function resolveCacheMode(
+	args: string[] = process.argv.slice(2),
+	warn: (message: string) => void = console.warn,
+): CacheMode | undefined {
+	const mode = getArgValue(args, 'cache');
+	if (mode === undefined) {
+		return undefined;
+	}
+	if (mode !== 'use' && mode !== 'bypass' && mode !== 'refresh') {
+		warn(`Unknown cache mode "${mode}". Using "use".`);
+		return 'use';
+	}
+	return mode;
+}
+
+/**
+ * Reads `--budget=<usd>` from the arguments.
+ * @throws InvalidRequestError if the budget is not a non-negative number
+ */
+export function resolveBudget(
+	args: string[] = process.argv.slice(2),
+): number | undefined {
+	const budget = getArgValue(args, 'budget');
+	if (budget === undefined) {
+		return undefined;
+	}
+	const maxCostUsd = Number(budget);
+	if (budget.trim() === '' || !Number.isFinite(maxCostUsd) || maxCostUsd < 0) {
+		throw new InvalidRequestError(
+			`Invalid budget "${budget}": expected a non-negative amount in USD.`,
+			{provider: 'ai-providers'},
+		);
+	}
+	return maxCostUsd;
+}
+
+/**
+ * Options for getSelectedProvider().
+ */
+export interface SelectionOptions {
+	/** Receives status messages such as the chosen providers (default: console.log) */
+	log?: (message: string) => void;
+	/** Receives warnings such as retries, fallbacks and ignored parameters (default: console.warn) */
+	warn?: (message: string) => void;
+	/** Config to use instead of reading the file, e.g. one already validated */
+	config?: ProviderConfigFile;
+	/** The app's name, selecting its entry under `apps` in the config */
+	app?: string;
+	/** The app's request settings, used where the config sets none */
+	appDefaults?: RequestSettings;
+	/** Runs around every call, inside the config's logging and tracing */
+	middleware?: ProviderMiddleware[];
+	/** Puts every call into this trace, e.g. one per command run */
+	traceId?: string;
+}
+
+// Resolves the selected provider and its fallbacks to registered names
+function resolveProviderChain(
+	args: string[],
+	config: ProviderConfigFile,
+	warn: (message: string) => void,
+): string[] {
+	const [selected, ...rest] = resolveProviderName(args, config)
+		.split(',')
+		.map(name => name.trim());
+	let providerName = selected;
+
+	if (!registry.has(providerName)) {
+		warn(
+			`Unknown provider "${providerName}". Defaulting to ${DEFAULT_PROVIDER}.`,
+		);
+		providerName = DEFAULT_PROVIDER;
+	}
+
+	const chain = [providerName];
+	for (const name of [
+		...rest,
+		...(config.fallback ?? []).map(name => name.toLowerCase()),
+	]) {
+		if (!registry.has(name)) {
+			warn(`Unknown fallback provider "${name}". Skipping it.`);
+		} else if (!chain.includes(name)) {
+			chain.push(name);
+		}
+	}
+	return chain;
+}
+
+// Builds the provider, or a FallbackProvider chain, with retries
+function buildProviderChain(
+	chain: string[],
+	config: ProviderConfigFile,
+	log: (message: string) => void,
+	warn: (message: string) => void,
+): AIProvider {
+	log(`Using AI Provider: ${chain.join(' -> ')}`);
+	const providers = chain.map(name => {
+		const options = config.providers?.[name];
+		return {
+			provider: withRetry(createProvider(name, {...options, warn}), {
+				...config.retry,
+				onRetry: ({attempt, delayMs, error}) =>
+					warn(
+						`Attempt ${attempt} failed (${
+							error instanceof Error ? error.message : String(error)
+						}). Retrying in ${delayMs}ms...`,
+					),
+			}),
+			models: options?.models,
+		};
+	});
+	return providers.length === 1
+		? providers[0].provider
+		: new FallbackProvider(providers, {
+				onFallback: ({provider, error}) =>
+					warn(
+						`${provider} failed (${error.message}). Falling back to the next provider.`,
+					),
+		  });
+}
+
+/**
+ * Resolves and instantiates the provider selected for this process, wrapped
+ * so rate limits and transient failures are retried.
+ * A comma-separated selection (e.g. `--provider=openai,gemini`) or a
+ * `fallback` list in the config file builds a FallbackProvider chain.
+ * `--record=<file>` captures the traffic to a fixture file and
+ * `--replay=<file>` answers from one without calling any provider.
+ * Responses are cached when the config file has a `cache` section or a
+ * `--cache=` argument is given.
+ * Usage and cost are reported to `sessionUsage`, which enforces the budget;
+ * cache hits are neither counted nor rejected.
+ * Requests get the model, sampling and timeout settings of the config file,
+ * whose profile `--profile=` or `AI_PROFILE` selects; default models the
+ * catalogue lists for another provider than the selected one are skipped.
+ * Calls are logged and traced as the config's `observability` section says;
+ * `--trace=<file|url>` adds a span file or collector.
+ * Unknown names fall back to the default provider with a warning.
+ * @throws ConfigError if the config file is invalid
+ * @throws InvalidRequestError if `--budget=` is not a non-negative number
+ */
+export function getSelectedProvider(
+	args: string[] = process.argv.slice(2),
+	{
+		log = console.log,
+		warn = console.warn,
+		config = loadSelectedConfig(args),
+		app,
+		appDefaults,
+		middleware = [],
+		traceId,
+	}: SelectionOptions = {},
+): AIProvider {
+	if (config.profile) {
+		log(`Using profile: ${config.profile}`);
+	}
+	// Inside the request defaults, so logs and spans show the settings sent
+	const finish = (provider: AIProvider, providerName: string) =>
+		withRequestDefaults(
+			withMiddleware(
+				provider,
+				[
+					...createObservabilityMiddleware(
+						config.observability,
+						getArgValue(args, 'trace'),
+						warn,
+					),
+					createIgnoredParamsLogger(warn),
+					...middleware,
+				],
+				{traceId},
+			),
+			{defaults: getAppSettings(config, app, appDefaults, providerName)},
+		);
+	const maxCostUsd = resolveBudget(args);
+	sessionUsage.setBudget({
+		...config.budget,
+		...(maxCostUsd !== undefined && {maxCostUsd}),
+	});
+
+	const replayPath = getArgValue(args, 'replay');
+	if (replayPath) {
+		log(`Replaying recorded responses from ${replayPath}`);
+		const replay = new ReplayProvider(replayPath);
+		return finish(sessionUsage.wrap(replay), replay.getProviderInfo().name);
+	}
+
+	const recordPath = getArgValue(args, 'record');
+	const names = resolveProviderChain(args, config, warn);
+	const chain = buildProviderChain(names, config, log, warn);
+	const provider = recordPath
+		? new RecordingProvider(chain, recordPath)
+		: chain;
+
+	// The tracker sits inside the cache: hits are free and never rejected by
+	// the budget
+	const tracked = sessionUsage.wrap(provider);
+	const cacheMode = resolveCacheMode(args, warn);
+	if (!config.cache && cacheMode === undefined) {
+		return finish(tracked, names[0]);
+	}
+	return finish(
+		withCache(tracked, {
+			store:
+				config.cache?.store === 'memory'
+					? new MemoryCacheStore()
+					: new FileCacheStore(config.cache?.directory),
+			ttlMs: config.cache?.ttlMs,
+			mode: cacheMode,
+			warn,
+		}),
+		names[0],
+	);
+}
+
+// --- Built-in Providers ---
+// Providers validate their credentials on first use, so registering and
+// creating them never requires every API key to be present.
+function toProviderConfig({model, models, ...config}: ProviderOptions) {
+	return {...config, defaultModel: config.defaultModel ?? model};
+}
+
+registerProvider(
+	'openai',
+	options => new OpenAIProvider(toProviderConfig(options)),
+);
+registerProvider(
+	'deepseek',
+	options => new DeepseekProvider(toProviderConfig(options)),
+);
+registerProvider(
+	'gemini',
+	options => new GeminiProvider(toProviderConfig(options)),
+);
+// Any OpenAI-compatible server; defaults to a local Ollama instance
+registerProvider(
+	'local',
+	options =>
+		new OpenAICompatibleProvider({
+			...toProviderConfig(options),
+			name: 'Local',
+			defaultModel:
+				options.defaultModel ??
+				options.model ??
+				readEnv('LOCAL_AI_MODEL') ??
+				'llama3.2',
+			embeddingModel:
+				options.embeddingModel ??
+				readEnv('LOCAL_AI_EMBEDDING_MODEL') ??
+				'nomic-embed-text',
+			apiKeyEnvVar: 'LOCAL_AI_API_KEY',
+			baseURLEnvVar: 'LOCAL_AI_BASE_URL',
+			defaultBaseURL: 'http://localhost:11434/v1',
+		}),
+);
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {afterEach, beforeEach, describe, expect, it} from 'vitest';
+import {ChatRequest, ChatStreamEvent} from './ai-provider.js';
+import {RateLimitError} from './errors.js';
+import {MockProvider} from './mock-provider.js';
+import {
+	FixtureFile,
+	RecordingProvider,
+	ReplayProvider,
+} from './recording-provider.js';
+
+const REQUEST: ChatRequest = {messages: [{role: 'user', content: 'Hi'}]};
+
+let directory: string;
+let fixturePath: string;
+
+async function collect(stream: AsyncGenerator<ChatStreamEvent>) {
+	const events: ChatStreamEvent[] = [];
+	for await (const event of stream) {
+		events.push(event);
+	}
+	return events;
+}
+
+beforeEach(() => {
+	directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-fixture-'));
+	fixturePath = path.join(directory, 'session.json');
+});
+
+afterEach(() => {
+	fs.rmSync(directory, {recursive: true, force: true});
+});
+
+describe('RecordingProvider and ReplayProvider', () => {
+	it('replay responses, streams and errors in recorded order', async () => {
+		const recorder = new RecordingProvider(
+			new MockProvider(
+				[
+					{content: 'First'},
+					{content: 'Second'},
+					{chunks: ['Str', 'eamed']},
+					{
+						error: new RateLimitError('Slow down', {
+							provider: 'Mock',
+							status: 429,
+						}),
+					},
+				],
+				{name: 'Mock'},
+			),
+			fixturePath,
+		);
+		await recorder.createChatCompletion(REQUEST);
+		await recorder.createChatCompletion(REQUEST);
+		const recorded = await collect(
+			recorder.createChatCompletionStream({...REQUEST, temperature: 0}),
+		);
+		await expect(
+			recorder.createChatCompletion({...REQUEST, maxTokens: 5}),
+		).rejects.toThrow(RateLimitError);
+
+		const replay = new ReplayProvider(fixturePath);
+
+		expect((await replay.createChatCompletion(REQUEST)).content).toBe('First');
+		expect((await replay.createChatCompletion(REQUEST)).content).toBe('Second');
+		// The last recording is reused once they run out
+		expect((await replay.createChatCompletion(REQUEST)).content).toBe('Second');
+		expect(
+			await collect(
+				replay.createChatCompletionStream({...REQUEST, temperature: 0}),
+			),
+		).toEqual(recorded);
+		await expect(
+			replay.createChatCompletion({...REQUEST, maxTokens: 5}),
+		).rejects.toThrow(
+			new RateLimitError('Slow down', {provider: 'Mock', status: 429}),
+		);
+		expect(replay.getProviderInfo().name).toBe('Mock');
+	});
+});
+
+describe('ReplayProvider fixture validation', () => {
+	const fixture = (interactions: unknown[]) =>
+		({
+			provider: {
+				name: 'Mock',
+				version: '1.0.0',
+				supportedModels: ['mock-model'],
+			},
+			interactions,
+		} as FixtureFile);
+
+	it('names the file and the interaction without a response or error', () => {
+		fs.writeFileSync(
+			fixturePath,
+			JSON.stringify(
+				fixture([
+					{
+						key: 'a',
+						request: REQUEST,
+						response: {content: 'Hi', metadata: {model: 'mock-model'}},
+					},
+					{key: 'b', request: REQUEST},
+				]),
+			),
+		);
+
+		expect(() => new ReplayProvider(fixturePath)).toThrow(
+			`Invalid fixture ${fixturePath}:\n  - $.interactions[1] has neither a response nor an error`,
+		);
+	});
+
+	it('lists malformed interactions by index', () => {
+		expect(
+			() =>
+				new ReplayProvider(
+					fixture([
+						{key: 'a', request: REQUEST, response: {content: 'Hi'}},
+						{key: 'b', request: REQUEST, error: {name: 'RateLimitError'}},
+						{request: REQUEST, chunks: [1]},
+					]),
+				),
+		).toThrow(
+			[
+				'Invalid fixture passed to ReplayProvider:',
+				'  - $.interactions[0].response.metadata is required',
+				'  - $.interactions[1].error.message is required',
+				'  - $.interactions[2].key is required',
+				'  - $.interactions[2].chunks[0] should be string, got number',
+			].join('\n'),
+		);
+	});
+
+	it('rejects files that are missing or not JSON', () => {
+		expect(() => new ReplayProvider(fixturePath)).toThrow(
+			`Cannot read fixture file ${fixturePath}: `,
+		);
+
+		fs.writeFileSync(fixturePath, '{"provider": ');
+		expect(() => new ReplayProvider(fixturePath)).toThrow(
+			`Cannot read fixture file ${fixturePath}: `,
+		);
+	});
+});
@@ -0,0 +1,351 @@
+import fs from 'fs';
+import path from 'path';
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+	ProviderInfo,
+	ToolCall,
+} from './ai-provider.js';
+import {getCacheKey} from './cache-provider.js';
+import {embedTexts} from './embeddings.js';
+import {JsonSchema, validateJsonSchema} from './json-schema.js';
+import {listProviderModels} from './model-catalog.js';
+import * as errors from './errors.js';
+import {
+	AIProviderError,
+	InvalidRequestError,
+	UnsupportedCapabilityError,
+	toProviderError,
+} from './errors.js';
+
+// Architectural Pattern: Record/Replay - Real provider traffic is captured to a
+// fixture file once and played back deterministically afterwards.
+
+export interface RecordedError {
+	name: string;
+	message: string;
+	status?: number;
+	/** Set for UnsupportedCapabilityError */
+	capability?: string;
+}
+
+/**
+ * How a captured call ended: with a response or with an error. Streamed
+ * calls also keep their chunks so replays reproduce the same deltas.
+ */
+export type RecordedOutcome = {chunks?: string[]} & (
+	| {response: ChatResponse; error?: undefined}
+	| {error: RecordedError; response?: undefined}
+);
+
+/**
+ * One captured call.
+ */
+export type RecordedInteraction = {
+	key: string;
+	request: ChatRequest;
+} & RecordedOutcome;
+
+export interface FixtureFile {
+	provider: ProviderInfo;
+	interactions: RecordedInteraction[];
+}
+
+// Every error class of the errors module by name, so replays raise the
+// recorded type
+const ERROR_CLASSES = new Map(
+	Object.values(errors)
+		.filter(
+			(value): value is typeof AIProviderError =>
+				value === AIProviderError ||
+				(typeof value === 'function' &&
+					value.prototype instanceof AIProviderError),
+		)
+		.map(ErrorClass => [ErrorClass.name, ErrorClass]),
+);
+
+const RECORDED_ERROR_SCHEMA: JsonSchema = {
+	type: 'object',
+	required: ['name', 'message'],
+	properties: {
+		name: {type: 'string'},
+		message: {type: 'string'},
+		status: {type: 'integer'},
+		capability: {type: 'string'},
+	},
+};
+
+const FIXTURE_SCHEMA: JsonSchema = {
+	type: 'object',
+	required: ['provider', 'interactions'],
+	properties: {
+		provider: {
+			type: 'object',
+			required: ['name', 'supportedModels'],
+			properties: {
+				name: {type: 'string'},
+				supportedModels: {type: 'array', items: {type: 'string'}},
+			},
+		},
+		interactions: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['key', 'request'],
+				properties: {
+					key: {type: 'string'},
+					request: {
+						type: 'object',
+						required: ['messages'],
+						properties: {messages: {type: 'array'}},
+					},
+					response: {
+						type: 'object',
+						required: ['content', 'metadata'],
+						properties: {
+							content: {type: 'string'},
+							toolCalls: {type: 'array'},
+							metadata: {type: 'object', required: ['model']},
+						},
+					},
+					chunks: {type: 'array', items: {type: 'string'}},
+					error: RECORDED_ERROR_SCHEMA,
+				},
+			},
+		},
+	},
+};
+
+/**
+ * Checks that a fixture has the shape RecordingProvider writes and that
+ * every interaction has a response or an error to replay.
+ * @param source The fixture's file path, used in the error message
+ * @throws Error listing every problem with its interaction index
+ */
+export function validateFixture(fixture: unknown, source: string): FixtureFile {
+	const problems = validateJsonSchema(fixture, FIXTURE_SCHEMA);
+	if (problems.length === 0) {
+		(fixture as FixtureFile).interactions.forEach((interaction, index) => {
+			if (!interaction.response && !interaction.error) {
+				problems.push(
+					`$.interactions[${index}] has neither a response nor an error`,
+				);
+			}
+		});
+	}
+	if (problems.length > 0) {
+		throw new Error(
+			`Invalid fixture ${source}:\n${problems
+				.map(problem => `  - ${problem}`)
+				.join('\n')}`,
+		);
+	}
+	return fixture as FixtureFile;
+}
+
+/**
+ * Reads and validates a fixture file.
+ * @throws Error if the file is missing, not valid JSON or not a fixture
+ */
+export function loadFixtureFile(filePath: string): FixtureFile {
+	let fixture: unknown;
+	try {
+		fixture = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+	} catch (error) {
+		throw new Error(
+			`Cannot read fixture file ${filePath}: ${
+				error instanceof Error ? error.message : String(error)
+			}`,
+		);
+	}
+	return validateFixture(fixture, filePath);
+}
+
+/**
+ * An AIProvider that forwards calls to a real provider and appends every
+ * request with its response, chunks or error to a fixture file.
+ */
+export class RecordingProvider implements AIProvider {
+	private fixture: FixtureFile;
+
+	constructor(private provider: AIProvider, private filePath: string) {
+		this.fixture = {provider: provider.getProviderInfo(), interactions: []};
+	}
+
+	private record(request: ChatRequest, result: RecordedOutcome): void {
+		// Signals cannot be serialized and do not affect the answer
+		const {signal, ...recordedRequest} = request;
+		this.fixture.interactions.push({
+			key: getCacheKey(request, this.fixture.provider),
+			request: recordedRequest,
+			...result,
+		});
+		// Written after every call so a crash keeps what was captured so far
+		fs.mkdirSync(path.dirname(this.filePath), {recursive: true});
+		fs.writeFileSync(this.filePath, JSON.stringify(this.fixture, null, 2));
+	}
+
+	private toRecordedError(error: unknown): RecordedError {
+		const providerError = toProviderError(error, {
+			provider: this.fixture.provider.name,
+		});
+		return {
+			name: providerError.name,
+			message: providerError.message,
+			status: providerError.status,
+			capability:
+				providerError instanceof UnsupportedCapabilityError
+					? providerError.capability
+					: undefined,
+		};
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		try {
+			const response = await this.provider.createChatCompletion(request);
+			this.record(request, {response});
+			return response;
+		} catch (error) {
+			this.record(request, {error: this.toRecordedError(error)});
+			throw error;
+		}
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		const chunks: string[] = [];
+		const toolCalls: ToolCall[] = [];
+		try {
+			for await (const event of this.provider.createChatCompletionStream(
+				request,
+			)) {
+				if (event.type === 'delta') {
+					chunks.push(event.content);
+				} else if (event.type === 'tool_call') {
+					toolCalls.push(event.toolCall);
+				} else {
+					this.record(request, {
+						chunks,
+						response: {
+							content: chunks.join(''),
+							toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+							metadata: event.metadata,
+						},
+					});
+				}
+				yield event;
+			}
+		} catch (error) {
+			this.record(request, {chunks, error: this.toRecordedError(error)});
+			throw error;
+		}
+	}
+
+	// Embeddings pass through without being recorded
+	async createEmbeddings(
+		texts: string[],
+		options?: EmbeddingOptions,
+	): Promise<EmbeddingResponse> {
+		return embedTexts(this.provider, texts, options);
+	}
+
+	listModels(): Promise<ModelDescriptor[]> {
+		return listProviderModels(this.provider);
+	}
+
+	getProviderInfo(): ProviderInfo {
+		return this.provider.getProviderInfo();
+	}
+}
+
+/**
+ * An AIProvider that answers from a fixture file written by
+ * RecordingProvider. Requests are matched on the same normalized key the
+ * response cache uses; repeated identical requests replay their recordings in
+ * order, and the last one is reused once they run out.
+ */
+export class ReplayProvider implements AIProvider {
+	private fixture: FixtureFile;
+	private replayCounts = new Map<string, number>();
+
+	/**
+	 * @param fixture A fixture, or the path of a fixture file
+	 * @throws Error if the fixture cannot be read or an interaction is invalid
+	 */
+	constructor(fixture: FixtureFile | string) {
+		this.fixture =
+			typeof fixture === 'string'
+				? loadFixtureFile(fixture)
+				: validateFixture(fixture, 'passed to ReplayProvider');
+	}
+
+	private nextInteraction(request: ChatRequest): RecordedInteraction {
+		const key = getCacheKey(request, this.fixture.provider);
+		const matches = this.fixture.interactions.filter(
+			interaction => interaction.key === key,
+		);
+		if (matches.length === 0) {
+			throw new InvalidRequestError(
+				`No recorded interaction matches this request (key ${key}). Record it first.`,
+				{provider: this.fixture.provider.name, model: request.model},
+			);
+		}
+		const count = this.replayCounts.get(key) ?? 0;
+		this.replayCounts.set(key, count + 1);
+		return matches[Math.min(count, matches.length - 1)];
+	}
+
+	private toError(recorded: RecordedError): AIProviderError {
+		const ErrorClass = ERROR_CLASSES.get(recorded.name) ?? AIProviderError;
+		const details = {
+			provider: this.fixture.provider.name,
+			status: recorded.status,
+			capability: recorded.capability ?? 'unknown',
+		};
+		return new ErrorClass(recorded.message, details);
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		const interaction = this.nextInteraction(request);
+		if (interaction.error) {
+			throw this.toError(interaction.error);
+		}
+		return interaction.response;
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		const interaction = this.nextInteraction(request);
+		const chunks =
+			interaction.chunks ??
+			(interaction.response?.content ? [interaction.response.content] : []);
+		for (const chunk of chunks) {
+			yield {type: 'delta', content: chunk};
+		}
+		if (interaction.error) {
+			throw this.toError(interaction.error);
+		}
+		for (const toolCall of interaction.response?.toolCalls ?? []) {
+			yield {type: 'tool_call', toolCall};
+		}
+		yield {type: 'done', metadata: interaction.response.metadata};
+	}
+
+	// Fixtures hold chat interactions only, so embeddings cannot be replayed.
+	// Fixtures recorded before defaultModel existed use the first model.
+	getProviderInfo(): ProviderInfo {
+		const info = this.fixture.provider;
+		return {
+			...info,
+			defaultModel: info.defaultModel ?? info.supportedModels[0],
+			capabilities: {...info.capabilities, embeddings: false},
+		};
+	}
+}
@@ -0,0 +1,111 @@
+import {ChatRequest, ModelCapabilities} from './ai-provider.js';
+import {InvalidRequestError, UnsupportedCapabilityError} from './errors.js';
+import {hasAttachments} from './message-content.js';
+import {getModelDescriptor} from './model-catalog.js';
+
+// Handled by every provider, so never reported as ignored
+const ALWAYS_SUPPORTED: ReadonlyArray<keyof ChatRequest> = [
+	'messages',
+	'model',
+	'signal',
+	'timeoutMs',
+];
+
+/**
+ * Lists the optional parameters set on a request that a provider does not
+ * support. `messages`, `model`, `signal` and `timeoutMs` are always supported.
+ * @param request The incoming chat request
+ * @param supported Parameters the provider translates
+ * @returns Names of the parameters that will be ignored
+ */
+export function getIgnoredParams(
+	request: ChatRequest,
+	supported: ReadonlyArray<keyof ChatRequest>,
+): string[] {
+	return (Object.keys(request) as (keyof ChatRequest)[]).filter(
+		key =>
+			!ALWAYS_SUPPORTED.includes(key) &&
+			request[key] !== undefined &&
+			!supported.includes(key),
+	);
+}
+
+/**
+ * Combines the request's signal and timeout into the signal passed to the SDK.
+ * @returns undefined when the request can neither be cancelled nor time out
+ */
+export function getRequestSignal(request: {
+	signal?: AbortSignal;
+	timeoutMs?: number;
+}): AbortSignal | undefined {
+	const signals = [
+		request.signal,
+		request.timeoutMs !== undefined
+			? AbortSignal.timeout(request.timeoutMs)
+			: undefined,
+	].filter((signal): signal is AbortSignal => signal !== undefined);
+	return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+/**
+ * Checks a request against the model catalogue before anything is sent.
+ * Models missing from the catalogue, and capabilities it leaves unset, pass.
+ * @param provider Provider name as reported by getProviderInfo()
+ * @param model The model the request will use
+ * @param stream Whether the request is streamed
+ * @throws UnsupportedCapabilityError if the model lacks a capability the request needs
+ * @throws InvalidRequestError if maxTokens exceeds the model's output limit
+ */
+export function validateChatRequest(
+	provider: string,
+	model: string,
+	request: ChatRequest,
+	stream = false,
+): void {
+	const descriptor = getModelDescriptor(provider, model);
+	if (!descriptor) {
+		return;
+	}
+
+	const format = request.responseFormat;
+	const needs: Array<[keyof ModelCapabilities, boolean, string]> = [
+		['chat', true, 'chat completions'],
+		['streaming', stream, 'streaming'],
+		['tools', Boolean(request.tools?.length), 'tools'],
+		['jsonMode', format !== undefined && format.type !== 'text', 'JSON output'],
+		['vision', hasAttachments(request.messages), 'images or files'],
+	];
+	for (const [capability, needed, label] of needs) {
+		if (needed && descriptor.capabilities[capability] === false) {
+			throw new UnsupportedCapabilityError(
+				`${provider} model "${model}" does not support ${label}.`,
+				{provider, model, capability},
+			);
+		}
+	}
+
+	const {maxOutputTokens} = descriptor;
+	if (
+		request.maxTokens !== undefined &&
+		maxOutputTokens !== undefined &&
+		request.maxTokens > maxOutputTokens
+	) {
+		throw new InvalidRequestError(
+			`maxTokens (${request.maxTokens}) exceeds the output limit of ${provider} model "${model}" (${maxOutputTokens}).`,
+			{provider, model},
+		);
+	}
+}
+
+/**
+ * Rejects embedding requests for models the catalogue lists as chat-only.
+ * @throws UnsupportedCapabilityError
+ */
+export function validateEmbeddingModel(provider: string, model: string): void {
+	if (getModelDescriptor(provider, model)?.capabilities.embeddings === false) {
+		throw new UnsupportedCapabilityError(
+			`${provider} model "${model}" does not support embeddings.`,
+			{provider, model, capability: 'embeddings'},
+		);
+	}
+}
@@ -0,0 +1,155 @@
+import {describe, expect, it} from 'vitest';
+import {ChatRequest, ChatStreamEvent} from './ai-provider.js';
+import {
+	InvalidRequestError,
+	RateLimitError,
+	RequestCancelledError,
+	UpstreamUnavailableError,
+} from './errors.js';
+import {MockProvider} from './mock-provider.js';
+import {classifyError, withRetry} from './retry-provider.js';
+
+const REQUEST: ChatRequest = {messages: [{role: 'user', content: 'Hi'}]};
+
+const outage = () =>
+	new UpstreamUnavailableError('Service unavailable', {
+		provider: 'Mock',
+		status: 503,
+	});
+
+async function collect(
+	stream: AsyncGenerator<ChatStreamEvent>,
+): Promise<ChatStreamEvent[]> {
+	const events: ChatStreamEvent[] = [];
+	for await (const event of stream) {
+		events.push(event);
+	}
+	return events;
+}
+
+describe('classifyError', () => {
+	it('retries rate limits, timeouts and 5xx responses only', () => {
+		expect(classifyError({status: 429, message: 'Too many'}).retryable).toBe(
+			true,
+		);
+		expect(classifyError({status: 503, message: 'Down'}).retryable).toBe(true);
+		expect(classifyError({code: 'ETIMEDOUT', message: 'Slow'}).retryable).toBe(
+			true,
+		);
+		expect(classifyError({status: 400, message: 'Bad'}).retryable).toBe(false);
+		expect(classifyError({status: 401, message: 'Key'}).retryable).toBe(false);
+	});
+});
+
+describe('RetryingProvider', () => {
+	it('retries retryable failures and reports the attempts', async () => {
+		const mock = new MockProvider([
+			{error: outage()},
+			{error: outage()},
+			{content: 'Hello'},
+		]);
+		const retries: number[] = [];
+		const provider = withRetry(mock, {
+			baseDelayMs: 0,
+			onRetry: ({attempt}) => retries.push(attempt),
+		});
+
+		const response = await provider.createChatCompletion(REQUEST);
+
+		expect(response.content).toBe('Hello');
+		expect(response.metadata.attempts).toBe(3);
+		expect(retries).toEqual([1, 2]);
+	});
+
+	it('does not retry errors that would fail again', async () => {
+		const error = new InvalidRequestError('Bad request', {
+			provider: 'Mock',
+			status: 400,
+		});
+		const mock = new MockProvider([{error}, {content: 'Hello'}]);
+
+		await expect(
+			withRetry(mock, {baseDelayMs: 0}).createChatCompletion(REQUEST),
+		).rejects.toBe(error);
+		expect(mock.requests).toHaveLength(1);
+	});
+
+	it('gives up after maxAttempts with the last error', async () => {
+		const mock = new MockProvider({error: outage()});
+
+		await expect(
+			withRetry(mock, {maxAttempts: 2, baseDelayMs: 0}).createChatCompletion(
+				REQUEST,
+			),
+		).rejects.toBeInstanceOf(UpstreamUnavailableError);
+		expect(mock.requests).toHaveLength(2);
+	});
+
+	it('waits as long as Retry-After asks, up to maxDelayMs', async () => {
+		const mock = new MockProvider([
+			{
+				error: new RateLimitError('Slow down', {
+					provider: 'Mock',
+					status: 429,
+					retryAfterMs: 60_000,
+				}),
+			},
+			{content: 'Hello'},
+		]);
+		const delays: number[] = [];
+		const provider = withRetry(mock, {
+			maxDelayMs: 5,
+			onRetry: ({delayMs}) => delays.push(delayMs),
+		});
+
+		await provider.createChatCompletion(REQUEST);
+
+		expect(delays).toEqual([5]);
+	});
+
+	it('stops waiting with RequestCancelledError when the request is aborted', async () => {
+		const mock = new MockProvider({error: outage()});
+		const controller = new AbortController();
+		const provider = withRetry(mock, {baseDelayMs: 60_000, maxDelayMs: 60_000});
+		const startTime = Date.now();
+		setTimeout(() => controller.abort(), 20);
+
+		await expect(
+			provider.createChatCompletion({...REQUEST, signal: controller.signal}),
+		).rejects.toBeInstanceOf(RequestCancelledError);
+		expect(Date.now() - startTime).toBeLessThan(5_000);
+		expect(mock.requests).toHaveLength(1);
+	});
+
+	it('retries streams that fail before the first event', async () => {
+		const mock = new MockProvider([{error: outage()}, {content: 'Hello'}]);
+
+		const events = await collect(
+			withRetry(mock, {baseDelayMs: 0}).createChatCompletionStream(REQUEST),
+		);
+
+		expect(events[0]).toEqual({type: 'delta', content: 'Hello'});
+		expect(events.at(-1)).toMatchObject({
+			type: 'done',
+			metadata: {attempts: 2},
+		});
+	});
+
+	it('does not retry streams that already yielded output', async () => {
+		const mock = new MockProvider([
+			{chunks: ['Hel'], error: outage()},
+			{content: 'Hello'},
+		]);
+		const events: ChatStreamEvent[] = [];
+
+		await expect(async () => {
+			for await (const event of withRetry(mock, {
+				baseDelayMs: 0,
+			}).createChatCompletionStream(REQUEST)) {
+				events.push(event);
+			}
+		}).rejects.toBeInstanceOf(UpstreamUnavailableError);
+		expect(events).toEqual([{type: 'delta', content: 'Hel'}]);
+		expect(mock.requests).toHaveLength(1);
+	});
+});
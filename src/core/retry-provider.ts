@@ -0,0 +1,201 @@
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+	ProviderInfo,
+} from './ai-provider.js';
+import {RateLimitError, toProviderError} from './errors.js';
+import {embedTexts} from './embeddings.js';
+import {listProviderModels} from './model-catalog.js';
+
+// Architectural Pattern: Decorator - Wraps any AIProvider and adds retries
+// without the concrete providers knowing about it.
+
+export interface RetryOptions {
+	/** Total attempts including the first one (default 3) */
+	maxAttempts?: number;
+	/** Base delay for exponential backoff (default 500ms) */
+	baseDelayMs?: number;
+	/** Upper bound for a single delay, including Retry-After (default 30s) */
+	maxDelayMs?: number;
+	/** Called before each retry, e.g. for logging */
+	onRetry?: (info: {attempt: number; delayMs: number; error: unknown}) => void;
+}
+
+export interface ErrorClassification {
+	retryable: boolean;
+	status?: number;
+	/** Server-requested delay from Retry-After or Gemini's RetryInfo */
+	retryAfterMs?: number;
+}
+
+/**
+ * Decides whether a failed call is worth retrying, based on the typed error
+ * raised by the provider. Errors from other sources are converted first, so
+ * rate limits (429), timeouts, 5xx responses and network errors are retryable
+ * and every other client error is not.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+	const providerError = toProviderError(error, {provider: 'unknown'});
+	return {
+		retryable: providerError.retryable,
+		status: providerError.status,
+		retryAfterMs:
+			providerError instanceof RateLimitError
+				? providerError.retryAfterMs
+				: undefined,
+	};
+}
+
+// Resolves after the delay, or rejects early when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, {once: true});
+	});
+}
+
+/**
+ * An AIProvider that retries retryable failures of the wrapped provider with
+ * jittered exponential backoff. Streams are only retried if they fail before
+ * the first event was yielded. The attempt count is reported in
+ * `metadata.attempts`.
+ */
+export class RetryingProvider implements AIProvider {
+	private maxAttempts: number;
+	private baseDelayMs: number;
+	private maxDelayMs: number;
+
+	constructor(
+		private provider: AIProvider,
+		private options: RetryOptions = {},
+	) {
+		this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+		this.baseDelayMs = options.baseDelayMs ?? 500;
+		this.maxDelayMs = options.maxDelayMs ?? 30_000;
+	}
+
+	// Full jitter: a random delay up to the exponential ceiling
+	private getDelayMs(attempt: number, retryAfterMs?: number): number {
+		if (retryAfterMs !== undefined) {
+			return Math.min(retryAfterMs, this.maxDelayMs);
+		}
+		const ceiling = Math.min(
+			this.maxDelayMs,
+			this.baseDelayMs * 2 ** (attempt - 1),
+		);
+		return Math.round(Math.random() * ceiling);
+	}
+
+	// Rethrows when the error should not be retried, otherwise waits. A
+	// request cancelled while waiting fails with RequestCancelledError.
+	private async backOff(
+		attempt: number,
+		error: unknown,
+		request: ChatRequest | EmbeddingOptions,
+	): Promise<void> {
+		const classification = classifyError(error);
+		if (
+			!classification.retryable ||
+			attempt >= this.maxAttempts ||
+			request.signal?.aborted
+		) {
+			throw error;
+		}
+		const delayMs = this.getDelayMs(attempt, classification.retryAfterMs);
+		this.options.onRetry?.({attempt, delayMs, error});
+		try {
+			await sleep(delayMs, request.signal);
+		} catch (reason) {
+			throw toProviderError(reason, {
+				provider: this.provider.getProviderInfo().name,
+				model: request.model,
+				signal: request.signal,
+			});
+		}
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				const response = await this.provider.createChatCompletion(request);
+				return {
+					...response,
+					metadata: {...response.metadata, attempts: attempt},
+				};
+			} catch (error) {
+				await this.backOff(attempt, error, request);
+			}
+		}
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		for (let attempt = 1; ; attempt++) {
+			let started = false;
+			try {
+				for await (const event of this.provider.createChatCompletionStream(
+					request,
+				)) {
+					started = true;
+					yield event.type === 'done'
+						? {
+								...event,
+								metadata: {...event.metadata, attempts: attempt},
+						  }
+						: event;
+				}
+				return;
+			} catch (error) {
+				// Output already reached the consumer, so a retry would duplicate it
+				if (started) {
+					throw error;
+				}
+				await this.backOff(attempt, error, request);
+			}
+		}
+	}
+
+	async createEmbeddings(
+		texts: string[],
+		options: EmbeddingOptions = {},
+	): Promise<EmbeddingResponse> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await embedTexts(this.provider, texts, options);
+			} catch (error) {
+				await this.backOff(attempt, error, options);
+			}
+		}
+	}
+
+	listModels(): Promise<ModelDescriptor[]> {
+		return listProviderModels(this.provider);
+	}
+
+	getProviderInfo(): ProviderInfo {
+		return this.provider.getProviderInfo();
+	}
+}
+
+/**
+ * Wraps a provider so retryable failures are retried with backoff.
+ */
+export function withRetry(
+	provider: AIProvider,
+	options: RetryOptions = {},
+): AIProvider {
+	return new RetryingProvider(provider, options);
+}
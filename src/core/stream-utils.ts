@@ -0,0 +1,28 @@
+import {ChatResponse, ChatStreamEvent, ToolCall} from './ai-provider.js';
+
+/**
+ * Consumes a stream and assembles the equivalent non-streaming response.
+ * @param stream Events from `createChatCompletionStream`
+ * @returns The concatenated content and tool calls with the `done` metadata
+ * @throws Error if the stream ends without a `done` event
+ */
+export async function collectStream(
+	stream: AsyncIterable<ChatStreamEvent>,
+): Promise<ChatResponse> {
+	let content = '';
+	const toolCalls: ToolCall[] = [];
+	for await (const event of stream) {
+		if (event.type === 'delta') {
+			content += event.content;
+		} else if (event.type === 'tool_call') {
+			toolCalls.push(event.toolCall);
+		} else if (event.type === 'done') {
+			return {
+				content,
+				toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+				metadata: event.metadata,
+			};
+		}
+	}
+	throw new Error('Stream ended without a completion event.');
+}
@@ -0,0 +1,162 @@
+import {describe, expect, it} from 'vitest';
+import {ChatRequest} from './ai-provider.js';
+import {JsonSchema} from './json-schema.js';
+import {MockProvider} from './mock-provider.js';
+import {
+	extractJson,
+	generateObject,
+	TypedValidator,
+} from './structured-output.js';
+
+const REQUEST: ChatRequest = {
+	messages: [{role: 'user', content: 'Name a colour.'}],
+};
+
+const SCHEMA: JsonSchema = {
+	type: 'object',
+	required: ['colour'],
+	properties: {colour: {type: 'string'}},
+	additionalProperties: false,
+};
+
+describe('extractJson', () => {
+	it.each([
+		['```json\n{"a": 1}\n```', '{"a": 1}'],
+		['Here you go: {"a": {"b": 2}} Enjoy!', '{"a": {"b": 2}}'],
+		['Sure:\n[1, 2]', '[1, 2]'],
+		['no json here', 'no json here'],
+	])('extracts the payload of %j', (text, json) => {
+		expect(extractJson(text)).toBe(json);
+	});
+});
+
+describe('generateObject', () => {
+	it('returns the value of a valid first answer', async () => {
+		const provider = new MockProvider({content: '{"colour": "teal"}'});
+		const warnings: string[] = [];
+
+		const result = await generateObject(provider, REQUEST, SCHEMA, {
+			schemaName: 'colour',
+			warn: message => warnings.push(message),
+		});
+
+		expect(result).toMatchObject({
+			ok: true,
+			value: {colour: 'teal'},
+			attempts: 1,
+		});
+		expect(warnings).toEqual([]);
+		const [request] = provider.requests;
+		expect(request.responseFormat).toEqual({
+			type: 'json_schema',
+			name: 'colour',
+			schema: SCHEMA,
+		});
+		expect(request.messages[0]).toMatchObject({role: 'system'});
+		expect(request.messages[0].content).toContain(JSON.stringify(SCHEMA));
+	});
+
+	it('sends parse and validation errors back for repair', async () => {
+		const provider = new MockProvider([
+			{content: 'Sure! {"colour": '},
+			{content: '{"colour": 7}'},
+			{content: '{"colour": "teal"}'},
+		]);
+		const warnings: string[] = [];
+
+		const result = await generateObject(provider, REQUEST, SCHEMA, {
+			warn: message => warnings.push(message),
+		});
+
+		expect(result).toMatchObject({
+			ok: true,
+			value: {colour: 'teal'},
+			attempts: 3,
+		});
+		expect(warnings).toHaveLength(2);
+		expect(warnings[0]).toMatch(/^Structured output attempt 1\/3 failed: /);
+		expect(warnings[1]).toBe(
+			'Structured output attempt 2/3 failed: $.colour should be string, got number',
+		);
+		// Each repair request carries the failed answers and their errors
+		const repair = provider.requests[2].messages.slice(-4);
+		expect(repair.map(message => message.role)).toEqual([
+			'assistant',
+			'user',
+			'assistant',
+			'user',
+		]);
+		expect(repair[1].content).toMatch(
+			/^That response was not valid \(Invalid JSON\)/,
+		);
+		expect(repair[3].content).toBe(
+			'That response was not valid (JSON does not match the schema):\n- $.colour should be string, got number\nReply with the corrected JSON only.',
+		);
+	});
+
+	it('returns the last failure once the repairs are used up', async () => {
+		const provider = new MockProvider({content: '{"color": "teal"}'});
+
+		const result = await generateObject(provider, REQUEST, SCHEMA, {
+			maxRepairAttempts: 1,
+			warn: () => {},
+		});
+
+		expect(result).toEqual({
+			ok: false,
+			attempts: 2,
+			error: {
+				kind: 'validation',
+				message: 'JSON does not match the schema',
+				errors: ['$.colour is required', '$.color is not allowed'],
+				raw: '{"color": "teal"}',
+			},
+		});
+		expect(provider.requests).toHaveLength(2);
+	});
+
+	it('makes no call when no attempt is allowed', async () => {
+		const provider = new MockProvider({content: '{"colour": "teal"}'});
+
+		const result = await generateObject(provider, REQUEST, SCHEMA, {
+			maxRepairAttempts: -1,
+		});
+
+		expect(result).toMatchObject({
+			ok: false,
+			attempts: 0,
+			error: {message: 'No attempt was made'},
+		});
+		expect(provider.requests).toHaveLength(0);
+	});
+
+	it('uses typed validators and JSON mode without a schema', async () => {
+		const validator: TypedValidator<number> = {
+			validate: value =>
+				typeof value === 'number'
+					? {success: true, value}
+					: {success: false, errors: ['expected a number']},
+		};
+		const provider = new MockProvider([{content: '"seven"'}, {content: '7'}]);
+
+		const result = await generateObject(provider, REQUEST, validator, {
+			warn: () => {},
+		});
+
+		expect(result).toMatchObject({ok: true, value: 7, attempts: 2});
+		expect(provider.requests[0].responseFormat).toEqual({type: 'json_object'});
+		// No schema to describe in a system message
+		expect(provider.requests[0].messages[0]).toEqual(REQUEST.messages[0]);
+	});
+
+	it('leaves out the response format for models without JSON mode', async () => {
+		const provider = new MockProvider(
+			{content: '{"colour": "teal"}'},
+			{name: 'OpenAI', defaultModel: 'o1-mini'},
+		);
+
+		await generateObject(provider, REQUEST, SCHEMA);
+
+		expect(provider.requests[0].responseFormat).toBeUndefined();
+	});
+});
@@ -0,0 +1,198 @@
+import {
+	AIProvider,
+	ChatMessage,
+	ChatRequest,
+	ChatResponse,
+} from './ai-provider.js';
+import {JsonSchema, validateJsonSchema} from './json-schema.js';
+import {getModelDescriptor} from './model-catalog.js';
+
+// Architectural Pattern: Validate-and-Repair Loop - Invalid model output is sent back
+// to the model together with the validation errors, a bounded number of times.
+
+export type ValidationResult<T> =
+	| {success: true; value: T}
+	| {success: false; errors: string[]};
+
+/**
+ * A hand-written or library-backed validator. Providing `schema` as well lets
+ * the provider's native JSON-schema mode be used.
+ */
+export interface TypedValidator<T> {
+	validate(value: unknown): ValidationResult<T>;
+	schema?: JsonSchema;
+}
+
+export interface GenerateObjectOptions {
+	/** Number of repair requests after the first attempt (default 2) */
+	maxRepairAttempts?: number;
+	/** Name passed to providers with native JSON-schema support */
+	schemaName?: string;
+	/** Receives a warning for every failed attempt (default: console.warn) */
+	warn?: (message: string) => void;
+}
+
+export interface StructuredOutputFailure {
+	kind: 'parse' | 'validation';
+	message: string;
+	errors: string[];
+	/** The last raw model output */
+	raw: string;
+}
+
+export type GenerateObjectResult<T> =
+	| {ok: true; value: T; response: ChatResponse; attempts: number}
+	| {ok: false; error: StructuredOutputFailure; attempts: number};
+
+function isTypedValidator<T>(
+	schema: JsonSchema | TypedValidator<T>,
+): schema is TypedValidator<T> {
+	return typeof (schema as TypedValidator<T>).validate === 'function';
+}
+
+/**
+ * Extracts the JSON payload from a model reply, removing markdown code fences
+ * and any prose around the outermost object or array.
+ */
+export function extractJson(text: string): string {
+	const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+	const candidate = (fenced ? fenced[1] : text).trim();
+	const start = candidate.search(/[[{]/);
+	if (start === -1) {
+		return candidate;
+	}
+	const closing = candidate[start] === '{' ? '}' : ']';
+	const end = candidate.lastIndexOf(closing);
+	return end > start ? candidate.slice(start, end + 1) : candidate;
+}
+
+// Parses and validates one model reply
+function checkOutput<T>(
+	raw: string,
+	validate: (value: unknown) => ValidationResult<T>,
+):
+	| {success: true; value: T}
+	| {success: false; failure: StructuredOutputFailure} {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(extractJson(raw));
+	} catch (parseError) {
+		const message =
+			parseError instanceof Error ? parseError.message : String(parseError);
+		return {
+			success: false,
+			failure: {kind: 'parse', message: 'Invalid JSON', errors: [message], raw},
+		};
+	}
+
+	const result = validate(parsed);
+	if (result.success) {
+		return result;
+	}
+	return {
+		success: false,
+		failure: {
+			kind: 'validation',
+			message: 'JSON does not match the schema',
+			errors: result.errors,
+			raw,
+		},
+	};
+}
+
+/**
+ * Requests a JSON object from the model and validates it. On parse or
+ * validation failure the errors are sent back to the model for repair.
+ * Provider errors are not caught.
+ * @param provider The provider to call
+ * @param request The chat request; its response format is set automatically,
+ * unless the catalogue lists the model without JSON mode
+ * @param schema A JSON Schema, or a typed validator
+ * @param options Repair attempts, schema name and warning sink
+ * @returns The typed value, or a structured failure after the last attempt
+ */
+export async function generateObject<T>(
+	provider: AIProvider,
+	request: ChatRequest,
+	schema: JsonSchema | TypedValidator<T>,
+	options: GenerateObjectOptions = {},
+): Promise<GenerateObjectResult<T>> {
+	const maxAttempts = (options.maxRepairAttempts ?? 2) + 1;
+	const warn = options.warn ?? console.warn;
+	const jsonSchema = isTypedValidator(schema) ? schema.schema : schema;
+	const validate = (value: unknown): ValidationResult<T> => {
+		if (isTypedValidator(schema)) {
+			return schema.validate(value);
+		}
+		const errors = validateJsonSchema(value, schema);
+		return errors.length === 0
+			? {success: true, value: value as T}
+			: {success: false, errors};
+	};
+
+	const messages: ChatMessage[] = [...request.messages];
+	if (jsonSchema) {
+		// Providers without native schema support still see the schema this way
+		messages.unshift({
+			role: 'system',
+			content: `Respond ONLY with JSON that matches this JSON Schema:\n${JSON.stringify(
+				jsonSchema,
+			)}`,
+		});
+	}
+
+	// Models without JSON mode get the schema in the prompt only
+	const info = provider.getProviderInfo();
+	const jsonMode =
+		getModelDescriptor(info.name, request.model ?? info.defaultModel)
+			?.capabilities.jsonMode !== false;
+	const responseFormat: ChatRequest['responseFormat'] = !jsonMode
+		? undefined
+		: jsonSchema
+		? {
+				type: 'json_schema',
+				name: options.schemaName ?? 'response',
+				schema: jsonSchema,
+		  }
+		: {type: 'json_object'};
+
+	// Only returned as is when `maxRepairAttempts` leaves no attempt
+	let lastFailure: StructuredOutputFailure = {
+		kind: 'parse',
+		message: 'No attempt was made',
+		errors: [`maxRepairAttempts must be 0 or more, got ${maxAttempts - 1}`],
+		raw: '',
+	};
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		const response = await provider.createChatCompletion({
+			...request,
+			messages,
+			responseFormat,
+		});
+
+		const result = checkOutput(response.content, validate);
+		if (result.success) {
+			return {ok: true, value: result.value, response, attempts: attempt};
+		}
+
+		lastFailure = result.failure;
+		warn(
+			`Structured output attempt ${attempt}/${maxAttempts} failed: ${lastFailure.errors.join(
+				'; ',
+			)}`,
+		);
+		messages.push(
+			{role: 'assistant', content: response.content},
+			{
+				role: 'user',
+				content: `That response was not valid (${
+					lastFailure.message
+				}):\n- ${lastFailure.errors.join(
+					'\n- ',
+				)}\nReply with the corrected JSON only.`,
+			},
+		);
+	}
+
+	return {ok: false, error: lastFailure, attempts: Math.max(0, maxAttempts)};
+}
@@ -0,0 +1,117 @@
+import {
+	AIProvider,
+	ChatMessage,
+	ChatRequest,
+	ChatResponse,
+	ToolCall,
+	ToolDefinition,
+} from './ai-provider.js';
+
+/**
+ * A tool definition paired with the function that runs it.
+ * The value returned by `execute` is sent back to the model as JSON.
+ */
+export interface Tool extends ToolDefinition {
+	execute(args: Record<string, unknown>): unknown | Promise<unknown>;
+}
+
+export interface ToolExecution {
+	toolCall: ToolCall;
+	result?: unknown;
+	error?: string;
+}
+
+export interface ToolLoopOptions {
+	/** Maximum number of model calls before giving up (default 5) */
+	maxIterations?: number;
+	/** Called after every tool execution, e.g. for logging */
+	onToolExecuted?: (execution: ToolExecution) => void;
+}
+
+export interface ToolLoopResult {
+	/** The model's final response, which contains no further tool calls */
+	response: ChatResponse;
+	/** The full conversation including tool calls and results */
+	messages: ChatMessage[];
+	executions: ToolExecution[];
+}
+
+async function executeToolCall(
+	tools: Tool[],
+	toolCall: ToolCall,
+): Promise<ToolExecution> {
+	const tool = tools.find(candidate => candidate.name === toolCall.name);
+	if (!tool) {
+		return {toolCall, error: `Unknown tool "${toolCall.name}"`};
+	}
+	try {
+		return {toolCall, result: await tool.execute(toolCall.arguments)};
+	} catch (error) {
+		return {
+			toolCall,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+/**
+ * Runs a chat request with tools: whenever the model asks for tool calls they
+ * are executed and their results fed back, until the model answers in text.
+ * Tool failures are reported to the model rather than thrown.
+ * @param provider The provider to call
+ * @param request The initial request; its `tools` are replaced by `tools`
+ * @param tools Tools the model may call
+ * @param options Iteration limit and execution callback
+ * @throws Error if the model is still calling tools after `maxIterations`
+ */
+export async function runWithTools(
+	provider: AIProvider,
+	request: ChatRequest,
+	tools: Tool[],
+	options: ToolLoopOptions = {},
+): Promise<ToolLoopResult> {
+	const maxIterations = options.maxIterations ?? 5;
+	const messages = [...request.messages];
+	const executions: ToolExecution[] = [];
+	const definitions: ToolDefinition[] = tools.map(
+		({name, description, parameters}) => ({name, description, parameters}),
+	);
+
+	for (let iteration = 0; iteration < maxIterations; iteration++) {
+		const response = await provider.createChatCompletion({
+			...request,
+			messages,
+			tools: definitions,
+		});
+
+		if (!response.toolCalls?.length) {
+			return {response, messages, executions};
+		}
+
+		messages.push({
+			role: 'assistant',
+			content: response.content,
+			toolCalls: response.toolCalls,
+		});
+
+		for (const toolCall of response.toolCalls) {
+			const execution = await executeToolCall(tools, toolCall);
+			executions.push(execution);
+			options.onToolExecuted?.(execution);
+			messages.push({
+				role: 'tool',
+				toolCallId: toolCall.id,
+				name: toolCall.name,
+				content: JSON.stringify(
+					execution.error !== undefined
+						? {error: execution.error}
+						: execution.result ?? null,
+				),
+			});
+		}
+	}
+
+	throw new Error(
+		`Model was still requesting tools after ${maxIterations} iterations.`,
+	);
+}
@@ -0,0 +1,209 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {afterAll, beforeAll, beforeEach, describe, expect, it} from 'vitest';
+import {ChatRequest} from './ai-provider.js';
+import {withMiddleware} from './middleware.js';
+import {MockProvider} from './mock-provider.js';
+import {
+	createTracingMiddleware,
+	OtlpHttpSpanExporter,
+	SpanData,
+	toOtlpJson,
+} from './tracing.js';
+
+const REQUEST: ChatRequest = {
+	messages: [{role: 'user', content: 'Hi'}],
+	temperature: 0.5,
+};
+
+const SPAN: SpanData = {
+	traceId: 'a'.repeat(32),
+	spanId: 'b'.repeat(16),
+	name: 'chat mock-model',
+	startTime: 1_700_000_000_000,
+	endTime: 1_700_000_000_250,
+	attributes: {'gen_ai.system': 'mock', 'gen_ai.request.temperature': 0.5},
+	events: [],
+	status: {code: 'ok'},
+};
+
+interface OtlpSpan {
+	name: string;
+	status: {code: number; message?: string};
+	attributes: {key: string; value: Record<string, unknown>}[];
+}
+
+interface Export {
+	url?: string;
+	headers: http.IncomingHttpHeaders;
+	body: {resourceSpans: {scopeSpans: {spans: OtlpSpan[]}[]}[]};
+}
+
+// A stand-in OpenTelemetry collector
+let collector: http.Server;
+let endpoint: string;
+const exports: Export[] = [];
+
+beforeAll(async () => {
+	collector = http.createServer((request, response) => {
+		let body = '';
+		request.on('data', chunk => (body += chunk));
+		request.on('end', () => {
+			exports.push({
+				url: request.url,
+				headers: request.headers,
+				body: JSON.parse(body),
+			});
+			response.writeHead(200, {'content-type': 'application/json'});
+			response.end('{}');
+		});
+	});
+	await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+	endpoint = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	collector.closeAllConnections();
+	await new Promise(resolve => collector.close(resolve));
+});
+
+beforeEach(() => {
+	exports.length = 0;
+});
+
+describe('toOtlpJson', () => {
+	it('encodes spans as an ExportTraceServiceRequest', () => {
+		expect(toOtlpJson([SPAN], 'my-app')).toEqual({
+			resourceSpans: [
+				{
+					resource: {
+						attributes: [{key: 'service.name', value: {stringValue: 'my-app'}}],
+					},
+					scopeSpans: [
+						{
+							scope: {name: 'ai-providers'},
+							spans: [
+								{
+									traceId: SPAN.traceId,
+									spanId: SPAN.spanId,
+									name: 'chat mock-model',
+									kind: 3,
+									startTimeUnixNano: '1700000000000000000',
+									endTimeUnixNano: '1700000000250000000',
+									attributes: [
+										{key: 'gen_ai.system', value: {stringValue: 'mock'}},
+										{
+											key: 'gen_ai.request.temperature',
+											value: {doubleValue: 0.5},
+										},
+									],
+									events: [],
+									status: {code: 1},
+								},
+							],
+						},
+					],
+				},
+			],
+		});
+	});
+});
+
+describe('OtlpHttpSpanExporter', () => {
+	it('posts spans to the collector with its headers', async () => {
+		const exporter = new OtlpHttpSpanExporter({
+			endpoint: `${endpoint}/`,
+			headers: {authorization: 'Bearer trace-key'},
+			serviceName: 'my-app',
+		});
+
+		await exporter.export([SPAN]);
+
+		expect(exports).toHaveLength(1);
+		expect(exports[0].url).toBe('/v1/traces');
+		expect(exports[0].headers).toMatchObject({
+			'content-type': 'application/json',
+			authorization: 'Bearer trace-key',
+		});
+		expect(exports[0].body).toEqual(toOtlpJson([SPAN], 'my-app'));
+	});
+
+	it('keeps a full traces URL as it is', async () => {
+		await new OtlpHttpSpanExporter({
+			endpoint: `${endpoint}/v1/traces`,
+		}).export([SPAN]);
+
+		expect(exports[0].url).toBe('/v1/traces');
+	});
+
+	it('rejects when the collector answers with an error', async () => {
+		const exporter = new OtlpHttpSpanExporter({
+			endpoint: 'http://collector.test',
+			fetchImpl: async () =>
+				new Response('overloaded', {status: 503, statusText: 'Unavailable'}),
+		});
+
+		await expect(exporter.export([SPAN])).rejects.toThrow(
+			'Collector at http://collector.test/v1/traces answered 503 Unavailable',
+		);
+	});
+
+	it('waits for exports in flight on shutdown', async () => {
+		const exporter = new OtlpHttpSpanExporter({endpoint});
+
+		void exporter.export([SPAN]);
+		await exporter.shutdown();
+
+		expect(exports).toHaveLength(1);
+	});
+});
+
+describe('createTracingMiddleware', () => {
+	it('exports a span per call with GenAI attributes', async () => {
+		const exporter = new OtlpHttpSpanExporter({endpoint});
+		const provider = withMiddleware(
+			new MockProvider(
+				{
+					content: 'Hello',
+					usage: {prompt_tokens: 5, completion_tokens: 2},
+				},
+				{name: 'Mock', defaultModel: 'mock-model'},
+			),
+			[createTracingMiddleware(exporter)],
+		);
+
+		await provider.createChatCompletion(REQUEST);
+		await exporter.shutdown();
+
+		const [span] = exports[0].body.resourceSpans[0].scopeSpans[0].spans;
+		expect(span.name).toBe('chat mock-model');
+		expect(span.status).toEqual({code: 1});
+		expect(span.attributes).toEqual(
+			expect.arrayContaining([
+				{key: 'gen_ai.system', value: {stringValue: 'mock'}},
+				{key: 'gen_ai.request.temperature', value: {doubleValue: 0.5}},
+				{key: 'gen_ai.usage.input_tokens', value: {intValue: '5'}},
+				{key: 'gen_ai.usage.output_tokens', value: {intValue: '2'}},
+			]),
+		);
+	});
+
+	it('reports export failures once without failing the call', async () => {
+		const failures: unknown[] = [];
+		const exporter = new OtlpHttpSpanExporter({
+			endpoint: 'http://collector.test',
+			fetchImpl: async () => new Response('', {status: 500}),
+		});
+		const provider = withMiddleware(new MockProvider({content: 'Hello'}), [
+			createTracingMiddleware(exporter, {
+				onExportError: error => failures.push(error),
+			}),
+		]);
+
+		await provider.createChatCompletion(REQUEST);
+		await provider.createChatCompletion(REQUEST);
+		await exporter.shutdown();
+
+		expect(failures).toHaveLength(1);
+	});
+});
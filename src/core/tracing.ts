@@ -0,0 +1,299 @@
+import fs from 'fs';
+import path from 'path';
+import {ChatResponse} from './ai-provider.js';
+import {CallContext, ProviderMiddleware} from './middleware.js';
+
+// Every provider call becomes a span in the OpenTelemetry (OTLP/JSON) format,
+// following the GenAI semantic conventions, so traces can be read by any
+// OpenTelemetry collector or backend.
+
+export type SpanAttributeValue = string | number | boolean | string[];
+
+/**
+ * A finished span, before encoding.
+ */
+export interface SpanData {
+	traceId: string;
+	spanId: string;
+	name: string;
+	/** Epoch milliseconds */
+	startTime: number;
+	endTime: number;
+	attributes: Record<string, SpanAttributeValue>;
+	events: {
+		name: string;
+		time: number;
+		attributes: Record<string, SpanAttributeValue>;
+	}[];
+	status: {code: 'ok' | 'error'; message?: string};
+}
+
+/**
+ * Receives finished spans, e.g. to write them to a file or a collector.
+ */
+export interface SpanExporter {
+	export(spans: SpanData[]): Promise<void>;
+	/** Waits for spans still being exported */
+	shutdown(): Promise<void>;
+}
+
+export const DEFAULT_SERVICE_NAME = 'ai-providers';
+
+// OTLP enum values
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+function toAnyValue(value: SpanAttributeValue): Record<string, unknown> {
+	if (Array.isArray(value)) {
+		return {arrayValue: {values: value.map(item => ({stringValue: item}))}};
+	}
+	switch (typeof value) {
+		case 'boolean':
+			return {boolValue: value};
+		case 'number':
+			// OTLP/JSON encodes 64-bit integers as strings
+			return Number.isInteger(value)
+				? {intValue: String(value)}
+				: {doubleValue: value};
+		default:
+			return {stringValue: value};
+	}
+}
+
+function toKeyValues(attributes: Record<string, SpanAttributeValue>) {
+	return Object.entries(attributes).map(([key, value]) => ({
+		key,
+		value: toAnyValue(value),
+	}));
+}
+
+const toUnixNano = (time: number) => `${Math.round(time)}000000`;
+
+/**
+ * Encodes spans as an OTLP/JSON `ExportTraceServiceRequest`.
+ */
+export function toOtlpJson(
+	spans: SpanData[],
+	serviceName: string = DEFAULT_SERVICE_NAME,
+): object {
+	return {
+		resourceSpans: [
+			{
+				resource: {
+					attributes: toKeyValues({'service.name': serviceName}),
+				},
+				scopeSpans: [
+					{
+						scope: {name: DEFAULT_SERVICE_NAME},
+						spans: spans.map(span => ({
+							traceId: span.traceId,
+							spanId: span.spanId,
+							name: span.name,
+							kind: SPAN_KIND_CLIENT,
+							startTimeUnixNano: toUnixNano(span.startTime),
+							endTimeUnixNano: toUnixNano(span.endTime),
+							attributes: toKeyValues(span.attributes),
+							events: span.events.map(event => ({
+								name: event.name,
+								timeUnixNano: toUnixNano(event.time),
+								attributes: toKeyValues(event.attributes),
+							})),
+							status:
+								span.status.code === 'ok'
+									? {code: STATUS_CODE_OK}
+									: {code: STATUS_CODE_ERROR, message: span.status.message},
+						})),
+					},
+				],
+			},
+		],
+	};
+}
+
+/**
+ * Appends spans to a file, one OTLP/JSON request per line, the format the
+ * collector's `otlpjsonfile` receiver reads.
+ */
+export class FileSpanExporter implements SpanExporter {
+	constructor(
+		private readonly filePath: string,
+		private readonly serviceName: string = DEFAULT_SERVICE_NAME,
+	) {}
+
+	async export(spans: SpanData[]): Promise<void> {
+		// Written synchronously so spans of a process that exits right after
+		// the call are not lost
+		fs.mkdirSync(path.dirname(this.filePath), {recursive: true});
+		fs.appendFileSync(
+			this.filePath,
+			JSON.stringify(toOtlpJson(spans, this.serviceName)) + '\n',
+		);
+	}
+
+	async shutdown(): Promise<void> {}
+}
+
+export interface OtlpHttpExporterOptions {
+	/** Collector base URL, e.g. `http://localhost:4318`, or the full traces URL */
+	endpoint: string;
+	/** Sent with every export, e.g. for authentication */
+	headers?: Record<string, string>;
+	serviceName?: string;
+	/** Per export (default 10s) */
+	timeoutMs?: number;
+	fetchImpl?: typeof fetch;
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector over OTLP/HTTP with JSON bodies.
+ * Each call's span is sent right away; shutdown() waits for those in flight.
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+	private readonly url: string;
+	private readonly pending = new Set<Promise<void>>();
+
+	constructor(private readonly options: OtlpHttpExporterOptions) {
+		const endpoint = options.endpoint.replace(/\/+$/, '');
+		this.url = endpoint.endsWith('/v1/traces')
+			? endpoint
+			: `${endpoint}/v1/traces`;
+	}
+
+	export(spans: SpanData[]): Promise<void> {
+		const fetchImpl = this.options.fetchImpl ?? fetch;
+		const request = fetchImpl(this.url, {
+			method: 'POST',
+			headers: {'content-type': 'application/json', ...this.options.headers},
+			body: JSON.stringify(toOtlpJson(spans, this.options.serviceName)),
+			signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000),
+		}).then(response => {
+			if (!response.ok) {
+				throw new Error(
+					`Collector at ${this.url} answered ${response.status} ${response.statusText}`,
+				);
+			}
+		});
+		const tracked = request.finally(() => this.pending.delete(tracked));
+		this.pending.add(tracked);
+		return tracked;
+	}
+
+	async shutdown(): Promise<void> {
+		await Promise.allSettled([...this.pending]);
+	}
+}
+
+// Exporters of every tracing middleware, so spans still being sent can be
+// awaited before the process ends
+const activeExporters = new Set<SpanExporter>();
+
+/**
+ * Waits for the spans all tracing middleware are still exporting, e.g. before
+ * the CLI exits or when the gateway closes.
+ */
+export async function shutdownSpanExporters(): Promise<void> {
+	await Promise.allSettled(
+		[...activeExporters].map(exporter => exporter.shutdown()),
+	);
+}
+
+export interface TracingOptions {
+	/** Receives export failures once per exporter (default: console.warn) */
+	onExportError?: (error: unknown) => void;
+}
+
+// Request and response details in GenAI semantic convention attributes
+function getAttributes(
+	context: CallContext,
+	response?: ChatResponse,
+): Record<string, SpanAttributeValue> {
+	const {request} = context;
+	const metadata = response?.metadata;
+	const attributes: Record<string, SpanAttributeValue | undefined> = {
+		'gen_ai.operation.name': 'chat',
+		'gen_ai.system': (metadata?.provider ?? context.provider).toLowerCase(),
+		'gen_ai.request.model': context.model,
+		'gen_ai.request.temperature': request.temperature,
+		'gen_ai.request.top_p': request.topP,
+		'gen_ai.request.max_tokens': request.maxTokens,
+		'gen_ai.response.model': metadata?.model,
+		'gen_ai.response.finish_reasons': metadata?.finishReason && [
+			metadata.finishReason,
+		],
+		'gen_ai.usage.input_tokens': metadata?.usage?.prompt_tokens,
+		'gen_ai.usage.output_tokens': metadata?.usage?.completion_tokens,
+		'ai_providers.stream': context.stream,
+		'ai_providers.time_to_first_token_ms':
+			metadata?.timeToFirstTokenMs ?? context.timeToFirstTokenMs,
+		'ai_providers.attempts': metadata?.attempts,
+		'ai_providers.cache_hit': metadata?.cacheHit,
+		'ai_providers.cost_usd': metadata?.cost?.totalCost,
+	};
+	return Object.fromEntries(
+		Object.entries(attributes).filter(([, value]) => value !== undefined),
+	) as Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Middleware that records a span per call and hands it to the exporter.
+ * Export failures never fail the call.
+ */
+export function createTracingMiddleware(
+	exporter: SpanExporter,
+	{
+		onExportError = error => console.warn(`Span export failed: ${error}`),
+	}: TracingOptions = {},
+): ProviderMiddleware {
+	activeExporters.add(exporter);
+	let reportedFailure = false;
+	const record = (
+		context: CallContext,
+		response: ChatResponse | undefined,
+		error?: unknown,
+	) => {
+		const endTime = Date.now();
+		const attributes = getAttributes(context, response);
+		if (error !== undefined) {
+			attributes['error.type'] = error instanceof Error ? error.name : 'Error';
+		}
+		const span: SpanData = {
+			traceId: context.traceId,
+			spanId: context.spanId,
+			name: `chat ${context.model}`,
+			startTime: context.startTime,
+			endTime,
+			attributes,
+			// Providers of a fallback chain that failed before one answered
+			events: (response?.metadata.failedAttempts ?? []).map(attempt => ({
+				name: 'ai_providers.fallback',
+				time: endTime,
+				attributes: {
+					'gen_ai.system': attempt.provider.toLowerCase(),
+					'error.message': attempt.error,
+				},
+			})),
+			status:
+				error === undefined
+					? {code: 'ok'}
+					: {
+							code: 'error',
+							message: error instanceof Error ? error.message : String(error),
+					  },
+		};
+		exporter.export([span]).catch(exportError => {
+			if (!reportedFailure) {
+				reportedFailure = true;
+				onExportError(exportError);
+			}
+		});
+	};
+	return {
+		after(context, response) {
+			record(context, response);
+		},
+		onError(context, error) {
+			record(context, undefined, error);
+		},
+	};
+}
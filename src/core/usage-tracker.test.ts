@@ -0,0 +1,103 @@
+import {describe, expect, it} from 'vitest';
+import {ChatRequest, TokenUsage} from './ai-provider.js';
+import {BudgetExceededError} from './errors.js';
+import {MockProvider} from './mock-provider.js';
+import {UsageTracker} from './usage-tracker.js';
+
+const REQUEST: ChatRequest = {messages: [{role: 'user', content: 'Hi'}]};
+
+const USAGE: TokenUsage = {
+	prompt_tokens: 1_000,
+	completion_tokens: 500,
+	total_tokens: 1_500,
+};
+
+// gpt-4o-mini: $0.15 in and $0.60 out per million tokens
+const COST = (1_000 * 0.15 + 500 * 0.6) / 1_000_000;
+
+function openAI(model = 'gpt-4o-mini') {
+	return new MockProvider(
+		{content: 'Hello', usage: USAGE},
+		{name: 'OpenAI', defaultModel: model},
+	);
+}
+
+describe('UsageTracker', () => {
+	it('adds cost to responses and sums usage per provider and model', async () => {
+		const tracker = new UsageTracker();
+		const provider = tracker.wrap(openAI());
+
+		const response = await provider.createChatCompletion(REQUEST);
+		await provider.createChatCompletion(REQUEST);
+
+		expect(response.metadata.cost?.totalCost).toBeCloseTo(COST);
+		const summary = tracker.getSummary();
+		expect(summary).toMatchObject({
+			requests: 2,
+			promptTokens: 2_000,
+			completionTokens: 1_000,
+			totalTokens: 3_000,
+			unpricedRequests: 0,
+		});
+		expect(summary.cost).toBeCloseTo(2 * COST);
+		expect(Object.keys(summary.byProvider)).toEqual(['OpenAI']);
+		expect(summary.byModel['OpenAI/gpt-4o-mini'].requests).toBe(2);
+	});
+
+	it('counts models without pricing as unpriced', async () => {
+		const tracker = new UsageTracker();
+
+		await tracker
+			.wrap(new MockProvider({content: 'Hello', usage: USAGE}))
+			.createChatCompletion(REQUEST);
+
+		expect(tracker.getSummary()).toMatchObject({
+			requests: 1,
+			cost: 0,
+			unpricedRequests: 1,
+		});
+		expect(tracker.formatSummary()).toContain(
+			'Total: 1 request(s), 1500 tokens, $0.0000 (1 unpriced)',
+		);
+	});
+
+	it('records the cost of streamed responses', async () => {
+		const tracker = new UsageTracker();
+
+		for await (const event of tracker
+			.wrap(openAI())
+			.createChatCompletionStream(REQUEST)) {
+			if (event.type === 'done') {
+				expect(event.metadata.cost?.totalCost).toBeCloseTo(COST);
+			}
+		}
+
+		expect(tracker.getSummary().totalTokens).toBe(1_500);
+	});
+
+	it('rejects calls once the cost budget is spent', async () => {
+		const tracker = new UsageTracker({maxCostUsd: COST});
+		const mock = openAI();
+		const provider = tracker.wrap(mock);
+
+		// The call that reaches the cap still completes
+		await provider.createChatCompletion(REQUEST);
+
+		await expect(provider.createChatCompletion(REQUEST)).rejects.toThrow(
+			BudgetExceededError,
+		);
+		expect(mock.requests).toHaveLength(1);
+	});
+
+	it('rejects calls once the token budget is spent', async () => {
+		const tracker = new UsageTracker();
+		const provider = tracker.wrap(openAI());
+		await provider.createChatCompletion(REQUEST);
+
+		tracker.setBudget({maxTokens: 1_000});
+
+		await expect(provider.createChatCompletion(REQUEST)).rejects.toThrow(
+			'Session token budget of 1000 reached (1500 used).',
+		);
+	});
+});
@@ -0,0 +1,246 @@
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponse,
+	ChatResponseMetadata,
+	ChatStreamEvent,
+	EmbeddingOptions,
+	EmbeddingResponse,
+	ModelDescriptor,
+	ProviderInfo,
+} from './ai-provider.js';
+import {calculateCost} from './pricing.js';
+import {BudgetExceededError} from './errors.js';
+import {embedTexts} from './embeddings.js';
+import {listProviderModels} from './model-catalog.js';
+
+// Architectural Pattern: Decorator + Aggregator - Wrapped providers report every
+// response to a tracker that sums tokens and spend.
+
+export interface UsageTotals {
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	/** Spend in USD; responses without pricing add nothing */
+	cost: number;
+	/** Responses whose model has no entry in the pricing table */
+	unpricedRequests: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+	byProvider: Record<string, UsageTotals>;
+	byModel: Record<string, UsageTotals>;
+}
+
+/**
+ * Hard limits for a session. Calls are rejected once either cap is reached;
+ * the call that crosses a cap still completes.
+ */
+export interface UsageBudget {
+	maxCostUsd?: number;
+	maxTokens?: number;
+}
+
+function emptyTotals(): UsageTotals {
+	return {
+		requests: 0,
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+		cost: 0,
+		unpricedRequests: 0,
+	};
+}
+
+/**
+ * Aggregates token usage and cost per session, provider and model, and
+ * optionally enforces a budget.
+ */
+export class UsageTracker {
+	private totals = emptyTotals();
+	private byProvider = new Map<string, UsageTotals>();
+	private byModel = new Map<string, UsageTotals>();
+
+	constructor(private budget: UsageBudget = {}) {}
+
+	setBudget(budget: UsageBudget): void {
+		this.budget = budget;
+	}
+
+	/**
+	 * Throws if the budget has been used up.
+	 * @throws BudgetExceededError
+	 */
+	checkBudget(provider: string): void {
+		const {maxCostUsd, maxTokens} = this.budget;
+		if (maxCostUsd !== undefined && this.totals.cost >= maxCostUsd) {
+			throw new BudgetExceededError(
+				`Session budget of $${maxCostUsd.toFixed(
+					4,
+				)} reached ($${this.totals.cost.toFixed(4)} spent).`,
+				{provider},
+			);
+		}
+		if (maxTokens !== undefined && this.totals.totalTokens >= maxTokens) {
+			throw new BudgetExceededError(
+				`Session token budget of ${maxTokens} reached (${this.totals.totalTokens} used).`,
+				{provider},
+			);
+		}
+	}
+
+	/**
+	 * Adds one response to the totals.
+	 * @param provider Name of the provider that answered
+	 * @param metadata The response metadata, including usage and cost
+	 */
+	record(provider: string, metadata: ChatResponseMetadata): void {
+		const buckets = [
+			this.totals,
+			this.bucket(this.byProvider, provider),
+			this.bucket(this.byModel, `${provider}/${metadata.model}`),
+		];
+		for (const totals of buckets) {
+			totals.requests++;
+			totals.promptTokens += metadata.usage?.prompt_tokens ?? 0;
+			totals.completionTokens += metadata.usage?.completion_tokens ?? 0;
+			totals.totalTokens += metadata.usage?.total_tokens ?? 0;
+			if (metadata.cost) {
+				totals.cost += metadata.cost.totalCost;
+			} else {
+				totals.unpricedRequests++;
+			}
+		}
+	}
+
+	private bucket(map: Map<string, UsageTotals>, key: string): UsageTotals {
+		let totals = map.get(key);
+		if (!totals) {
+			totals = emptyTotals();
+			map.set(key, totals);
+		}
+		return totals;
+	}
+
+	getSummary(): UsageSummary {
+		return {
+			...this.totals,
+			byProvider: Object.fromEntries(this.byProvider),
+			byModel: Object.fromEntries(this.byModel),
+		};
+	}
+
+	/**
+	 * Formats the summary for printing at the end of a session.
+	 */
+	formatSummary(): string {
+		const formatTotals = (label: string, totals: UsageTotals) =>
+			`${label}: ${totals.requests} request(s), ${
+				totals.totalTokens
+			} tokens, $${totals.cost.toFixed(4)}${
+				totals.unpricedRequests ? ` (${totals.unpricedRequests} unpriced)` : ''
+			}`;
+
+		const lines = ['--- Session Usage ---', formatTotals('Total', this.totals)];
+		for (const [model, totals] of this.byModel) {
+			lines.push(formatTotals(`- ${model}`, totals));
+		}
+		lines.push('---------------------');
+		return lines.join('\n');
+	}
+
+	/**
+	 * Wraps a provider so its responses carry `metadata.cost` and are
+	 * recorded here, and calls are rejected once the budget is used up.
+	 */
+	wrap(provider: AIProvider): AIProvider {
+		return new UsageTrackingProvider(provider, this);
+	}
+}
+
+/**
+ * The provider returned by UsageTracker.wrap().
+ */
+export class UsageTrackingProvider implements AIProvider {
+	constructor(private provider: AIProvider, private tracker: UsageTracker) {}
+
+	// Fallback chains report the provider that actually answered
+	private withCost(metadata: ChatResponseMetadata): ChatResponseMetadata {
+		const providerName =
+			metadata.provider ?? this.provider.getProviderInfo().name;
+		const withCost = {
+			...metadata,
+			cost:
+				metadata.cost ??
+				calculateCost(providerName, metadata.model, metadata.usage),
+		};
+		this.tracker.record(providerName, withCost);
+		return withCost;
+	}
+
+	async createChatCompletion(request: ChatRequest): Promise<ChatResponse> {
+		this.tracker.checkBudget(this.provider.getProviderInfo().name);
+		const response = await this.provider.createChatCompletion(request);
+		return {...response, metadata: this.withCost(response.metadata)};
+	}
+
+	async *createChatCompletionStream(
+		request: ChatRequest,
+	): AsyncGenerator<ChatStreamEvent> {
+		this.tracker.checkBudget(this.provider.getProviderInfo().name);
+		for await (const event of this.provider.createChatCompletionStream(
+			request,
+		)) {
+			yield event.type === 'done'
+				? {type: 'done', metadata: this.withCost(event.metadata)}
+				: event;
+		}
+	}
+
+	// Embedding calls count as requests with prompt tokens only
+	async createEmbeddings(
+		texts: string[],
+		options?: EmbeddingOptions,
+	): Promise<EmbeddingResponse> {
+		const providerName = this.provider.getProviderInfo().name;
+		this.tracker.checkBudget(providerName);
+		const response = await embedTexts(this.provider, texts, options);
+		const {cost} = this.withCost({
+			model: response.model,
+			usage: response.usage,
+			latencyMs: response.latencyMs,
+			provider: response.provider,
+			cost: response.cost,
+		});
+		return {...response, cost};
+	}
+
+	listModels(): Promise<ModelDescriptor[]> {
+		return listProviderModels(this.provider);
+	}
+
+	getProviderInfo(): ProviderInfo {
+		return this.provider.getProviderInfo();
+	}
+}
+
+/**
+ * Usage of the current process; providers from getSelectedProvider() report here.
+ */
+export const sessionUsage = new UsageTracker();
+
+/**
+ * Prints the session summary when the process exits, if any call was made.
+ * @param log Where to print, e.g. console.error to keep stdout for results
+ */
+export function printUsageSummaryOnExit(
+	tracker: UsageTracker = sessionUsage,
+	log: (message: string) => void = console.log,
+): void {
+	process.once('exit', () => {
+		if (tracker.getSummary().requests > 0) {
+			log(`\n${tracker.formatSummary()}`);
+		}
+	});
+}
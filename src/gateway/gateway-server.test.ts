@@ -0,0 +1,207 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {afterAll, beforeAll, beforeEach, describe, expect, it} from 'vitest';
+import {MockProvider} from '../core/mock-provider.js';
+import {registerProvider} from '../core/provider-registry.js';
+import {createGatewayServer, GatewayLogEntry} from './gateway-server.js';
+
+const KEY = 'test-key';
+const CHAT = {messages: [{role: 'user', content: 'Hi'}]};
+
+const primary = new MockProvider(
+	{content: 'Hello', chunks: ['Hel', 'lo']},
+	{name: 'Primary', defaultModel: 'primary-model'},
+);
+const backup = new MockProvider(
+	{content: 'Backup'},
+	{name: 'Backup', defaultModel: 'backup-model'},
+);
+registerProvider('test-primary', () => primary);
+registerProvider('test-backup', () => backup);
+
+let server: http.Server;
+let baseUrl: string;
+const entries: GatewayLogEntry[] = [];
+
+interface ErrorBody {
+	error: {message: string; type: string};
+}
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+	return fetch(`${baseUrl}/v1/chat/completions`, {
+		method: 'POST',
+		headers: {
+			Authorization: `Bearer ${KEY}`,
+			'Content-Type': 'application/json',
+			...headers,
+		},
+		body: typeof body === 'string' ? body : JSON.stringify(body),
+	});
+}
+
+beforeAll(async () => {
+	server = createGatewayServer({
+		apiKeys: [KEY],
+		providers: ['test-primary', 'test-backup'],
+		defaultProvider: 'test-primary',
+		config: {},
+		maxBodyBytes: 1024,
+		onRequest: entry => entries.push(entry),
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	server.closeAllConnections();
+	await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+	primary.requests.length = 0;
+	backup.requests.length = 0;
+	entries.length = 0;
+});
+
+describe('gateway authentication', () => {
+	it('rejects requests without a valid key', async () => {
+		const missing = await fetch(`${baseUrl}/v1/models`);
+		const wrong = await fetch(`${baseUrl}/v1/models`, {
+			headers: {Authorization: 'Bearer nope'},
+		});
+
+		expect(missing.status).toBe(401);
+		expect(wrong.status).toBe(401);
+		expect(((await wrong.json()) as ErrorBody).error.type).toBe(
+			'authentication_error',
+		);
+		expect(primary.requests).toHaveLength(0);
+	});
+
+	it('leaves the health check open', async () => {
+		const response = await fetch(`${baseUrl}/health`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({status: 'ok'});
+	});
+});
+
+describe('gateway routing', () => {
+	it('answers chat completions from the default provider', async () => {
+		const response = await post(CHAT);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({
+			object: 'chat.completion',
+			model: 'primary-model',
+			choices: [
+				{message: {role: 'assistant', content: 'Hello'}, finish_reason: 'stop'},
+			],
+		});
+		expect(entries[0]).toMatchObject({
+			method: 'POST',
+			path: '/v1/chat/completions',
+			status: 200,
+			provider: 'test-primary',
+			stream: false,
+		});
+	});
+
+	it('routes by provider/model prefix and by the x-provider header', async () => {
+		await post({...CHAT, model: 'test-backup/backup-large'});
+		await post(CHAT, {'x-provider': 'test-backup'});
+
+		expect(backup.requests.map(request => request.model)).toEqual([
+			'backup-large',
+			undefined,
+		]);
+		expect(primary.requests).toHaveLength(0);
+	});
+
+	it('rejects unknown providers and routes', async () => {
+		const provider = await post(CHAT, {'x-provider': 'nope'});
+		const route = await fetch(`${baseUrl}/v1/unknown`, {
+			headers: {Authorization: `Bearer ${KEY}`},
+		});
+
+		expect(provider.status).toBe(400);
+		expect(route.status).toBe(404);
+	});
+
+	it("lists every provider's models", async () => {
+		const response = await fetch(`${baseUrl}/v1/models`, {
+			headers: {Authorization: `Bearer ${KEY}`},
+		});
+
+		expect(((await response.json()) as {data: unknown[]}).data).toEqual([
+			{
+				id: 'primary-model',
+				object: 'model',
+				created: 0,
+				owned_by: 'test-primary',
+			},
+			{
+				id: 'backup-model',
+				object: 'model',
+				created: 0,
+				owned_by: 'test-backup',
+			},
+		]);
+	});
+});
+
+describe('gateway streaming', () => {
+	it('sends server-sent events ending with [DONE]', async () => {
+		const response = await post({
+			...CHAT,
+			stream: true,
+			stream_options: {include_usage: true},
+		});
+		const text = await response.text();
+
+		expect(response.headers.get('content-type')).toBe('text/event-stream');
+		const events = text.split('\n\n').filter(Boolean);
+		expect(events.every(event => event.startsWith('data: '))).toBe(true);
+		expect(events.at(-1)).toBe('data: [DONE]');
+		const chunks = events
+			.slice(0, -1)
+			.map(event => JSON.parse(event.slice('data: '.length)));
+		expect(chunks.map(chunk => chunk.choices[0]?.delta.content)).toEqual([
+			'',
+			'Hel',
+			'lo',
+			undefined,
+			undefined,
+		]);
+		expect(chunks.at(-1).usage).toBeDefined();
+		expect(entries[0].stream).toBe(true);
+	});
+});
+
+describe('gateway request validation', () => {
+	it('answers oversized bodies with 413 and closes the connection', async () => {
+		const response = await post({
+			messages: [{role: 'user', content: 'x'.repeat(2048)}],
+		});
+
+		expect(response.status).toBe(413);
+		expect(response.headers.get('connection')).toBe('close');
+		expect(primary.requests).toHaveLength(0);
+	});
+
+	it.each([
+		['malformed JSON', '{"messages": ['],
+		['null user content', {messages: [{role: 'user', content: null}]}],
+		['a tool without a function', {...CHAT, tools: [{type: 'function'}]}],
+		['a null tool', {...CHAT, tools: [null]}],
+	])('answers %s with 400', async (_, body) => {
+		const response = await post(body);
+
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as ErrorBody).error.type).toBe(
+			'invalid_request_error',
+		);
+		expect(primary.requests).toHaveLength(0);
+	});
+});
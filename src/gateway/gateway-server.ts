@@ -0,0 +1,452 @@
+import http from 'http';
+import {createHash, randomUUID, timingSafeEqual} from 'crypto';
+import {AIProvider, ChatResponseMetadata} from '../core/ai-provider.js';
+import {AIProviderError, AuthenticationError} from '../core/errors.js';
+import {
+	findModelProvider,
+	getModelIds,
+	listProviderModels,
+} from '../core/model-catalog.js';
+import {loadProviderConfig, ProviderConfigFile} from '../core/config-file.js';
+import {ProviderMiddleware, withMiddleware} from '../core/middleware.js';
+import {createObservabilityMiddleware} from '../core/observability.js';
+import {readEnv} from '../core/provider-config.js';
+import {
+	createProvider,
+	getRegisteredProviders,
+	resolveProviderName,
+} from '../core/provider-registry.js';
+import {withRetry} from '../core/retry-provider.js';
+import {shutdownSpanExporters} from '../core/tracing.js';
+import {sessionUsage} from '../core/usage-tracker.js';
+import {
+	fromOpenAIRequest,
+	GATEWAY_NAME,
+	toOpenAIChunks,
+	toOpenAICompletion,
+	toOpenAIError,
+} from './openai-wire.js';
+
+// Architectural Pattern: Gateway - An HTTP server speaking the OpenAI Chat
+// Completions API in front of the registered providers, so services in any
+// language can use them through an OpenAI client pointed at this server.
+
+export const DEFAULT_GATEWAY_PORT = 8787;
+export const GATEWAY_KEYS_ENV_VAR = 'GATEWAY_API_KEYS';
+/** Header naming the provider a request is routed to */
+export const PROVIDER_HEADER = 'x-provider';
+
+/**
+ * One handled request, as passed to `GatewayOptions.onRequest`.
+ */
+export interface GatewayLogEntry {
+	id: string;
+	method: string;
+	path: string;
+	status: number;
+	latencyMs: number;
+	provider?: string;
+	model?: string;
+	stream?: boolean;
+	metadata?: ChatResponseMetadata;
+	error?: string;
+}
+
+export interface GatewayOptions {
+	/**
+	 * Keys clients send as `Authorization: Bearer <key>`. Defaults to the
+	 * comma-separated `GATEWAY_API_KEYS`; when empty, requests are not checked.
+	 */
+	apiKeys?: string[];
+	/** Providers requests may be routed to (default: all registered) */
+	providers?: string[];
+	/** Provider for models no other provider claims (default: the selected provider) */
+	defaultProvider?: string;
+	/** Provider options, retry settings and budget (default: the config file) */
+	config?: ProviderConfigFile;
+	/** Largest accepted request body in bytes (default 20 MB, for inline images) */
+	maxBodyBytes?: number;
+	/** Receives every handled request (default: one line on the console) */
+	onRequest?: (entry: GatewayLogEntry) => void;
+	/** Receives warnings from the gateway and its providers (default: console.warn) */
+	warn?: (message: string) => void;
+}
+
+/**
+ * Where a request goes: a provider name and the model to ask it for.
+ */
+export interface GatewayRoute {
+	provider: string;
+	model?: string;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+function logRequest(entry: GatewayLogEntry): void {
+	const route = entry.provider
+		? ` ${entry.provider}${entry.model ? `/${entry.model}` : ''}`
+		: '';
+	const tokens = entry.metadata?.usage?.total_tokens;
+	console.log(
+		`${entry.method} ${entry.path} ${entry.status} ${
+			entry.latencyMs
+		}ms${route}${entry.stream ? ' (stream)' : ''}${
+			tokens !== undefined ? ` ${tokens} tokens` : ''
+		}${entry.error ? ` - ${entry.error}` : ''}`,
+	);
+}
+
+function gatewayError(message: string, status: number): AIProviderError {
+	return new AIProviderError(message, {provider: GATEWAY_NAME, status});
+}
+
+// Hashing first gives equal-length buffers, as timingSafeEqual requires
+function digest(value: string): Buffer {
+	return createHash('sha256').update(value).digest();
+}
+
+function readBody(
+	request: http.IncomingMessage,
+	maxBytes: number,
+): Promise<unknown> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		const onData = (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > maxBytes) {
+				// Stops reading; the 413 response then closes the connection
+				request.off('data', onData);
+				request.pause();
+				reject(gatewayError(`Request body exceeds ${maxBytes} bytes.`, 413));
+				return;
+			}
+			chunks.push(chunk);
+		};
+		request.on('data', onData);
+		request.on('end', () => {
+			try {
+				resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+			} catch {
+				reject(gatewayError('The request body is not valid JSON.', 400));
+			}
+		});
+		request.on('error', reject);
+	});
+}
+
+function sendJson(
+	response: http.ServerResponse,
+	status: number,
+	body: unknown,
+): void {
+	response.writeHead(status, {'Content-Type': 'application/json'});
+	response.end(JSON.stringify(body));
+}
+
+/**
+ * Handles the gateway's HTTP API. Providers are created on first use and
+ * wrapped with retries, usage tracking and the config's logging and tracing,
+ * as in the mini-apps.
+ */
+export class Gateway {
+	private readonly apiKeys: Buffer[];
+	private readonly providerNames: string[];
+	private readonly defaultProvider: string;
+	private readonly config: ProviderConfigFile;
+	private readonly providers = new Map<string, AIProvider>();
+	private readonly middleware: ProviderMiddleware[];
+
+	constructor(private readonly options: GatewayOptions = {}) {
+		this.config = options.config ?? loadProviderConfig();
+		this.middleware = createObservabilityMiddleware(
+			this.config.observability,
+			undefined,
+			options.warn,
+		);
+		const keys =
+			options.apiKeys ??
+			(readEnv(GATEWAY_KEYS_ENV_VAR) ?? '')
+				.split(',')
+				.map(key => key.trim())
+				.filter(Boolean);
+		this.apiKeys = keys.map(digest);
+		this.providerNames = (options.providers ?? getRegisteredProviders()).map(
+			name => name.toLowerCase(),
+		);
+		this.defaultProvider = (
+			options.defaultProvider ?? resolveProviderName([], this.config)
+		).toLowerCase();
+		if (!this.providerNames.includes(this.defaultProvider)) {
+			throw new Error(
+				`Default provider "${
+					this.defaultProvider
+				}" is not one of the gateway's providers (${this.providerNames.join(
+					', ',
+				)}).`,
+			);
+		}
+	}
+
+	private getProvider(name: string): AIProvider {
+		let provider = this.providers.get(name);
+		if (!provider) {
+			provider = withMiddleware(
+				sessionUsage.wrap(
+					withRetry(
+						createProvider(name, {
+							...this.config.providers?.[name],
+							warn: this.options.warn ?? console.warn,
+						}),
+						this.config.retry,
+					),
+				),
+				this.middleware,
+			);
+			this.providers.set(name, provider);
+		}
+		return provider;
+	}
+
+	/**
+	 * Picks the provider for a request. Precedence: the `x-provider` header,
+	 * then a `provider/model` prefix, then the provider whose catalogue or
+	 * model list knows the model, then the default provider.
+	 * @throws AIProviderError (400) for providers the gateway does not serve
+	 */
+	resolveRoute(
+		model: string | undefined,
+		providerHeader?: string,
+	): GatewayRoute {
+		if (providerHeader) {
+			const provider = providerHeader.toLowerCase();
+			if (!this.providerNames.includes(provider)) {
+				throw gatewayError(
+					`Unknown provider "${providerHeader}". Available: ${this.providerNames.join(
+						', ',
+					)}.`,
+					400,
+				);
+			}
+			return {provider, model};
+		}
+		if (!model) {
+			return {provider: this.defaultProvider};
+		}
+
+		const slash = model.indexOf('/');
+		const prefix = model.slice(0, slash).toLowerCase();
+		if (slash > 0 && this.providerNames.includes(prefix)) {
+			return {provider: prefix, model: model.slice(slash + 1) || undefined};
+		}
+
+		const owner = findModelProvider(model);
+		if (owner && this.providerNames.includes(owner)) {
+			return {provider: owner, model};
+		}
+		const lister = this.providerNames.find(name =>
+			this.getProvider(name).getProviderInfo().supportedModels.includes(model),
+		);
+		return {provider: lister ?? this.defaultProvider, model};
+	}
+
+	/**
+	 * Request handler for `http.createServer()`.
+	 */
+	async handleRequest(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	): Promise<void> {
+		const startTime = Date.now();
+		const path = (request.url ?? '/').split('?')[0];
+		const entry: GatewayLogEntry = {
+			id: `chatcmpl-${randomUUID()}`,
+			method: request.method ?? 'GET',
+			path,
+			status: 200,
+			latencyMs: 0,
+		};
+		// Aborts the provider call when the client goes away mid-request
+		const controller = new AbortController();
+		response.on('close', () => {
+			if (!response.writableFinished) {
+				controller.abort();
+			}
+		});
+
+		try {
+			this.authenticate(request, path);
+			if (path === '/v1/chat/completions' && entry.method === 'POST') {
+				await this.handleChatCompletion(
+					request,
+					response,
+					entry,
+					controller.signal,
+				);
+			} else if (path === '/v1/models' && entry.method === 'GET') {
+				sendJson(response, 200, await this.listModels());
+			} else if (path === '/health' && entry.method === 'GET') {
+				sendJson(response, 200, {status: 'ok'});
+			} else {
+				throw gatewayError(`No route for ${entry.method} ${path}.`, 404);
+			}
+		} catch (error) {
+			const {status, body} = toOpenAIError(error);
+			entry.error = body.error.message;
+			if (controller.signal.aborted) {
+				// The client is gone; nothing can be sent
+				response.statusCode = 499;
+			} else if (response.headersSent) {
+				// Mid-stream failures are reported in-band, as OpenAI does
+				response.end(`data: ${JSON.stringify(body)}\n\n`);
+			} else {
+				if (status === 413) {
+					// The rest of the body is never read, so the connection cannot be reused
+					response.setHeader('Connection', 'close');
+				}
+				sendJson(response, status, body);
+			}
+		} finally {
+			entry.status = response.statusCode;
+			entry.latencyMs = Date.now() - startTime;
+			(this.options.onRequest ?? logRequest)(entry);
+		}
+	}
+
+	private authenticate(request: http.IncomingMessage, path: string): void {
+		if (this.apiKeys.length === 0 || path === '/health') {
+			return;
+		}
+		const match = /^Bearer\s+(.+)$/i.exec(request.headers.authorization ?? '');
+		const key = match && digest(match[1].trim());
+		if (!key || !this.apiKeys.some(allowed => timingSafeEqual(allowed, key))) {
+			throw new AuthenticationError('Invalid or missing gateway API key.', {
+				provider: GATEWAY_NAME,
+				status: 401,
+			});
+		}
+	}
+
+	private async handleChatCompletion(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+		entry: GatewayLogEntry,
+		signal: AbortSignal,
+	): Promise<void> {
+		const body = await readBody(
+			request,
+			this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES,
+		);
+		const parsed = fromOpenAIRequest(body);
+		const header = request.headers[PROVIDER_HEADER];
+		const route = this.resolveRoute(
+			parsed.request.model,
+			Array.isArray(header) ? header[0] : header,
+		);
+		const provider = this.getProvider(route.provider);
+		const chatRequest = {...parsed.request, model: route.model, signal};
+		entry.provider = route.provider;
+		entry.model = route.model ?? provider.getProviderInfo().defaultModel;
+		entry.stream = parsed.stream;
+		const created = Math.floor(Date.now() / 1000);
+
+		if (!parsed.stream) {
+			const result = await provider.createChatCompletion(chatRequest);
+			entry.metadata = result.metadata;
+			sendJson(response, 200, toOpenAICompletion(result, entry.id, created));
+			return;
+		}
+
+		const chunks = toOpenAIChunks(
+			provider.createChatCompletionStream(chatRequest),
+			entry.id,
+			created,
+			entry.model,
+			parsed.includeUsage,
+			event => (entry.metadata = event.metadata),
+		);
+		for await (const chunk of chunks) {
+			// Headers wait for the first chunk, so early failures get a real status
+			if (!response.headersSent) {
+				response.writeHead(200, {
+					'Content-Type': 'text/event-stream',
+					'Cache-Control': 'no-cache',
+					Connection: 'keep-alive',
+				});
+			}
+			response.write(`data: ${JSON.stringify(chunk)}\n\n`);
+		}
+		response.end('data: [DONE]\n\n');
+	}
+
+	// Lists the chat models of every provider. Providers that cannot query
+	// their models endpoint (e.g. missing credentials) report their known models
+	private async listModels() {
+		const lists = await Promise.all(
+			this.providerNames.map(async name => {
+				const provider = this.getProvider(name);
+				const ids = await listProviderModels(provider).then(
+					models => getModelIds(models, 'chat'),
+					() => provider.getProviderInfo().supportedModels,
+				);
+				return ids.map(id => ({
+					id,
+					object: 'model',
+					created: 0,
+					owned_by: name,
+				}));
+			}),
+		);
+		const data = lists.flat();
+		return {object: 'list', data};
+	}
+}
+
+/**
+ * Creates an HTTP server for the gateway; call `listen()` on it to start.
+ * Closing it waits for spans still being exported.
+ */
+export function createGatewayServer(options: GatewayOptions = {}): http.Server {
+	const gateway = new Gateway(options);
+	const server = http.createServer((request, response) => {
+		void gateway.handleRequest(request, response);
+	});
+	server.on('close', () => void shutdownSpanExporters());
+	return server;
+}
+
+export interface GatewayListenOptions extends GatewayOptions {
+	/** Default: `GATEWAY_PORT`, else 8787 */
+	port?: number;
+	/** Default: `GATEWAY_HOST`, else 127.0.0.1 */
+	host?: string;
+}
+
+/**
+ * Starts the gateway with settings from the options, the environment and the
+ * config file, as `ai-providers gateway` does.
+ * @returns The listening server
+ */
+export async function startGateway(
+	options: GatewayListenOptions = {},
+): Promise<http.Server> {
+	const {port: portOption, host: hostOption, ...gatewayOptions} = options;
+	const port =
+		portOption ?? Number(readEnv('GATEWAY_PORT') ?? DEFAULT_GATEWAY_PORT);
+	const host = hostOption ?? readEnv('GATEWAY_HOST') ?? '127.0.0.1';
+	const config = gatewayOptions.config ?? loadProviderConfig();
+	sessionUsage.setBudget(config.budget ?? {});
+
+	const server = createGatewayServer({...gatewayOptions, config});
+	if (!gatewayOptions.apiKeys && !readEnv(GATEWAY_KEYS_ENV_VAR)) {
+		(gatewayOptions.warn ?? console.warn)(
+			`${GATEWAY_KEYS_ENV_VAR} is not set; the gateway accepts requests without an API key.`,
+		);
+	}
+	await new Promise<void>((resolve, reject) => {
+		server.once('error', reject);
+		server.listen(port, host, resolve);
+	});
+	console.log(`AI gateway listening on http://${host}:${port}/v1`);
+	return server;
+}
@@ -0,0 +1,275 @@
+import {describe, expect, it} from 'vitest';
+import {ChatStreamEvent} from '../core/ai-provider.js';
+import {
+	AuthenticationError,
+	InvalidRequestError,
+	RateLimitError,
+} from '../core/errors.js';
+import {
+	fromOpenAIRequest,
+	GATEWAY_NAME,
+	toOpenAIChunks,
+	toOpenAICompletion,
+	toOpenAIError,
+} from './openai-wire.js';
+
+const USER = {role: 'user', content: 'Hi'};
+
+async function* events(...list: ChatStreamEvent[]) {
+	yield* list;
+}
+
+describe('fromOpenAIRequest', () => {
+	it('translates the fields providers understand', () => {
+		const {request, stream, includeUsage} = fromOpenAIRequest({
+			model: 'gpt-4o-mini',
+			messages: [
+				{role: 'developer', content: 'Be brief.'},
+				{
+					role: 'assistant',
+					content: null,
+					tool_calls: [
+						{
+							id: 'call_1',
+							type: 'function',
+							function: {name: 'get_weather', arguments: '{"city":"Oslo"}'},
+						},
+					],
+				},
+				{role: 'tool', tool_call_id: 'call_1', content: 'Sunny'},
+				USER,
+			],
+			temperature: 0.5,
+			max_tokens: 100,
+			stop: 'END',
+			tools: [{type: 'function', function: {name: 'get_weather'}}],
+			tool_choice: {type: 'function', function: {name: 'get_weather'}},
+			stream: true,
+			stream_options: {include_usage: true},
+		});
+
+		expect(request).toMatchObject({
+			model: 'gpt-4o-mini',
+			temperature: 0.5,
+			maxTokens: 100,
+			stop: ['END'],
+			tools: [
+				{
+					name: 'get_weather',
+					parameters: {type: 'object', properties: {}},
+				},
+			],
+			toolChoice: {name: 'get_weather'},
+		});
+		expect(request.messages).toEqual([
+			{role: 'system', content: 'Be brief.'},
+			{
+				role: 'assistant',
+				content: '',
+				toolCalls: [
+					{id: 'call_1', name: 'get_weather', arguments: {city: 'Oslo'}},
+				],
+			},
+			{
+				role: 'tool',
+				content: 'Sunny',
+				toolCallId: 'call_1',
+				name: 'get_weather',
+			},
+			USER,
+		]);
+		expect(stream).toBe(true);
+		expect(includeUsage).toBe(true);
+	});
+
+	it("uses the provider's model for 'default'", () => {
+		expect(
+			fromOpenAIRequest({model: 'default', messages: [USER]}).request.model,
+		).toBeUndefined();
+	});
+
+	it('accepts inline images and files only', () => {
+		const image = 'data:image/png;base64,iVBORw0KGgo=';
+		const {request} = fromOpenAIRequest({
+			messages: [
+				{
+					role: 'user',
+					content: [
+						{type: 'text', text: 'What is this?'},
+						{type: 'image_url', image_url: {url: image}},
+					],
+				},
+			],
+		});
+		expect(request.messages[0].content).toEqual([
+			{type: 'text', text: 'What is this?'},
+			{type: 'image', source: image, detail: undefined},
+		]);
+
+		const withPart = (part: unknown) => () =>
+			fromOpenAIRequest({messages: [{role: 'user', content: [part]}]});
+		expect(
+			withPart({
+				type: 'image_url',
+				image_url: {url: 'https://example.com/a.png'},
+			}),
+		).toThrow('image_url parts must be base64 data URLs.');
+		expect(withPart({type: 'file', file: {file_data: '/etc/passwd'}})).toThrow(
+			'file_data must be a base64 data URL.',
+		);
+		expect(withPart({type: 'file', file: {file_id: 'file-1'}})).toThrow(
+			'file_id is not supported',
+		);
+	});
+
+	it.each([
+		['a non-object body', []],
+		['missing messages', {model: 'gpt-4o-mini'}],
+		['empty messages', {messages: []}],
+		['a message without a role', {messages: [{content: 'Hi'}]}],
+		['an unknown role', {messages: [{role: 'robot', content: 'Hi'}]}],
+		['null user content', {messages: [{role: 'user', content: null}]}],
+		['missing system content', {messages: [{role: 'system'}, USER]}],
+		[
+			'null assistant content without tool calls',
+			{messages: [USER, {role: 'assistant', content: null}]},
+		],
+		[
+			'a tool message without tool_call_id',
+			{messages: [{role: 'tool', content: 'Sunny'}]},
+		],
+		[
+			'tool call arguments that are not JSON',
+			{
+				messages: [
+					{
+						role: 'assistant',
+						content: null,
+						tool_calls: [{id: 'call_1', function: {name: 'f', arguments: '{'}}],
+					},
+				],
+			},
+		],
+		[
+			'a tool without a function',
+			{messages: [USER], tools: [{type: 'function'}]},
+		],
+		['a null tool', {messages: [USER], tools: [null]}],
+		[
+			'a tool without a name',
+			{messages: [USER], tools: [{type: 'function', function: {}}]},
+		],
+		[
+			'a json_schema format without its schema',
+			{messages: [USER], response_format: {type: 'json_schema'}},
+		],
+		['more than one choice', {messages: [USER], n: 2}],
+	])('rejects %s with an InvalidRequestError', (_, body) => {
+		expect(() => fromOpenAIRequest(body)).toThrow(InvalidRequestError);
+	});
+});
+
+describe('toOpenAICompletion', () => {
+	it('builds a chat.completion with tool calls and usage', () => {
+		const completion = toOpenAICompletion(
+			{
+				content: '',
+				toolCalls: [
+					{id: 'call_1', name: 'get_weather', arguments: {city: 'Oslo'}},
+				],
+				metadata: {
+					model: 'gpt-4o-mini',
+					latencyMs: 10,
+					usage: {prompt_tokens: 5, completion_tokens: 3},
+				},
+			},
+			'chatcmpl-1',
+			1_700_000_000,
+		);
+
+		expect(completion).toMatchObject({
+			id: 'chatcmpl-1',
+			object: 'chat.completion',
+			model: 'gpt-4o-mini',
+			usage: {prompt_tokens: 5, completion_tokens: 3, total_tokens: 8},
+		});
+		expect(completion.choices[0].finish_reason).toBe('tool_calls');
+		expect(completion.choices[0].message.tool_calls).toEqual([
+			{
+				id: 'call_1',
+				type: 'function',
+				function: {name: 'get_weather', arguments: '{"city":"Oslo"}'},
+			},
+		]);
+	});
+});
+
+describe('toOpenAIChunks', () => {
+	it('announces the role, streams deltas and ends with finish reason and usage', async () => {
+		const chunks = [];
+		for await (const chunk of toOpenAIChunks(
+			events(
+				{type: 'delta', content: 'Hel'},
+				{type: 'delta', content: 'lo'},
+				{
+					type: 'done',
+					metadata: {
+						model: 'gpt-4o-mini-2024-07-18',
+						latencyMs: 10,
+						finishReason: 'length',
+						usage: {prompt_tokens: 5, completion_tokens: 2},
+					},
+				},
+			),
+			'chatcmpl-1',
+			1_700_000_000,
+			'gpt-4o-mini',
+			true,
+		)) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks.map(chunk => chunk.choices[0]?.delta)).toEqual([
+			{role: 'assistant', content: ''},
+			{content: 'Hel'},
+			{content: 'lo'},
+			{},
+			undefined,
+		]);
+		expect(chunks[0].model).toBe('gpt-4o-mini');
+		expect(chunks[3].choices[0].finish_reason).toBe('length');
+		expect(chunks[4]).toMatchObject({
+			model: 'gpt-4o-mini-2024-07-18',
+			choices: [],
+			usage: {total_tokens: 7},
+		});
+	});
+});
+
+describe('toOpenAIError', () => {
+	it.each([
+		[new InvalidRequestError('Bad', {provider: 'X', status: 400}), 400, null],
+		[
+			new RateLimitError('Slow', {provider: 'X', status: 429}),
+			429,
+			'rate_limit_exceeded',
+		],
+		// The client's key is fine; the gateway's own credentials are not
+		[
+			new AuthenticationError('Key', {provider: 'X', status: 401}),
+			502,
+			'upstream_authentication',
+		],
+		[
+			new AuthenticationError('Key', {provider: GATEWAY_NAME, status: 401}),
+			401,
+			null,
+		],
+		[new TypeError('x is undefined'), 500, null],
+	])('maps %o to status %i', (error, status, code) => {
+		const response = toOpenAIError(error);
+		expect(response.status).toBe(status);
+		expect(response.body.error.code).toBe(code);
+		expect(response.body.error.message).toBe((error as Error).message);
+	});
+});
@@ -0,0 +1,615 @@
+import OpenAI from 'openai';
+import {
+	ChatMessage,
+	ChatRequest,
+	ChatResponse,
+	ChatStreamEvent,
+	ContentPart,
+	FinishReason,
+	MessageContent,
+	ResponseFormat,
+	TokenUsage,
+	ToolCall,
+	ToolChoice,
+} from '../core/ai-provider.js';
+import {
+	AIProviderError,
+	AuthenticationError,
+	BudgetExceededError,
+	ContentBlockedError,
+	ContextLengthExceededError,
+	InvalidRequestError,
+	QuotaExceededError,
+	RateLimitError,
+	RequestCancelledError,
+	RequestTimeoutError,
+	UnsupportedCapabilityError,
+} from '../core/errors.js';
+import {JsonSchema, validateJsonSchema} from '../core/json-schema.js';
+
+// Architectural Pattern: Adapter - Translates between the OpenAI Chat
+// Completions wire format spoken by gateway clients and the provider-neutral
+// ChatRequest/ChatResponse types. This is the reverse of openai-compat.ts.
+
+/** Provider name on errors raised by the gateway itself */
+export const GATEWAY_NAME = 'Gateway';
+
+function invalid(message: string): InvalidRequestError {
+	return new InvalidRequestError(message, {
+		provider: GATEWAY_NAME,
+		status: 400,
+	});
+}
+
+/**
+ * A parsed `POST /v1/chat/completions` body.
+ */
+export interface GatewayChatRequest {
+	request: ChatRequest;
+	stream: boolean;
+	/** `stream_options.include_usage`: send a final chunk carrying usage */
+	includeUsage: boolean;
+}
+
+// Shape of one entry of `messages`, checked before translating so malformed
+// bodies get a 400 instead of failing halfway
+const MESSAGE_SCHEMA: JsonSchema = {
+	type: 'object',
+	required: ['role'],
+	properties: {
+		role: {type: 'string'},
+		content: {
+			type: ['string', 'array', 'null'],
+			items: {
+				type: 'object',
+				required: ['type'],
+				properties: {
+					type: {type: 'string'},
+					text: {type: 'string'},
+					image_url: {
+						type: 'object',
+						required: ['url'],
+						properties: {url: {type: 'string'}, detail: {type: 'string'}},
+					},
+					file: {
+						type: 'object',
+						properties: {
+							file_data: {type: 'string'},
+							filename: {type: 'string'},
+						},
+					},
+				},
+			},
+		},
+		tool_calls: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['id', 'function'],
+				properties: {
+					id: {type: 'string'},
+					function: {
+						type: 'object',
+						required: ['name'],
+						properties: {name: {type: 'string'}, arguments: {type: 'string'}},
+					},
+				},
+			},
+		},
+		tool_call_id: {type: 'string'},
+	},
+};
+
+const TOOL_SCHEMA: JsonSchema = {
+	type: 'object',
+	required: ['type', 'function'],
+	properties: {
+		type: {const: 'function'},
+		function: {
+			type: 'object',
+			required: ['name'],
+			properties: {
+				name: {type: 'string'},
+				description: {type: 'string'},
+				parameters: {type: 'object'},
+			},
+		},
+	},
+};
+
+// Shape of the fields translated below; the rest are ignored
+const REQUEST_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		messages: {type: 'array', items: MESSAGE_SCHEMA},
+		tools: {type: 'array', items: TOOL_SCHEMA},
+		tool_choice: {
+			type: ['string', 'object'],
+			required: ['function'],
+			properties: {
+				function: {
+					type: 'object',
+					required: ['name'],
+					properties: {name: {type: 'string'}},
+				},
+			},
+		},
+		response_format: {
+			type: 'object',
+			required: ['type'],
+			properties: {
+				type: {enum: ['text', 'json_object', 'json_schema']},
+				json_schema: {
+					type: 'object',
+					required: ['name'],
+					properties: {name: {type: 'string'}, schema: {type: 'object'}},
+				},
+			},
+		},
+	},
+};
+
+type OpenAITextContent =
+	| string
+	| Array<{type: string; text?: string}>
+	| null
+	| undefined;
+
+// Reads the text of system, assistant and tool messages; refusals are skipped
+function toText(content: OpenAITextContent): string {
+	if (typeof content === 'string' || content == null) {
+		return content ?? '';
+	}
+	return content
+		.filter(part => part.type === 'text')
+		.map(part => part.text ?? '')
+		.join('\n');
+}
+
+function toUserContent(
+	content: OpenAI.ChatCompletionUserMessageParam['content'],
+): MessageContent {
+	if (typeof content === 'string') {
+		return content;
+	}
+	return content.map((part): ContentPart => {
+		switch (part.type) {
+			case 'text':
+				return {type: 'text', text: part.text ?? ''};
+			case 'image_url':
+				// Providers only accept inline images; the gateway does not fetch URLs
+				if (!part.image_url?.url.startsWith('data:')) {
+					throw invalid('image_url parts must be base64 data URLs.');
+				}
+				return {
+					type: 'image',
+					source: part.image_url.url,
+					detail: part.image_url.detail,
+				};
+			case 'file':
+				if (!part.file?.file_data) {
+					throw invalid(
+						'file parts must carry file_data; file_id is not supported.',
+					);
+				}
+				// Anything else would be read as a path on the gateway's machine
+				if (!part.file.file_data.startsWith('data:')) {
+					throw invalid('file_data must be a base64 data URL.');
+				}
+				return {
+					type: 'file',
+					source: part.file.file_data,
+					filename: part.file.filename,
+				};
+			default:
+				throw invalid(`Unsupported content part type "${part.type}".`);
+		}
+	});
+}
+
+function parseArguments(toolCall: OpenAI.ChatCompletionMessageToolCall) {
+	try {
+		return JSON.parse(toolCall.function.arguments || '{}') as Record<
+			string,
+			unknown
+		>;
+	} catch {
+		throw invalid(
+			`Arguments of tool call "${toolCall.id}" are not valid JSON.`,
+		);
+	}
+}
+
+function toChatMessages(
+	messages: OpenAI.ChatCompletionMessageParam[],
+): ChatMessage[] {
+	// Tool results in the OpenAI format carry only the call id; some providers
+	// (Gemini) also need the tool name, which the assistant message had
+	const toolNames = new Map<string, string>();
+	return messages.map((message, index): ChatMessage => {
+		// Only an assistant message calling tools may come without content
+		const requireContent = <T>(content: T | null | undefined): T => {
+			if (content == null) {
+				throw invalid(
+					`messages[${index}].content is required; only assistant messages with tool_calls may omit it.`,
+				);
+			}
+			return content;
+		};
+		switch (message.role) {
+			case 'system':
+			case 'developer':
+				return {
+					role: 'system',
+					content: toText(requireContent(message.content)),
+				};
+			case 'user':
+				return {
+					role: 'user',
+					content: toUserContent(requireContent(message.content)),
+				};
+			case 'assistant': {
+				const toolCalls = message.tool_calls?.map((toolCall): ToolCall => {
+					toolNames.set(toolCall.id, toolCall.function.name);
+					return {
+						id: toolCall.id,
+						name: toolCall.function.name,
+						arguments: parseArguments(toolCall),
+					};
+				});
+				return {
+					role: 'assistant',
+					content: toText(
+						toolCalls?.length
+							? message.content
+							: requireContent(message.content),
+					),
+					toolCalls: toolCalls?.length ? toolCalls : undefined,
+				};
+			}
+			case 'tool':
+				if (message.tool_call_id === undefined) {
+					throw invalid('Tool messages must have a `tool_call_id`.');
+				}
+				return {
+					role: 'tool',
+					content: toText(requireContent(message.content)),
+					toolCallId: message.tool_call_id,
+					name: toolNames.get(message.tool_call_id),
+				};
+			default:
+				throw invalid(`Unsupported message role "${message.role}".`);
+		}
+	});
+}
+
+function toToolChoice(
+	choice: OpenAI.ChatCompletionToolChoiceOption | undefined,
+): ToolChoice | undefined {
+	if (choice === undefined || typeof choice === 'string') {
+		return choice;
+	}
+	return {name: choice.function.name};
+}
+
+function toResponseFormat(
+	format: OpenAI.ChatCompletionCreateParams['response_format'],
+): ResponseFormat | undefined {
+	if (!format) {
+		return undefined;
+	}
+	switch (format.type) {
+		case 'json_schema':
+			if (!format.json_schema) {
+				throw invalid('`response_format.json_schema` is required.');
+			}
+			return {
+				type: 'json_schema',
+				name: format.json_schema.name,
+				schema: format.json_schema.schema ?? {},
+			};
+		default:
+			return {type: format.type};
+	}
+}
+
+/**
+ * Parses an OpenAI chat completion request body into a ChatRequest.
+ * @param body The decoded JSON body
+ * @throws InvalidRequestError for bodies the gateway cannot translate
+ */
+export function fromOpenAIRequest(body: unknown): GatewayChatRequest {
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		throw invalid('The request body must be a JSON object.');
+	}
+	const params = body as OpenAI.ChatCompletionCreateParams;
+	if (!Array.isArray(params.messages) || params.messages.length === 0) {
+		throw invalid('`messages` must be a non-empty array.');
+	}
+	const errors = validateJsonSchema(params, REQUEST_SCHEMA);
+	if (errors.length > 0) {
+		throw invalid(`Invalid request: ${errors.join('; ')}.`);
+	}
+	if (params.n != null && params.n !== 1) {
+		throw invalid('Only `n: 1` is supported.');
+	}
+
+	const tools = params.tools
+		?.filter(tool => tool.type === 'function')
+		.map(tool => ({
+			name: tool.function.name,
+			description: tool.function.description,
+			parameters: tool.function.parameters ?? {type: 'object', properties: {}},
+		}));
+	const stop = params.stop ?? undefined;
+
+	return {
+		request: {
+			messages: toChatMessages(params.messages),
+			// 'default' lets clients that require a model name use the provider's
+			model:
+				params.model && params.model !== 'default' ? params.model : undefined,
+			temperature: params.temperature ?? undefined,
+			topP: params.top_p ?? undefined,
+			maxTokens: params.max_completion_tokens ?? params.max_tokens ?? undefined,
+			seed: params.seed ?? undefined,
+			stop: typeof stop === 'string' ? [stop] : stop,
+			responseFormat: toResponseFormat(params.response_format),
+			tools: tools?.length ? tools : undefined,
+			toolChoice: toToolChoice(params.tool_choice),
+		},
+		stream: params.stream === true,
+		includeUsage: params.stream_options?.include_usage === true,
+	};
+}
+
+type OpenAIFinishReason = OpenAI.ChatCompletion.Choice['finish_reason'];
+
+function toOpenAIFinishReason(
+	reason: FinishReason | undefined,
+	hasToolCalls: boolean,
+): OpenAIFinishReason {
+	switch (reason) {
+		case 'length':
+		case 'content_filter':
+		case 'tool_calls':
+			return reason;
+		default:
+			return hasToolCalls ? 'tool_calls' : 'stop';
+	}
+}
+
+function toOpenAIUsage(usage: TokenUsage | undefined): OpenAI.CompletionUsage {
+	const prompt = usage?.prompt_tokens ?? 0;
+	const completion = usage?.completion_tokens ?? 0;
+	return {
+		prompt_tokens: prompt,
+		completion_tokens: completion,
+		total_tokens: usage?.total_tokens ?? prompt + completion,
+	};
+}
+
+function toOpenAIToolCall(
+	toolCall: ToolCall,
+): OpenAI.ChatCompletionMessageToolCall {
+	return {
+		id: toolCall.id,
+		type: 'function',
+		function: {
+			name: toolCall.name,
+			arguments: JSON.stringify(toolCall.arguments),
+		},
+	};
+}
+
+/**
+ * Builds the `chat.completion` object for a ChatResponse.
+ * @param response The provider's response
+ * @param id Completion id shared with the log entry
+ * @param created Unix time in seconds
+ */
+export function toOpenAICompletion(
+	response: ChatResponse,
+	id: string,
+	created: number,
+): OpenAI.ChatCompletion {
+	const {metadata, toolCalls} = response;
+	return {
+		id,
+		object: 'chat.completion',
+		created,
+		model: metadata.model,
+		choices: [
+			{
+				index: 0,
+				message: {
+					role: 'assistant',
+					content: response.content,
+					refusal: null,
+					tool_calls: toolCalls?.map(toOpenAIToolCall),
+				},
+				finish_reason: toOpenAIFinishReason(
+					metadata.finishReason,
+					!!toolCalls?.length,
+				),
+				logprobs: null,
+			},
+		],
+		usage: toOpenAIUsage(metadata.usage),
+	};
+}
+
+/**
+ * Converts provider stream events into `chat.completion.chunk` objects. The
+ * first chunk announces the assistant role; the `done` event becomes a chunk
+ * with the finish reason, followed by a usage chunk when requested.
+ * @param events Events from createChatCompletionStream()
+ * @param id Completion id repeated on every chunk
+ * @param created Unix time in seconds
+ * @param model Model reported until the provider confirms it at the end
+ * @param includeUsage Whether the client asked for a usage chunk
+ * @param onDone Receives the final metadata, e.g. for logging
+ */
+export async function* toOpenAIChunks(
+	events: AsyncIterable<ChatStreamEvent>,
+	id: string,
+	created: number,
+	model: string,
+	includeUsage: boolean,
+	onDone?: (event: Extract<ChatStreamEvent, {type: 'done'}>) => void,
+): AsyncGenerator<OpenAI.ChatCompletionChunk> {
+	const chunk = (
+		delta: OpenAI.ChatCompletionChunk.Choice.Delta,
+		finishReason: OpenAIFinishReason | null = null,
+	): OpenAI.ChatCompletionChunk => ({
+		id,
+		object: 'chat.completion.chunk',
+		created,
+		model,
+		choices: [{index: 0, delta, finish_reason: finishReason, logprobs: null}],
+	});
+
+	let toolCallCount = 0;
+	let started = false;
+	for await (const event of events) {
+		if (!started) {
+			started = true;
+			yield chunk({role: 'assistant', content: ''});
+		}
+		switch (event.type) {
+			case 'delta':
+				yield chunk({content: event.content});
+				break;
+			case 'tool_call':
+				yield chunk({
+					tool_calls: [
+						{index: toolCallCount++, ...toOpenAIToolCall(event.toolCall)},
+					],
+				});
+				break;
+			case 'done':
+				onDone?.(event);
+				model = event.metadata.model || model;
+				yield chunk(
+					{},
+					toOpenAIFinishReason(event.metadata.finishReason, toolCallCount > 0),
+				);
+				if (includeUsage) {
+					yield {
+						...chunk({}),
+						choices: [],
+						usage: toOpenAIUsage(event.metadata.usage),
+					};
+				}
+				break;
+		}
+	}
+}
+
+/**
+ * An error as the gateway sends it: HTTP status plus an OpenAI error body.
+ */
+export interface GatewayErrorResponse {
+	status: number;
+	body: {
+		error: {message: string; type: string; code: string | null; param: null};
+	};
+}
+
+function errorResponse(
+	status: number,
+	type: string,
+	code: string | null,
+	message: string,
+): GatewayErrorResponse {
+	return {status, body: {error: {message, type, code, param: null}}};
+}
+
+/**
+ * Maps an error to the HTTP status and body sent to the client. Errors the
+ * gateway raised keep their status; provider errors are mapped by type, so an
+ * upstream credential problem is reported as a 502 rather than as a 401 the
+ * client would blame on its own key.
+ */
+export function toOpenAIError(error: unknown): GatewayErrorResponse {
+	if (!(error instanceof AIProviderError)) {
+		return errorResponse(
+			500,
+			'server_error',
+			null,
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+	const {message} = error;
+	if (error.provider === GATEWAY_NAME && error.status) {
+		return errorResponse(
+			error.status,
+			error instanceof AuthenticationError
+				? 'authentication_error'
+				: 'invalid_request_error',
+			null,
+			message,
+		);
+	}
+	if (error instanceof ContextLengthExceededError) {
+		return errorResponse(
+			400,
+			'invalid_request_error',
+			'context_length_exceeded',
+			message,
+		);
+	}
+	if (error instanceof UnsupportedCapabilityError) {
+		return errorResponse(
+			400,
+			'invalid_request_error',
+			`unsupported_${error.capability}`,
+			message,
+		);
+	}
+	if (error instanceof ContentBlockedError) {
+		return errorResponse(
+			400,
+			'invalid_request_error',
+			'content_filter',
+			message,
+		);
+	}
+	if (error instanceof InvalidRequestError) {
+		return errorResponse(400, 'invalid_request_error', null, message);
+	}
+	if (error instanceof RateLimitError) {
+		return errorResponse(
+			429,
+			'rate_limit_error',
+			'rate_limit_exceeded',
+			message,
+		);
+	}
+	if (error instanceof QuotaExceededError) {
+		return errorResponse(
+			429,
+			'insufficient_quota',
+			'insufficient_quota',
+			message,
+		);
+	}
+	if (error instanceof BudgetExceededError) {
+		return errorResponse(429, 'insufficient_quota', 'budget_exceeded', message);
+	}
+	if (error instanceof RequestTimeoutError) {
+		return errorResponse(504, 'server_error', 'timeout', message);
+	}
+	if (error instanceof RequestCancelledError) {
+		return errorResponse(499, 'server_error', 'cancelled', message);
+	}
+	if (error instanceof AuthenticationError) {
+		return errorResponse(
+			502,
+			'server_error',
+			'upstream_authentication',
+			message,
+		);
+	}
+	return errorResponse(502, 'server_error', 'upstream_unavailable', message);
+}
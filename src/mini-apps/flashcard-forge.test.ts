@@ -0,0 +1,136 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {MockProvider} from '../core/mock-provider.js';
+import {
+	dedupeFlashcards,
+	Flashcard,
+	generateFlashcards,
+} from './flashcard-forge.js';
+
+const REPLY = {
+	flashcards: [
+		{id: '1', question: 'What is H2O?', answer: 'Water'},
+		{id: '2', question: 'What is NaCl?', answer: 'Table salt'},
+	],
+	metadata: {difficulty_level: 'beginner', total_cards: 2, topic: 'Chemistry'},
+};
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('generateFlashcards', () => {
+	it('returns the cards with the performance of the call', async () => {
+		const provider = new MockProvider({
+			content: JSON.stringify(REPLY),
+			usage: {prompt_tokens: 120, completion_tokens: 80, total_tokens: 200},
+			latencyMs: 42,
+		});
+
+		const result = await generateFlashcards(
+			provider,
+			'Chemistry',
+			'beginner',
+			2,
+			'formal',
+		);
+
+		expect(result.flashcards).toEqual(REPLY.flashcards);
+		expect(result.metadata).toEqual(REPLY.metadata);
+		expect(result.performance).toMatchObject({
+			latency_ms: 42,
+			input_tokens: 120,
+			output_tokens: 80,
+			total_tokens: 200,
+			model: 'mock-model',
+		});
+		const [request] = provider.requests;
+		expect(request.seed).toBe(123);
+		expect(request.responseFormat).toMatchObject({
+			type: 'json_schema',
+			name: 'flashcards',
+		});
+		expect(request.messages.at(-1)?.content).toBe(
+			'Create 2 flashcards about Chemistry. Difficulty level: beginner, Style: formal',
+		);
+	});
+
+	it('sends invalid replies back for repair', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const provider = new MockProvider([
+			{content: '{"flashcards": []}'},
+			{content: JSON.stringify(REPLY)},
+		]);
+
+		const result = await generateFlashcards(
+			provider,
+			'Chemistry',
+			'beginner',
+			2,
+			'formal',
+		);
+
+		expect(result.flashcards).toHaveLength(2);
+		expect(provider.requests).toHaveLength(2);
+		// The rejected reply and the validation errors precede the retry
+		const repair = provider.requests[1].messages.slice(-2);
+		expect(repair[0]).toEqual({
+			role: 'assistant',
+			content: '{"flashcards": []}',
+		});
+		expect(repair[1].role).toBe('user');
+		expect(repair[1].content).toContain('metadata');
+	});
+
+	it('leaves out the response format for models without JSON mode', async () => {
+		const provider = new MockProvider(
+			{content: JSON.stringify(REPLY)},
+			{name: 'OpenAI', defaultModel: 'gpt-4'},
+		);
+
+		await generateFlashcards(provider, 'Chemistry', 'beginner', 2, 'formal');
+
+		expect(provider.requests[0].responseFormat).toBeUndefined();
+	});
+
+	it('sends a photo of notes as an image part', async () => {
+		const provider = new MockProvider({content: JSON.stringify(REPLY)});
+		const image = 'data:image/png;base64,iVBORw0KGgo=';
+
+		await generateFlashcards(
+			provider,
+			'Chemistry',
+			'beginner',
+			2,
+			'casual',
+			image,
+		);
+
+		expect(provider.requests[0].messages.at(-1)?.content).toEqual([
+			expect.objectContaining({type: 'text'}),
+			{type: 'image', source: image},
+		]);
+	});
+});
+
+describe('dedupeFlashcards', () => {
+	const cards: Flashcard[] = [
+		{id: '1', question: 'What is water?', answer: 'H2O'},
+		{id: '2', question: 'What is water made of?', answer: 'H2O'},
+		{id: '3', question: 'What is salt?', answer: 'NaCl'},
+	];
+
+	it('drops cards whose questions have near-identical embeddings', async () => {
+		const provider = new MockProvider([], {
+			embed: text => (text.includes('water') ? [1, 0] : [0, 1]),
+		});
+
+		expect(await dedupeFlashcards(provider, cards)).toEqual([
+			cards[0],
+			cards[2],
+		]);
+	});
+
+	it('keeps every card when the provider has no embeddings', async () => {
+		expect(await dedupeFlashcards(new MockProvider(), cards)).toEqual(cards);
+	});
+});
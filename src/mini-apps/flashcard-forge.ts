@@ -1,30 +1,26 @@
-import {AIProvider} from '../core/ai-provider.js';
-import {OpenAIProvider} from '../core/openai-provider.js';
-import {DeepseekProvider} from '../core/deepseek-provider.js';
-import {GeminiProvider} from '../core/gemini-provider.js';
-import {askQuestion} from '../core/cli-utils.js'; // Import shared CLI utils
-import {
-	ChatCompletionCreateParamsBase,
-	ChatCompletion, // Import the specific type
-} from 'openai/resources/chat/completions';
+import {AIProvider, ChatRequest} from '../core/ai-provider.js';
+import {generateObject} from '../core/structured-output.js';
+import {JsonSchema} from '../core/json-schema.js';
+import {findNearDuplicates, supportsEmbeddings} from '../core/embeddings.js';
+import {CommandContext} from '../cli/command.js';
 
 // --- Type Definitions ---
-type Difficulty = 'beginner' | 'intermediate' | 'advanced';
-type Style = 'formal' | 'casual';
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+export type Style = 'formal' | 'casual';
 
-interface Flashcard {
+export interface Flashcard {
 	id: string;
 	question: string;
 	answer: string;
 }
 
-interface Metadata {
+export interface Metadata {
 	difficulty_level: Difficulty;
 	total_cards: number;
 	topic: string;
 }
 
-interface FlashcardResponse {
+export interface FlashcardResponse {
 	flashcards: Flashcard[];
 	metadata: Metadata;
 	performance: {
@@ -32,48 +28,62 @@ interface FlashcardResponse {
 		input_tokens: number | undefined; // Usage might be undefined
 		output_tokens: number | undefined;
 		total_tokens: number | undefined;
+		cost_usd: number | undefined;
 		model: string;
 	};
 }
 
-// --- Helper Function to Select Provider (Copied from weather-app.ts) ---
-function getSelectedProvider(): AIProvider {
-	const args = process.argv.slice(2); // Get arguments passed to the script
-	const providerArg = args.find(arg => arg.startsWith('--provider='));
-	let providerName = 'openai'; // Default provider
-
-	if (providerArg) {
-		providerName = providerArg.split('=')[1]?.toLowerCase();
-	}
-
-	console.log(`Using AI Provider: ${providerName}`); // Log selected provider
-
-	if (providerName === 'deepseek') {
-		return new DeepseekProvider();
-	} else if (providerName === 'gemini') {
-		return new GeminiProvider();
-	} else if (providerName === 'openai') {
-		return new OpenAIProvider();
-	} else {
-		console.warn(`Unknown provider "${providerName}". Defaulting to OpenAI.`);
-		return new OpenAIProvider(); // Default fallback
-	}
-}
+// --- Response Schema ---
+const FLASHCARD_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		flashcards: {
+			type: 'array',
+			items: {
+				type: 'object',
+				properties: {
+					id: {type: 'string'},
+					question: {type: 'string'},
+					answer: {type: 'string'},
+				},
+				required: ['id', 'question', 'answer'],
+			},
+		},
+		metadata: {
+			type: 'object',
+			properties: {
+				difficulty_level: {
+					type: 'string',
+					enum: ['beginner', 'intermediate', 'advanced'],
+				},
+				total_cards: {type: 'integer'},
+				topic: {type: 'string'},
+			},
+			required: ['difficulty_level', 'total_cards', 'topic'],
+		},
+	},
+	required: ['flashcards', 'metadata'],
+};
 
 // --- Core Logic ---
-async function generateFlashcards(
+/**
+ * Generates flashcards about a topic, or from a photo of notes when
+ * `notesImage` (a file path or data URL) is given; that needs a vision model.
+ * @param warn Receives warnings about replies that needed repair
+ */
+export async function generateFlashcards(
 	aiProvider: AIProvider,
 	topic: string,
 	difficulty: Difficulty,
 	numCards: number,
 	style: Style,
+	notesImage?: string,
+	warn: (message: string) => void = console.warn,
 ): Promise<FlashcardResponse> {
-	// Get the default model from the provider to satisfy the type
-	const providerInfo = aiProvider.getProviderInfo();
-	const modelToUse = providerInfo.supportedModels[0] ?? 'unknown-model'; // Fallback just in case
+	const instruction = `Create ${numCards} flashcards about ${topic}. Difficulty level: ${difficulty}, Style: ${style}`;
 
-	const config: ChatCompletionCreateParamsBase = {
-		model: modelToUse, // Use the model from the provider
+	// No model is set, so the provider's default model is used
+	const request: ChatRequest = {
 		messages: [
 			{
 				role: 'system',
@@ -98,49 +108,36 @@ IMPORTANT: Respond ONLY with a valid JSON object in this exact format. Ensure al
 			},
 			{
 				role: 'user',
-				content: `Create ${numCards} flashcards about ${topic}. Difficulty level: ${difficulty}, Style: ${style}`,
+				content: notesImage
+					? [
+							{
+								type: 'text',
+								text: `${instruction}. Base the cards on the notes in this image.`,
+							},
+							{type: 'image', source: notesImage},
+					  ]
+					: instruction,
 			},
 		],
-		temperature: 0.3,
-		top_p: 0.8,
-		max_tokens: 400, // Increased slightly
-		response_format: {type: 'json_object'},
+		maxTokens: 400, // Increased slightly
 		seed: 123, // For reproducibility
-		// stream: false, // Removing this as it didn't resolve the type issue
 	};
 
-	const startTime = Date.now();
-	// Use the imported shared client and assert the non-streaming type
-	const response = await aiProvider.createChatCompletion(config);
-	const endTime = Date.now();
-	const rawResponse = response.content;
+	const result = await generateObject<{
+		flashcards: Flashcard[];
+		metadata: Metadata;
+	}>(aiProvider, request, FLASHCARD_SCHEMA, {schemaName: 'flashcards', warn});
 
-	if (!rawResponse) {
-		throw new Error('Received empty response content from OpenAI.');
-	}
-
-	let parsedResponse: {flashcards: Flashcard[]; metadata: Metadata};
-	try {
-		// Explicitly type the expected structure for parsing
-		parsedResponse = JSON.parse(rawResponse) as {
-			flashcards: Flashcard[];
-			metadata: Metadata;
-		};
-		// Basic validation
-		if (!parsedResponse.flashcards || !parsedResponse.metadata) {
-			throw new Error(
-				"Parsed JSON is missing required 'flashcards' or 'metadata' fields.",
-			);
-		}
-	} catch (parseError) {
-		console.error('Failed to parse JSON response from OpenAI.');
-		console.error('Raw response:', rawResponse);
+	if (!result.ok) {
+		warn(
+			`Failed to get valid flashcard JSON from the AI provider. Raw response: ${result.error.raw}`,
+		);
 		throw new Error(
-			`JSON Parsing Error: ${
-				parseError instanceof Error ? parseError.message : String(parseError)
-			}`,
+			`${result.error.message}: ${result.error.errors.join('; ')}`,
 		);
 	}
+	const parsedResponse = result.value;
+	const response = result.response;
 
 	return {
 		flashcards: parsedResponse.flashcards,
@@ -150,77 +147,121 @@ IMPORTANT: Respond ONLY with a valid JSON object in this exact format. Ensure al
 			input_tokens: response.metadata.usage?.prompt_tokens,
 			output_tokens: response.metadata.usage?.completion_tokens,
 			total_tokens: response.metadata.usage?.total_tokens,
+			cost_usd: response.metadata.cost?.totalCost,
 			model: response.metadata.model,
 		},
 	};
 }
 
-// --- Main Execution ---
-async function main() {
-	console.log('--- Flashcard Forge ---');
+/**
+ * Drops cards whose question means the same as an earlier card's. Providers
+ * without embeddings return the cards unchanged.
+ * @param threshold Minimum cosine similarity of two questions to count as duplicates
+ */
+export async function dedupeFlashcards(
+	aiProvider: AIProvider,
+	flashcards: Flashcard[],
+	threshold = 0.92,
+): Promise<Flashcard[]> {
+	if (!supportsEmbeddings(aiProvider) || flashcards.length < 2) {
+		return flashcards;
+	}
+	const {embeddings} = await aiProvider.createEmbeddings(
+		flashcards.map(card => card.question),
+	);
+	const duplicates = findNearDuplicates(embeddings, threshold);
+	return flashcards.filter((_, index) => !duplicates.has(index));
+}
 
-	// Select and instantiate the provider based on CLI args
-	const aiProvider = getSelectedProvider();
+// --- Command ---
+const DIFFICULTIES: Record<string, Difficulty> = {
+	'1': 'beginner',
+	'2': 'intermediate',
+	'3': 'advanced',
+	beginner: 'beginner',
+	intermediate: 'intermediate',
+	advanced: 'advanced',
+};
 
-	try {
-		const topic = await askQuestion('Enter topic: ');
-		const difficultyInput = await askQuestion(
-			'Difficulty (1=Beginner, 2=Intermediate, 3=Advanced): ',
-		);
-		const numCardsInput = await askQuestion('Number of cards (1-5): ');
-		const styleInput = await askQuestion('Style (formal/casual): ');
-
-		const difficultyMap: Record<string, Difficulty> = {
-			'1': 'beginner',
-			'2': 'intermediate',
-			'3': 'advanced',
-		};
-		const difficulty: Difficulty =
-			difficultyMap[difficultyInput] || 'intermediate';
-		const numCards: number = Math.min(
-			Math.max(Number(numCardsInput) || 1, 1),
-			5,
-		); // Ensure number between 1 and 5
-		const style: Style =
-			styleInput.toLowerCase() === 'casual' ? 'casual' : 'formal'; // Default to formal
-
-		console.log('\nGenerating flashcards...\n');
-
-		const result = await generateFlashcards(
-			aiProvider, // Use the selected provider
-			topic,
-			difficulty,
-			numCards,
-			style,
-		);
+/**
+ * `ai-providers flashcards`: asks for the topic and settings unless they are
+ * given as flags, then prints the deduplicated cards.
+ */
+export async function runFlashcardForge(
+	context: CommandContext,
+): Promise<void> {
+	context.log('--- Flashcard Forge ---');
+	const aiProvider = context.getProvider();
 
-		console.log(`Topic: ${result.metadata.topic}`); // Use metadata topic
-		console.log(`Cards Generated: ${result.flashcards.length}`);
-		console.log(`Difficulty: ${result.metadata.difficulty_level}`);
-		console.log(`Style: ${style}\n`);
-
-		result.flashcards.forEach((card, i) => {
-			console.log(`${i + 1}. Q: ${card.question}`);
-			console.log(`   A: ${card.answer}\n`);
-		});
-
-		console.log('--- Performance ---');
-		console.log(`- Latency: ${result.performance.latency_ms}ms`);
-		console.log(`- Input tokens: ${result.performance.input_tokens ?? 'N/A'}`);
-		console.log(
-			`- Output tokens: ${result.performance.output_tokens ?? 'N/A'}`,
-		);
-		console.log(`- Total tokens: ${result.performance.total_tokens ?? 'N/A'}`);
-		console.log(`- Model: ${result.performance.model}`);
-		console.log('-------------------\n');
-	} catch (error) {
-		console.error(
-			'Error:',
-			error instanceof Error ? error.message : String(error),
+	const topic = await context.askInput('topic', 'Enter topic: ');
+	const difficultyInput = await context.ask(
+		'difficulty',
+		'Difficulty (1=Beginner, 2=Intermediate, 3=Advanced): ',
+		'intermediate',
+	);
+	const numCardsInput = await context.ask(
+		'cards',
+		'Number of cards (1-5): ',
+		'3',
+	);
+	const styleInput = await context.ask(
+		'style',
+		'Style (formal/casual): ',
+		'formal',
+	);
+	const notesImage = await context.ask(
+		'image',
+		'Photo of notes (image path, Enter to skip): ',
+		'',
+	);
+
+	const difficulty: Difficulty =
+		DIFFICULTIES[difficultyInput.trim().toLowerCase()] || 'intermediate';
+	const numCards: number = Math.min(Math.max(Number(numCardsInput) || 1, 1), 5); // Ensure number between 1 and 5
+	const style: Style =
+		styleInput.toLowerCase() === 'casual' ? 'casual' : 'formal'; // Default to formal
+
+	context.log('\nGenerating flashcards...\n');
+
+	const result = await generateFlashcards(
+		aiProvider, // Use the selected provider
+		topic,
+		difficulty,
+		numCards,
+		style,
+		notesImage.trim() || undefined,
+		context.warn,
+	);
+
+	const flashcards = await dedupeFlashcards(aiProvider, result.flashcards);
+	if (flashcards.length < result.flashcards.length) {
+		context.log(
+			`Removed ${
+				result.flashcards.length - flashcards.length
+			} near-duplicate card(s).\n`,
 		);
-	} finally {
-		// rl.close() is handled globally in cli-utils.ts
 	}
-}
 
-main();
+	const lines = [
+		`Topic: ${result.metadata.topic}`, // Use metadata topic
+		`Cards Generated: ${flashcards.length}`,
+		`Difficulty: ${result.metadata.difficulty_level}`,
+		`Style: ${style}\n`,
+		...flashcards.map(
+			(card, i) => `${i + 1}. Q: ${card.question}\n   A: ${card.answer}\n`,
+		),
+		'--- Performance ---',
+		`- Latency: ${result.performance.latency_ms}ms`,
+		`- Input tokens: ${result.performance.input_tokens ?? 'N/A'}`,
+		`- Output tokens: ${result.performance.output_tokens ?? 'N/A'}`,
+		`- Total tokens: ${result.performance.total_tokens ?? 'N/A'}`,
+		`- Cost: ${
+			result.performance.cost_usd === undefined
+				? 'N/A'
+				: `$${result.performance.cost_usd.toFixed(6)}`
+		}`,
+		`- Model: ${result.performance.model}`,
+		'-------------------\n',
+	];
+	context.printResult(lines.join('\n'), {...result, flashcards, style});
+}
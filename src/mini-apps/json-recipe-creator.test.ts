@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {MockProvider} from '../core/mock-provider.js';
+import {RecordingProvider, ReplayProvider} from '../core/recording-provider.js';
+import {getRecipeJson, Recipe} from './json-recipe-creator.js';
+
+const RECIPE: Recipe = {
+	title: 'Pancakes',
+	ingredients: ['flour', 'milk', 'eggs'],
+	steps: ['Mix everything.', 'Fry in a pan.'],
+	calories: 350,
+};
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('getRecipeJson', () => {
+	it('returns the recipe when the first reply matches the schema', async () => {
+		const provider = new MockProvider({content: JSON.stringify(RECIPE)});
+
+		expect(await getRecipeJson(provider, 'pancakes')).toEqual(RECIPE);
+		expect(provider.requests).toHaveLength(1);
+		expect(provider.requests[0].messages.at(-1)?.content).toBe(
+			'Generate a recipe for pancakes.',
+		);
+		expect(provider.requests[0].responseFormat).toMatchObject({
+			type: 'json_schema',
+			name: 'recipe',
+		});
+	});
+
+	it('repairs a reply that breaks the schema', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const provider = new MockProvider([
+			{content: JSON.stringify({...RECIPE, calories: 'many'})},
+			{content: JSON.stringify(RECIPE)},
+		]);
+
+		expect(await getRecipeJson(provider, 'pancakes')).toEqual(RECIPE);
+		expect(provider.requests).toHaveLength(2);
+	});
+
+	it('gives up after three invalid replies', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const provider = new MockProvider({content: 'Here is your recipe!'});
+
+		await expect(getRecipeJson(provider, 'pancakes')).rejects.toThrow(
+			'No valid recipe after 3 attempts.',
+		);
+		expect(provider.requests).toHaveLength(3);
+	});
+
+	it('replays a recorded session without calling the provider', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'recipe-'));
+		const fixture = path.join(directory, 'recipe.json');
+		try {
+			const provider = new MockProvider({content: JSON.stringify(RECIPE)});
+			await getRecipeJson(new RecordingProvider(provider, fixture), 'pancakes');
+
+			const replay = new ReplayProvider(fixture);
+
+			expect(await getRecipeJson(replay, 'pancakes')).toEqual(RECIPE);
+			await expect(getRecipeJson(replay, 'waffles')).rejects.toThrow(
+				'No recorded interaction matches this request',
+			);
+		} finally {
+			fs.rmSync(directory, {recursive: true, force: true});
+		}
+	});
+});
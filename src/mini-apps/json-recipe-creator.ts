@@ -1,180 +1,105 @@
-import {AIProvider} from '../core/ai-provider.js';
-import {openaiClient} from '../core/openai-provider.js'; // Import provider
-import {rl, askQuestion} from '../core/cli-utils.js'; // Import shared CLI utils
-import {
-	ChatCompletionCreateParamsBase,
-	ChatCompletion,
-} from 'openai/resources/chat/completions';
+import {AIProvider, ChatRequest} from '../core/ai-provider.js';
+import {generateObject} from '../core/structured-output.js';
+import {JsonSchema} from '../core/json-schema.js';
+import {CommandContext} from '../cli/command.js';
 
 // --- Constants ---
-const MAX_RETRIES = 3;
+const MAX_RETRIES = 3; // Total attempts, including repairs
 
 // --- Type Definitions ---
-interface Recipe {
+export interface Recipe {
 	title: string;
 	ingredients: string[];
 	steps: string[];
 	calories: number;
 }
 
-// Define schema structure for clarity and validation
-const RECIPE_SCHEMA_INFO = `
-Required JSON format:
-{
-  "title": "string (Recipe title)",
-  "ingredients": ["string (Ingredient description)", "..."],
-  "steps": ["string (Step description)", "..."],
-  "calories": "number (Estimated calories per serving)"
-}
-`;
+// JSON Schema used for native JSON mode and for validating the reply
+const RECIPE_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		title: {type: 'string', description: 'Recipe title'},
+		ingredients: {type: 'array', items: {type: 'string'}, minItems: 1},
+		steps: {type: 'array', items: {type: 'string'}, minItems: 1},
+		calories: {
+			type: 'number',
+			description: 'Estimated calories per serving',
+		},
+	},
+	required: ['title', 'ingredients', 'steps', 'calories'],
+	additionalProperties: false,
+};
 
-// --- Validation Function ---
-// Type guard to check if data conforms to Recipe interface
-function validateRecipeJson(data: any): data is Recipe {
-	if (typeof data !== 'object' || data === null) return false;
-	if (typeof data.title !== 'string') return false;
-	if (
-		!Array.isArray(data.ingredients) ||
-		!data.ingredients.every((item: any) => typeof item === 'string')
-	)
-		return false;
-	if (
-		!Array.isArray(data.steps) ||
-		!data.steps.every((item: any) => typeof item === 'string')
-	)
-		return false;
-	if (typeof data.calories !== 'number') return false;
-	return true;
-}
+// --- Core API Call & Validation ---
+/**
+ * Generates a recipe validated against RECIPE_SCHEMA.
+ * @param warn Receives a warning for every reply that needed repair
+ * @throws Error if no valid recipe was produced, or the provider's error
+ */
+export async function getRecipeJson(
+	aiProvider: AIProvider,
+	dishName: string,
+	warn: (message: string) => void = console.warn,
+): Promise<Recipe> {
+	const request: ChatRequest = {
+		messages: [
+			{
+				role: 'system',
+				content:
+					'You are a recipe generator. Respond ONLY with a valid JSON object. Do not include any introductory text, markdown formatting, or explanations outside the JSON structure.',
+			},
+			{
+				role: 'user',
+				content: `Generate a recipe for ${dishName}.`,
+			},
+		],
+	};
 
-// --- Core API Call & Validation Loop ---
-async function getRecipeJson(dishName: string): Promise<Recipe | null> {
-	let retries = MAX_RETRIES;
-	while (retries > 0) {
-		console.log(
-			`Attempting API call (${MAX_RETRIES - retries + 1}/${MAX_RETRIES})...`,
+	// Invalid replies are sent back to the model for repair
+	const result = await generateObject<Recipe>(
+		aiProvider,
+		request,
+		RECIPE_SCHEMA,
+		{maxRepairAttempts: MAX_RETRIES - 1, schemaName: 'recipe', warn},
+	);
+	if (!result.ok) {
+		throw new Error(
+			`No valid recipe after ${result.attempts} attempts. ${
+				result.error.message
+			}: ${result.error.errors.join('; ')}`,
 		);
-		try {
-			const config: ChatCompletionCreateParamsBase = {
-				model: 'gpt-4o-mini',
-				messages: [
-					{
-						role: 'system',
-						content: `You are a recipe generator. Respond ONLY with a valid JSON object matching this structure: ${RECIPE_SCHEMA_INFO}. Do not include any introductory text, markdown formatting, or explanations outside the JSON structure.`,
-					},
-					{
-						role: 'user',
-						content: `Generate a recipe for ${dishName}.`,
-					},
-				],
-				response_format: {type: 'json_object'},
-				temperature: 0.5,
-			};
-
-			// Use provider interface
-			const response = await openaiClient.createChatCompletion(config);
-			const responseContent = response.content;
-			if (!responseContent) {
-				console.error(
-					`Attempt ${
-						MAX_RETRIES - retries + 1
-					}: Received empty response content.`,
-				);
-				retries--;
-				if (retries > 0)
-					await new Promise(resolve => setTimeout(resolve, 1000));
-				continue;
-			}
-
-			let parsedJson: any; // Start with 'any' before validation
-
-			// 1. Try parsing the JSON
-			try {
-				parsedJson = JSON.parse(responseContent);
-			} catch (parseError) {
-				console.error(
-					`Attempt ${MAX_RETRIES - retries + 1}: Failed to parse JSON. Error: ${
-						parseError instanceof Error
-							? parseError.message
-							: String(parseError)
-					}`,
-				);
-				retries--;
-				if (retries > 0)
-					await new Promise(resolve => setTimeout(resolve, 1000));
-				continue;
-			}
-
-			// 2. Validate the structure using the type guard
-			if (validateRecipeJson(parsedJson)) {
-				console.log(
-					`Attempt ${
-						MAX_RETRIES - retries + 1
-					}: Successfully generated and validated JSON.`,
-				);
-				return parsedJson; // Success! Type is now Recipe
-			} else {
-				console.error(
-					`Attempt ${
-						MAX_RETRIES - retries + 1
-					}: JSON structure validation failed.`,
-				);
-				retries--;
-				if (retries > 0)
-					await new Promise(resolve => setTimeout(resolve, 1000));
-				continue;
-			}
-		} catch (apiError) {
-			console.error(
-				`Attempt ${MAX_RETRIES - retries + 1}: API call failed. Error: ${
-					apiError instanceof Error ? apiError.message : String(apiError)
-				}`,
-			);
-			retries--;
-			if (retries > 0) await new Promise(resolve => setTimeout(resolve, 1000));
-		}
 	}
-
-	// If loop finishes without success
-	console.error('Max retries reached. Failed to get valid JSON.');
-	return null;
+	return result.value;
 }
 
-// --- Main Execution ---
-async function main(): Promise<void> {
-	console.log('--- JSON Recipe Creator ---');
-	try {
-		const dishName = await askQuestion(
-			'What dish would you like a recipe for? ',
-		);
-
-		if (!dishName?.trim()) {
-			// Check for empty/whitespace input
-			console.log('No dish name provided. Exiting.');
-			return;
-		}
+// --- Command ---
+/**
+ * `ai-providers recipe`: generates a recipe for the dish given as argument,
+ * `--dish` or at the prompt, and prints it as JSON.
+ */
+export async function runRecipeCreator(context: CommandContext): Promise<void> {
+	context.log('--- JSON Recipe Creator ---');
+	const aiProvider = context.getProvider();
 
-		console.log(`\nGenerating recipe for "${dishName}"...`);
-		const recipeJson = await getRecipeJson(dishName);
+	const dishName = await context.askInput(
+		'dish',
+		'What dish would you like a recipe for? ',
+	);
 
-		if (recipeJson) {
-			console.log('\n--- Generated Recipe JSON ---');
-			console.log(JSON.stringify(recipeJson, null, 2));
-			console.log('---------------------------\n');
-		} else {
-			console.log(
-				'\nFailed to generate a valid recipe JSON after multiple attempts.',
-			);
-		}
-	} catch (error) {
-		console.error(
-			'\nAn error occurred:',
-			error instanceof Error ? error.message : String(error),
-		);
-	} finally {
-		// rl.close() is handled globally in cli-utils.ts
+	if (!dishName.trim()) {
+		// Check for empty/whitespace input
+		context.log('No dish name provided. Exiting.');
+		return;
 	}
-}
 
-// --- Start ---
-main();
+	context.log(`\nGenerating recipe for "${dishName}"...`);
+	const recipeJson = await getRecipeJson(aiProvider, dishName, context.warn);
+	context.printResult(
+		`\n--- Generated Recipe JSON ---\n${JSON.stringify(
+			recipeJson,
+			null,
+			2,
+		)}\n---------------------------\n`,
+		recipeJson,
+	);
+}
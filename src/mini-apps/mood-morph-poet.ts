@@ -1,7 +1,10 @@
-import {AIProvider} from '../core/ai-provider.js';
-import {openaiClient} from '../core/openai-provider.js'; // Import provider
-import {rl, getMultiLineInput} from '../core/cli-utils.js'; // Import shared CLI utils
-import {ChatCompletionCreateParamsBase} from 'openai/resources/chat/completions';
+import {
+	AIProvider,
+	ChatRequest,
+	ChatResponseMetadata,
+} from '../core/ai-provider.js';
+import {getMultiLineInput} from '../core/cli-utils.js'; // Import shared CLI utils
+import {CommandContext, UsageError} from '../cli/command.js';
 
 // --- Constants ---
 const MOODS: string[] = [
@@ -17,111 +20,106 @@ const MOODS: string[] = [
 ];
 
 // --- Core API Call ---
-async function rewriteText(
+/**
+ * Rewrites text in the given mood. Provider errors propagate to the caller.
+ */
+export async function rewriteText(
+	aiProvider: AIProvider,
 	originalText: string,
 	mood: string,
-): Promise<{content: string; metadata: any} | null> {
-	// Return type is ChatCompletion or null
-	try {
-		const config: ChatCompletionCreateParamsBase = {
-			model: 'gpt-4o-mini', // Ensure this model supports logprobs
-			messages: [
-				{
-					role: 'system',
-					content:
-						"You are a Mood-Morph Poet. Rewrite the user's text precisely in the requested mood. Do not add any extra commentary.",
-				},
-				{
-					role: 'user',
-					content: `Rewrite the following text in a ${mood} tone (max 5 words input):\n\n${originalText}`,
-				},
-			],
-			top_p: 0.9,
-			max_tokens: 50, // Reduced max_tokens for short input
-			temperature: 0.7,
-		};
-		const response = await openaiClient.createChatCompletion(config);
-		return {
-			content: response.content,
-			metadata: response.metadata,
-		};
-	} catch (error) {
-		console.error(
-			'Error calling OpenAI API:',
-			error instanceof Error ? error.message : String(error),
-		);
-		return null; // Indicate failure
-	}
+): Promise<{content: string; metadata: ChatResponseMetadata}> {
+	const request: ChatRequest = {
+		messages: [
+			{
+				role: 'system',
+				content:
+					"You are a Mood-Morph Poet. Rewrite the user's text precisely in the requested mood. Do not add any extra commentary.",
+			},
+			{
+				role: 'user',
+				content: `Rewrite the following text in a ${mood} tone (max 5 words input):\n\n${originalText}`,
+			},
+		],
+		maxTokens: 50, // Reduced max_tokens for short input
+	};
+	const response = await aiProvider.createChatCompletion(request);
+	return {
+		content: response.content,
+		metadata: response.metadata,
+	};
 }
 
 // --- Display Logic ---
-function displayResult(
-	result: {content: string; metadata: any},
+function formatResult(
+	result: {content: string; metadata: ChatResponseMetadata},
 	selectedMood: string,
-): void {
+): string {
 	const rewrittenText = result.content;
 
-	console.log(`\n--- Rewritten Text (${selectedMood}) ---`);
-	console.log(rewrittenText ?? '(No text generated)');
-	console.log('-------------------------\n');
-	console.log('Performance Metrics:');
-	console.log(`- Model: ${result.metadata.model}`);
-	console.log(`- Latency: ${result.metadata.latencyMs}ms`);
-	console.log(`- Tokens used: ${result.metadata.usage?.total_tokens ?? 'N/A'}`);
+	return [
+		`\n--- Rewritten Text (${selectedMood}) ---`,
+		rewrittenText ?? '(No text generated)',
+		'-------------------------\n',
+		'Performance Metrics:',
+		`- Model: ${result.metadata.model}`,
+		`- Latency: ${result.metadata.latencyMs}ms`,
+		`- Tokens used: ${result.metadata.usage?.total_tokens ?? 'N/A'}`,
+		`- Cost: ${
+			result.metadata.cost
+				? `$${result.metadata.cost.totalCost.toFixed(6)}`
+				: 'N/A'
+		}`,
+	].join('\n');
 }
 
-// --- Main Execution ---
-async function main(): Promise<void> {
-	console.log('--- Mood-Morph Poet ---');
-	let originalText = '';
-
-	try {
-		while (true) {
-			// Use the shared multi-line input function
-			originalText = await getMultiLineInput(
-				'Enter text (max 5 words) to rewrite',
-			);
-
-			if (!originalText.trim()) {
-				// Check for empty/whitespace input
-				console.log('No text provided. Exiting.');
-				// rl.close() handled globally
-				return;
-			}
+// --- Command ---
+function countWords(text: string): number {
+	// Filter empty strings after split which can happen with multiple spaces
+	return text.trim().split(/\s+/).filter(Boolean).length;
+}
 
-			// Filter empty strings after split which can happen with multiple spaces
-			const wordCount = originalText.trim().split(/\s+/).filter(Boolean).length;
+/**
+ * `ai-providers poet`: rewrites up to five words in a random mood, or the one
+ * given with `--mood`.
+ */
+export async function runMoodMorphPoet(context: CommandContext): Promise<void> {
+	context.log('--- Mood-Morph Poet ---');
+	const aiProvider = context.getProvider();
 
-			if (wordCount > 5) {
-				console.error(
-					'\nInput too long. Please use 5 words or less. Try again.\n',
-				);
-			} else {
-				break; // Valid input length, exit loop
+	let originalText = (await context.readInput()) ?? '';
+	if (!originalText && !context.options.interactive) {
+		throw new UsageError('Give the text as an argument or on stdin.');
+	}
+	while (!originalText || countWords(originalText) > 5) {
+		if (originalText) {
+			if (!context.options.interactive) {
+				throw new UsageError('Input too long. Please use 5 words or less.');
 			}
+			console.error(
+				'\nInput too long. Please use 5 words or less. Try again.\n',
+			);
 		}
-
-		// Proceed only after valid input is received
-		const selectedMood = MOODS[Math.floor(Math.random() * MOODS.length)];
-		console.log(`\nChosen mood: ${selectedMood}`);
-		console.log('Rewriting text...');
-
-		const completion = await rewriteText(originalText, selectedMood);
-
-		if (completion) {
-			displayResult(completion, selectedMood);
-		} else {
-			console.log('Failed to get rewrite from API.');
-		}
-	} catch (error) {
-		console.error(
-			'\nAn error occurred:',
-			error instanceof Error ? error.message : String(error),
+		// Use the shared multi-line input function
+		originalText = await getMultiLineInput(
+			'Enter text (max 5 words) to rewrite',
 		);
-	} finally {
-		// rl.close() is handled globally in cli-utils.ts
+		if (!originalText.trim()) {
+			// Check for empty/whitespace input
+			context.log('No text provided. Exiting.');
+			return;
+		}
 	}
-}
 
-// --- Start ---
-main();
+	// Proceed only after valid input is received
+	const selectedMood =
+		(context.flags.mood as string | undefined) ??
+		MOODS[Math.floor(Math.random() * MOODS.length)];
+	context.log(`\nChosen mood: ${selectedMood}`);
+	context.log('Rewriting text...');
+
+	const completion = await rewriteText(aiProvider, originalText, selectedMood);
+	context.printResult(formatResult(completion, selectedMood), {
+		mood: selectedMood,
+		...completion,
+	});
+}
@@ -1,25 +1,36 @@
 import {AIProvider} from '../core/ai-provider.js';
-import {openaiClient} from '../core/openai-provider.js'; // Import provider
-import {rl, askQuestion} from '../core/cli-utils.js'; // Import shared CLI utils
-import {
-	ChatCompletionMessageParam,
-	ChatCompletionChunk,
-} from 'openai/resources/chat/completions';
-import {Stream} from 'openai/streaming';
+import {askQuestion, runCancellable} from '../core/cli-utils.js'; // Import shared CLI utils
+import {ConversationManager} from '../core/conversation.js';
+import {RequestCancelledError} from '../core/errors.js';
+import {CommandContext, UsageError} from '../cli/command.js';
 
 // --- State ---
-let currentTemperature: number = 0.7;
-// Type the messages array
-const messages: ChatCompletionMessageParam[] = [
-	{
-		role: 'system',
-		content:
-			'You are a collaborative storyteller. Continue the story with one short sentence, strictly under 20 tokens. Do not add any preamble like "Okay, here\'s the next sentence:". Just provide the sentence.',
-	},
-];
+// Set with /temp; until then requests use the configured temperature
+let currentTemperature: number | undefined;
+// Set when `--temperature` overrides every request, making /temp ineffective
+let temperatureFixed = false;
+// The story so far; old sentences are dropped once it outgrows the context window
+const newStory = () =>
+	new ConversationManager({
+		messages: [
+			{
+				role: 'system',
+				content:
+					'You are a collaborative storyteller. Continue the story with one short sentence, strictly under 20 tokens. Do not add any preamble like "Okay, here\'s the next sentence:". Just provide the sentence.',
+			},
+		],
+		onTrim: report =>
+			console.log(
+				`[Context trimmed: dropped ${report.dropped.length} old message(s), ~${report.droppedTokens} tokens]`,
+			),
+	});
+let conversation = newStory();
 
 // --- Input Handling ---
-async function handleUserInput(input: string): Promise<boolean> {
+export async function handleUserInput(
+	aiProvider: AIProvider,
+	input: string,
+): Promise<boolean> {
 	// Return boolean to indicate if loop should continue
 	const trimmedInput = input.trim();
 
@@ -28,6 +39,10 @@ async function handleUserInput(input: string): Promise<boolean> {
 	}
 
 	if (trimmedInput.startsWith('/temp')) {
+		if (temperatureFixed) {
+			console.log('Temperature is fixed by --temperature.');
+			return true;
+		}
 		const parts = trimmedInput.split(' ');
 		if (parts.length === 2) {
 			const tempValue = parseFloat(parts[1]);
@@ -46,8 +61,21 @@ async function handleUserInput(input: string): Promise<boolean> {
 	}
 
 	if (trimmedInput) {
-		messages.push({role: 'user', content: trimmedInput});
-		await getAIResponse(); // Get AI response only if user provided story input
+		conversation.add({role: 'user', content: trimmedInput});
+		process.stdout.write('AI: ');
+		try {
+			await getAIResponse(aiProvider); // Get AI response only if user provided story input
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				// The partial sentence is discarded; the user can continue the story
+				console.log('\n[Generation stopped]');
+			} else {
+				console.error(
+					'\nError calling AI provider:',
+					error instanceof Error ? error.message : String(error),
+				);
+			}
+		}
 	} else {
 		console.log('Please enter a sentence or a command.'); // Prompt if input is empty
 	}
@@ -55,64 +83,93 @@ async function handleUserInput(input: string): Promise<boolean> {
 }
 
 // --- AI Response Generation (Streaming) ---
-async function getAIResponse(): Promise<void> {
-	process.stdout.write('AI: ');
+/**
+ * Streams the next sentence of the story and adds it to the conversation.
+ * @param write Receives the sentence as it streams in
+ * @returns The sentence, or undefined if the AI returned nothing
+ * @throws The provider's error, e.g. RequestCancelledError after Ctrl+C
+ */
+async function getAIResponse(
+	aiProvider: AIProvider,
+	write: (text: string) => void = text => process.stdout.write(text),
+): Promise<string | undefined> {
 	let aiSentence = '';
-	try {
+	const {messages} = await conversation.prepare(20);
+	// Ctrl+C while streaming stops this answer instead of exiting the app
+	await runCancellable(async signal => {
 		// Use provider's streaming interface
-		const stream = openaiClient.createChatCompletionStream({
-			model: 'gpt-4o-mini',
-			messages: messages,
+		const stream = aiProvider.createChatCompletionStream({
+			messages,
 			temperature: currentTemperature,
-			max_tokens: 20,
+			maxTokens: 20,
+			signal,
 		});
 
-		for await (const response of stream) {
-			const content = response.content;
-			process.stdout.write(content);
-			aiSentence += content;
+		// Only deltas are printed; the final 'done' event carries usage and timings
+		for await (const event of stream) {
+			if (event.type === 'delta') {
+				write(event.content);
+				aiSentence += event.content;
+			}
 		}
-		process.stdout.write('\n'); // Newline after streaming is complete
+	});
+	write('\n'); // Newline after streaming is complete
 
-		// Add the complete AI sentence to messages only if it's not empty
-		if (aiSentence.trim()) {
-			messages.push({role: 'assistant', content: aiSentence.trim()});
-		} else {
-			console.warn('[Warning: AI generated an empty response]');
+	// Add the complete AI sentence to messages only if it's not empty
+	if (aiSentence.trim()) {
+		conversation.add({role: 'assistant', content: aiSentence.trim()});
+		return aiSentence.trim();
+	}
+	console.warn('[Warning: AI generated an empty response]');
+	return undefined;
+}
+
+// --- Command ---
+/**
+ * `ai-providers story`: writes a story together with the user. Run
+ * non-interactively, it continues the story given as input by one sentence.
+ */
+export async function runTinyTaleTuner(context: CommandContext): Promise<void> {
+	const aiProvider = context.getProvider();
+	// Requests use the provider's default model, which is listed first
+	conversation.setModel(aiProvider.getProviderInfo().defaultModel);
+	temperatureFixed = context.options.temperature !== undefined;
+
+	if (!context.options.interactive) {
+		const story = await context.readInput();
+		if (!story?.trim()) {
+			throw new UsageError('Give the story so far as an argument or on stdin.');
 		}
-	} catch (error) {
-		console.error(
-			'\nError calling OpenAI API:',
-			error instanceof Error ? error.message : String(error),
+		// Every input is a story of its own, e.g. one per `--input` record
+		conversation = newStory();
+		conversation.setModel(aiProvider.getProviderInfo().defaultModel);
+		conversation.add({role: 'user', content: story.trim()});
+		// Text output streams; JSON output waits for the whole sentence
+		const sentence = await getAIResponse(
+			aiProvider,
+			context.options.output === 'text' ? undefined : () => {},
 		);
-		// Optionally remove the last user message if AI fails? Depends on desired behavior.
+		if (sentence === undefined) {
+			throw new Error('The AI did not continue the story.');
+		}
+		if (context.options.output !== 'text') {
+			context.printResult(sentence, {sentence});
+		}
+		return;
 	}
-}
 
-// --- Main Execution ---
-async function main(): Promise<void> {
-	console.log('--- Tiny Tale Tuner ---');
-	console.log("Let's write a story together, one sentence at a time!");
-	console.log("The AI's sentences are capped at 20 tokens.");
-	console.log(
+	context.log('--- Tiny Tale Tuner ---');
+	context.log("Let's write a story together, one sentence at a time!");
+	context.log("The AI's sentences are capped at 20 tokens.");
+	context.log(
 		'Commands: /temp [0.0-2.0] to change creativity, /quit to exit.\n',
 	);
 
 	let keepGoing = true;
 	while (keepGoing) {
 		const userInput = await askQuestion('You: '); // Use shared askQuestion
-		keepGoing = await handleUserInput(userInput);
+		keepGoing = await handleUserInput(aiProvider, userInput);
 	}
 
-	console.log('\nStory ended. Goodbye!');
-	// rl.close() is handled globally in cli-utils.ts
+	context.log('\nStory ended. Goodbye!');
 }
-
-// --- Start ---
-main().catch(error => {
-	console.error(
-		'Unhandled error in main:',
-		error instanceof Error ? error.message : String(error),
-	);
-	// rl.close() will be handled by the global exit handler
-});
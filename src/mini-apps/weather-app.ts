@@ -1,49 +1,46 @@
-import {AIProvider} from '../core/ai-provider.js';
-import {OpenAIProvider} from '../core/openai-provider.js';
-import {DeepseekProvider} from '../core/deepseek-provider.js';
-import {GeminiProvider} from '../core/gemini-provider.js'; // Import GeminiProvider
-import {askQuestion} from '../core/cli-utils.js';
+import {askQuestion, runCancellable} from '../core/cli-utils.js';
+import {RequestCancelledError} from '../core/errors.js';
+import {CommandContext, UsageError} from '../cli/command.js';
 import {WeatherService, TurnResult} from './weather-service.js';
 
 // Architectural Pattern: CLI Application Layer - Handles user interaction loop and state.
 
-// --- Helper Function to Select Provider ---
-function getSelectedProvider(): AIProvider {
-	const args = process.argv.slice(2); // Get arguments passed to the script
-	const providerArg = args.find(arg => arg.startsWith('--provider='));
-	let providerName = 'openai'; // Default provider
-
-	if (providerArg) {
-		providerName = providerArg.split('=')[1]?.toLowerCase();
-	}
-
-	console.log(`Using AI Provider: ${providerName}`); // Log selected provider
-
-	if (providerName === 'deepseek') {
-		return new DeepseekProvider();
-	} else if (providerName === 'gemini') {
-		return new GeminiProvider();
-	} else if (providerName === 'openai') {
-		return new OpenAIProvider();
-	} else {
-		console.warn(`Unknown provider "${providerName}". Defaulting to OpenAI.`);
-		return new OpenAIProvider(); // Default fallback
-	}
-}
-
 // --- Main Application Logic ---
-async function main() {
-	console.log('--- Conversational Weather App ---');
-	console.log("Ask for weather by city, or type '/quit' to exit.");
-
-	// Select and instantiate the provider based on CLI args
-	const aiProvider = getSelectedProvider();
-
+/**
+ * `ai-providers weather`: a conversation about the weather. Run
+ * non-interactively, it answers the single question given as input.
+ */
+export async function runWeatherApp(context: CommandContext): Promise<void> {
 	// Instantiate the service, injecting the selected AI provider
-	const weatherService = new WeatherService(aiProvider);
+	const weatherService = new WeatherService(
+		context.getProvider(),
+		fetch,
+		context.log,
+	);
+	const question = await context.readInput();
+
+	if (!context.options.interactive) {
+		if (!question?.trim()) {
+			throw new UsageError(
+				'Give a question as an argument or on stdin, e.g. "Weather in Paris?"',
+			);
+		}
+		const result = await weatherService.handleConversationTurn(question, null);
+		if (result.type === 'error') {
+			throw result.error ?? new Error(result.text);
+		}
+		context.printResult(
+			(result.type === 'weather' ? result.summary : result.text) ?? '',
+			result,
+		);
+		return;
+	}
+
+	context.log('--- Conversational Weather App ---');
+	context.log("Ask for weather by city, or type '/quit' to exit.");
 
 	let currentContext: string | null = null; // Holds the weather summary context
-	let userInput: string = ''; // Start with empty input to trigger initial AI prompt
+	let userInput: string = question ?? ''; // Start with empty input to trigger initial AI prompt
 	let isFirstTurn = true; // Flag for the initial turn
 
 	while (true) {
@@ -52,13 +49,20 @@ async function main() {
 		isFirstTurn = false; // Reset flag after the first turn
 
 		// Handle the conversation turn. Pass null context initially.
-		const result: TurnResult = await weatherService.handleConversationTurn(
-			inputForAI, // Use the potentially modified input
-			currentContext,
+		// Ctrl+C during the turn stops it instead of exiting the app
+		const result: TurnResult = await runCancellable(signal =>
+			weatherService.handleConversationTurn(
+				inputForAI, // Use the potentially modified input
+				currentContext,
+				signal,
+			),
 		);
 
 		// Display the result from the service
-		if (result.type === 'weather') {
+		if (result.error instanceof RequestCancelledError) {
+			// The weather context of the last answer is kept
+			console.log('\n[Generation stopped]\n');
+		} else if (result.type === 'weather') {
 			console.log(`\n☀️ ${result.summary}\n`);
 			currentContext = result.summary!; // Update context
 		} else if (result.text) {
@@ -92,12 +96,5 @@ async function main() {
 		}
 	}
 
-	console.log('\nExiting Weather App. Goodbye!');
-	// rl.close() is handled globally in cli-utils.ts via process.on('exit')
+	context.log('\nExiting Weather App. Goodbye!');
 }
-
-// --- Start ---
-main().catch(err => {
-	console.error('Unhandled error in main:', err);
-	// rl.close() will be called by the global exit handler
-});
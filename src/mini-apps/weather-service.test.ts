@@ -0,0 +1,159 @@
+import {describe, expect, it} from 'vitest';
+import {RateLimitError, RequestCancelledError} from '../core/errors.js';
+import {MockProvider} from '../core/mock-provider.js';
+import {WeatherService} from './weather-service.js';
+
+// Answers Open-Meteo's geocoding and forecast endpoints without network access
+function fakeOpenMeteo(): {fetchImpl: typeof fetch; urls: string[]} {
+	const urls: string[] = [];
+	const fetchImpl = (async (input: string | URL | Request) => {
+		const url = String(input);
+		urls.push(url);
+		const body = url.includes('geocoding-api')
+			? {results: [{latitude: 48.85, longitude: 2.35, name: 'Paris'}]}
+			: {
+					current: {
+						temperature_2m: 21.5,
+						weather_code: 0,
+						wind_speed_10m: 12,
+					},
+			  };
+		return new Response(JSON.stringify(body), {status: 200});
+	}) as typeof fetch;
+	return {fetchImpl, urls};
+}
+
+const silent = () => {};
+
+describe('WeatherService.handleConversationTurn', () => {
+	it('fetches the weather through the tools the model calls', async () => {
+		const provider = new MockProvider([
+			{
+				toolCalls: [
+					{id: 'call_1', name: 'get_coordinates', arguments: {city: 'Paris'}},
+				],
+			},
+			{
+				toolCalls: [
+					{
+						id: 'call_2',
+						name: 'get_weather',
+						arguments: {
+							latitude: 48.85,
+							longitude: 2.35,
+							location_name: 'Paris',
+						},
+					},
+				],
+			},
+			{content: 'It is sunny in Paris.'},
+		]);
+		const {fetchImpl, urls} = fakeOpenMeteo();
+		const service = new WeatherService(provider, fetchImpl, silent);
+
+		const result = await service.handleConversationTurn(
+			'Weather in Paris?',
+			null,
+		);
+
+		expect(result).toEqual({
+			type: 'weather',
+			summary:
+				'The current weather in Paris is clear sky with a temperature of 21.5°C and wind speed of 12 km/h.',
+		});
+		expect(urls).toHaveLength(2);
+		expect(urls[0]).toContain('name=Paris');
+		expect(urls[1]).toContain('latitude=48.85&longitude=2.35');
+		// Tool results go back to the model with the id of the call
+		expect(provider.requests[2].messages.slice(2)).toMatchObject([
+			{role: 'assistant'},
+			{role: 'tool', toolCallId: 'call_1', name: 'get_coordinates'},
+			{role: 'assistant'},
+			{role: 'tool', toolCallId: 'call_2', name: 'get_weather'},
+		]);
+	});
+
+	it('asks for a city when the model does', async () => {
+		const provider = new MockProvider({
+			content: 'Which city would you like the weather for?',
+		});
+		const service = new WeatherService(
+			provider,
+			fakeOpenMeteo().fetchImpl,
+			silent,
+		);
+
+		const result = await service.handleConversationTurn('Hello', null);
+
+		expect(result).toEqual({
+			type: 'question',
+			text: 'Which city would you like the weather for?',
+		});
+		expect(provider.requests[0].tools?.map(tool => tool.name)).toEqual([
+			'get_coordinates',
+			'get_weather',
+		]);
+	});
+
+	it('answers follow-up questions from the weather context', async () => {
+		const provider = new MockProvider({content: 'Yes, take sunglasses.'});
+		const service = new WeatherService(
+			provider,
+			fakeOpenMeteo().fetchImpl,
+			silent,
+		);
+		const context = 'The current weather in Paris is clear sky.';
+
+		const result = await service.handleConversationTurn(
+			'Do I need sunglasses?',
+			context,
+		);
+
+		expect(result).toEqual({type: 'answer', text: 'Yes, take sunglasses.'});
+		const [system, user] = provider.requests[0].messages;
+		expect(system.role).toBe('system');
+		expect(system.content).toContain(`CONTEXT: ${context}`);
+		expect(user).toEqual({role: 'user', content: 'Do I need sunglasses?'});
+		// The context replaces the system message instead of adding another one
+		expect(provider.requests[0].messages).toHaveLength(2);
+	});
+
+	it('turns provider failures into an error result', async () => {
+		const error = new RateLimitError('Slow down', {
+			provider: 'Mock',
+			status: 429,
+		});
+		const service = new WeatherService(
+			new MockProvider({error}),
+			fakeOpenMeteo().fetchImpl,
+			silent,
+		);
+
+		const result = await service.handleConversationTurn('Paris', null);
+
+		expect(result.type).toBe('error');
+		expect(result.error).toBe(error);
+		expect(result.text).toBeTruthy();
+	});
+
+	it('passes the signal on so Ctrl+C cancels the turn', async () => {
+		const provider = new MockProvider({content: 'Which city?'});
+		const service = new WeatherService(
+			provider,
+			fakeOpenMeteo().fetchImpl,
+			silent,
+		);
+		const controller = new AbortController();
+		controller.abort();
+
+		const result = await service.handleConversationTurn(
+			'Hello',
+			null,
+			controller.signal,
+		);
+
+		expect(result.type).toBe('error');
+		expect(result.error).toBeInstanceOf(RequestCancelledError);
+		expect(provider.requests).toHaveLength(0);
+	});
+});
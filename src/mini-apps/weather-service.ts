@@ -1,9 +1,13 @@
-import {AIProvider, ChatResponse} from '../core/ai-provider.js';
-import {ChatCompletionMessageParam} from 'openai/resources/chat/completions';
-import {extractCityNameSimple} from '../core/cli-utils.js'; // Assuming a helper exists or will be added
+import {AIProvider, ChatMessage} from '../core/ai-provider.js';
+import {Tool, runWithTools} from '../core/tool-runner.js';
+import {AIProviderError, describeProviderError} from '../core/errors.js';
 
 // Architectural Pattern: Service Layer - Encapsulates weather logic and AI interaction.
 // Architectural Pattern: Dependency Injection - AI provider is injected.
+// Architectural Pattern: Tool Calling - The model fetches weather through real tools.
+
+// Upper bound so a hung request cannot block the conversation loop
+const OPEN_METEO_TIMEOUT_MS = 10_000;
 
 // Define interfaces for API responses (basic structure)
 interface GeocodeResult {
@@ -24,17 +28,31 @@ export interface TurnResult {
 	type: 'weather' | 'question' | 'answer' | 'info' | 'error';
 	text?: string; // For questions, answers, info, errors
 	summary?: string; // For weather results
+	error?: unknown; // The failure behind an 'error' result
 }
 
 export class WeatherService {
 	private aiProvider: AIProvider;
 	private systemPrompt: string;
+	private fetchImpl: typeof fetch;
+	private log: (message: string) => void;
 
-	constructor(aiProvider: AIProvider) {
+	/**
+	 * @param aiProvider The provider answering the conversation
+	 * @param fetchImpl HTTP client for Open-Meteo, replaceable for offline runs
+	 * @param log Receives progress messages (default: console.log)
+	 */
+	constructor(
+		aiProvider: AIProvider,
+		fetchImpl: typeof fetch = fetch,
+		log: (message: string) => void = console.log,
+	) {
 		this.aiProvider = aiProvider;
-		// Updated system prompt for conversational flow - made more explicit for Deepseek
+		this.fetchImpl = fetchImpl;
+		this.log = log;
+		// System prompt for conversational flow; weather is fetched via tools
 		this.systemPrompt = `You are a friendly weather assistant.
-- If the user provides a city name, acknowledge it ONLY with the exact phrase: "Okay, fetching weather for [City Name]...". Do not add any other text or questions in this specific response.
+- If the user provides a city name, call get_coordinates for it and then get_weather with the returned coordinates. Never guess the weather yourself.
 - If the user asks a question AND weather context is provided below, answer the question based ONLY on that context.
 - If the user asks a question but NO weather context is provided, or asks something unrelated to the provided context, politely state you need a city first or can only answer about the current weather context.
 - If no city is mentioned and no context is provided, ask the user "Which city would you like the weather for?".`;
@@ -45,13 +63,15 @@ export class WeatherService {
 	private async getCoordinatesForCity(
 		cityName: string,
 	): Promise<GeocodeResult | null> {
-		console.log(`[GeoAPI] Fetching coordinates for: ${cityName}`);
+		this.log(`[GeoAPI] Fetching coordinates for: ${cityName}`);
 		const geocodeUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(
 			cityName,
 		)}&count=1&language=en&format=json`;
 
 		try {
-			const response = await fetch(geocodeUrl);
+			const response = await this.fetchImpl(geocodeUrl, {
+				signal: AbortSignal.timeout(OPEN_METEO_TIMEOUT_MS),
+			});
 			if (!response.ok) {
 				throw new Error(`Geocoding API error: ${response.statusText}`);
 			}
@@ -64,18 +84,19 @@ export class WeatherService {
 					longitude: firstResult.longitude,
 					name: firstResult.name,
 				};
-				console.log(
+				this.log(
 					`[GeoAPI] Found: ${result.name} (${result.latitude}, ${result.longitude})`,
 				);
 				return result;
 			} else {
-				console.log(`[GeoAPI] No coordinates found for ${cityName}`);
+				this.log(`[GeoAPI] No coordinates found for ${cityName}`);
 				return null;
 			}
 		} catch (error) {
-			console.error(
-				'[GeoAPI] Error fetching coordinates:',
-				error instanceof Error ? error.message : String(error),
+			this.log(
+				`[GeoAPI] Error fetching coordinates: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
 			);
 			return null;
 		}
@@ -85,12 +106,14 @@ export class WeatherService {
 		lat: number,
 		lon: number,
 	): Promise<WeatherResult | null> {
-		console.log(`[WeatherAPI] Fetching weather for: (${lat}, ${lon})`);
+		this.log(`[WeatherAPI] Fetching weather for: (${lat}, ${lon})`);
 		// Example: Get current temperature, weather code, wind speed
 		const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,weather_code,wind_speed_10m&temperature_unit=celsius&wind_speed_unit=kmh`;
 
 		try {
-			const response = await fetch(weatherUrl);
+			const response = await this.fetchImpl(weatherUrl, {
+				signal: AbortSignal.timeout(OPEN_METEO_TIMEOUT_MS),
+			});
 			if (!response.ok) {
 				throw new Error(`Weather API error: ${response.statusText}`);
 			}
@@ -102,20 +125,21 @@ export class WeatherService {
 					weathercode: data.current.weather_code,
 					windspeed: data.current.wind_speed_10m,
 				};
-				console.log(
+				this.log(
 					`[WeatherAPI] Result: Temp ${result.temperature}°C, Code ${result.weathercode}, Wind ${result.windspeed} km/h`,
 				);
 				return result;
 			} else {
-				console.log(
+				this.log(
 					`[WeatherAPI] No current weather data found for (${lat}, ${lon})`,
 				);
 				return null;
 			}
 		} catch (error) {
-			console.error(
-				'[WeatherAPI] Error fetching weather:',
-				error instanceof Error ? error.message : String(error),
+			this.log(
+				`[WeatherAPI] Error fetching weather: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
 			);
 			return null;
 		}
@@ -142,104 +166,109 @@ export class WeatherService {
 		return `Unknown (${code})`;
 	}
 
-	// --- New Conversational Method ---
+	// --- Tools Exposed to the Model ---
+	private buildTools(): Tool[] {
+		return [
+			{
+				name: 'get_coordinates',
+				description: 'Looks up the latitude and longitude of a city.',
+				parameters: {
+					type: 'object',
+					properties: {
+						city: {type: 'string', description: 'City name, e.g. "Paris"'},
+					},
+					required: ['city'],
+				},
+				execute: async args => {
+					const result = await this.getCoordinatesForCity(String(args.city));
+					return result ?? {error: `No coordinates found for "${args.city}".`};
+				},
+			},
+			{
+				name: 'get_weather',
+				description:
+					'Gets the current weather for coordinates returned by get_coordinates.',
+				parameters: {
+					type: 'object',
+					properties: {
+						latitude: {type: 'number'},
+						longitude: {type: 'number'},
+						location_name: {
+							type: 'string',
+							description: 'Name returned by get_coordinates',
+						},
+					},
+					required: ['latitude', 'longitude', 'location_name'],
+				},
+				execute: async args => {
+					const weatherResult = await this.getWeatherForCoordinates(
+						Number(args.latitude),
+						Number(args.longitude),
+					);
+					if (!weatherResult) {
+						return {error: 'Weather data is currently unavailable.'};
+					}
+					const weatherDescription = this.interpretWeatherCode(
+						weatherResult.weathercode,
+					);
+					return {
+						summary: `The current weather in ${
+							args.location_name
+						} is ${weatherDescription.toLowerCase()} with a temperature of ${
+							weatherResult.temperature
+						}°C and wind speed of ${weatherResult.windspeed} km/h.`,
+					};
+				},
+			},
+		];
+	}
+
+	// --- Conversational Method ---
+	// `signal` cancels the model calls of the turn, e.g. on Ctrl+C
 	public async handleConversationTurn(
 		userInput: string,
 		currentContext: string | null,
+		signal?: AbortSignal,
 	): Promise<TurnResult> {
-		const messages: ChatCompletionMessageParam[] = [
-			{role: 'system', content: this.systemPrompt},
+		// One system message per turn; the context replaces, not stacks on, the last one
+		const messages: ChatMessage[] = [
+			{
+				role: 'system',
+				content: currentContext
+					? `${this.systemPrompt}\n\nCONTEXT: ${currentContext}`
+					: this.systemPrompt,
+			},
+			{role: 'user', content: userInput},
 		];
 
-		if (currentContext) {
-			messages.push({role: 'system', content: `CONTEXT: ${currentContext}`});
-		}
-		messages.push({role: 'user', content: userInput});
-
 		try {
-			// --- Step 1: Initial AI Call (Intent Check & Response Generation) ---
-			console.log('AI Processing turn...');
-			// Get the provider's default/preferred model
-			const providerInfo = this.aiProvider.getProviderInfo();
-			const modelToUse =
-				providerInfo.supportedModels[0] || 'default-model-error'; // Fallback needed
-			if (modelToUse === 'default-model-error') {
-				console.error("Provider doesn't list any supported models!");
-				// Handle error appropriately, maybe throw or return error TurnResult
-			}
-
-			const aiResponse: ChatResponse =
-				await this.aiProvider.createChatCompletion({
-					model: modelToUse, // Use the model reported by the provider
-					messages: messages,
-					temperature: 0.5, // Allow some creativity for conversation
-				});
-			const aiResponseText = aiResponse.content.trim();
-			console.log(`AI Response: ${aiResponseText}`);
-
-			// --- Step 2: Check for City Mention / Fetch Trigger ---
-			// Simple check: Does the AI response indicate fetching?
-			const fetchTrigger = aiResponseText.startsWith(
-				'Okay, fetching weather for',
+			// --- Step 1: Let the model answer, calling weather tools as needed ---
+			this.log('AI Processing turn...');
+			// No model is set, so the provider's default model is used
+			const {response, executions} = await runWithTools(
+				this.aiProvider,
+				{messages, signal},
+				this.buildTools(),
 			);
-			// Simple check: Did the user input likely contain a city? (Refine this)
-			const potentialCity = extractCityNameSimple(userInput); // Use helper
-
-			let cityToFetch: string | null = null;
-
-			if (fetchTrigger) {
-				// Extract city from AI response (more reliable)
-				const match = aiResponseText.match(
-					/Okay, fetching weather for (.*?)\.\.\./,
-				);
-				if (match && match[1]) {
-					cityToFetch = match[1];
-				}
-			} else if (potentialCity && !currentContext) {
-				// If user likely gave a city and we don't have context yet, assume we should fetch
-				cityToFetch = potentialCity;
-				console.log(`User likely provided new city: ${cityToFetch}`);
-			}
-
-			// --- Step 3: Fetch Weather (If Needed) ---
-			if (cityToFetch) {
-				console.log(`Fetching weather for: ${cityToFetch}`);
-				const geoResult = await this.getCoordinatesForCity(cityToFetch);
-				if (!geoResult) {
-					return {
-						type: 'info',
-						text: `Sorry, I couldn't find coordinates for "${cityToFetch}". Please check the spelling or try again.`,
-					};
-				}
-
-				const weatherResult = await this.getWeatherForCoordinates(
-					geoResult.latitude,
-					geoResult.longitude,
-				);
-				if (!weatherResult) {
-					return {
-						type: 'info',
-						text: `Sorry, I couldn't fetch the current weather data for ${geoResult.name}.`,
-					};
-				}
-
-				const weatherDescription = this.interpretWeatherCode(
-					weatherResult.weathercode,
-				);
-				const formattedSummary = `The current weather in ${
-					geoResult.name
-				} is ${weatherDescription.toLowerCase()} with a temperature of ${
-					weatherResult.temperature
-				}°C and wind speed of ${weatherResult.windspeed} km/h.`;
+			const aiResponseText = response.content.trim();
+			this.log(`AI Response: ${aiResponseText}`);
 
-				return {type: 'weather', summary: formattedSummary};
+			// --- Step 2: Return the weather summary if the weather tool succeeded ---
+			const weatherExecution = executions
+				.filter(execution => execution.toolCall.name === 'get_weather')
+				.pop();
+			const weatherSummary = (
+				weatherExecution?.result as {summary?: string} | undefined
+			)?.summary;
+			if (weatherSummary) {
+				return {type: 'weather', summary: weatherSummary};
 			}
 
-			// --- Step 4: Return AI's Response (Otherwise) ---
+			// --- Step 3: Return AI's Response (Otherwise) ---
 			// Determine type based on AI response
 			if (aiResponseText.includes('Which city')) {
 				return {type: 'question', text: aiResponseText};
-			} else if (currentContext && !fetchTrigger) {
+			} else if (currentContext) {
 				// If we had context and didn't fetch new weather, it's likely an answer
 				return {type: 'answer', text: aiResponseText};
 			} else {
@@ -247,13 +276,18 @@ export class WeatherService {
 				return {type: 'info', text: aiResponseText};
 			}
 		} catch (error) {
-			console.error(
-				'\nError during conversation turn:',
-				error instanceof Error ? error.message : String(error),
+			this.log(
+				`\nError during conversation turn: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
 			);
 			return {
 				type: 'error',
-				text: 'An error occurred while processing your request.',
+				error,
+				text:
+					error instanceof AIProviderError
+						? describeProviderError(error)
+						: 'An error occurred while processing your request.',
 			};
 		}
 	}